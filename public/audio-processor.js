@@ -1,20 +1,32 @@
+/**
+ * Microphone capture worklet
+ *
+ * Runs on the audio rendering thread: batches 128-sample render quanta into
+ * larger chunks, converts Float32 -> Int16 PCM and measures the chunk level,
+ * then transfers the PCM buffer to the main thread for streaming.
+ *
+ * processorOptions.chunkSize - samples per posted chunk (default 2048)
+ */
 class AudioProcessor extends AudioWorkletProcessor {
-  constructor() {
+  constructor(options) {
     super();
-    this.bufferSize = 4096;
-    this.buffer = new Float32Array(this.bufferSize);
+    this.bufferSize = options?.processorOptions?.chunkSize || 2048;
+    this.buffer = new Int16Array(this.bufferSize);
     this.bytesWritten = 0;
+    this.sumSquares = 0;
   }
 
-  process(inputs, outputs, parameters) {
+  process(inputs) {
     const input = inputs[0];
     if (!input || !input.length) return true;
 
     const channel0 = input[0];
-    
-    // Fill buffer
+
+    // Fill buffer with PCM16 samples
     for (let i = 0; i < channel0.length; i++) {
-      this.buffer[this.bytesWritten++] = channel0[i];
+      const s = Math.max(-1, Math.min(1, channel0[i]));
+      this.buffer[this.bytesWritten++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      this.sumSquares += s * s;
 
       // When buffer is full, flush it
       if (this.bytesWritten >= this.bufferSize) {
@@ -26,13 +38,15 @@ class AudioProcessor extends AudioWorkletProcessor {
   }
 
   flush() {
-    // Send copy of buffer to main thread
-    this.port.postMessage({
-      audioData: this.buffer.slice(0, this.bytesWritten)
-    });
-    
+    const pcm = this.buffer.slice(0, this.bytesWritten);
+    const rms = Math.sqrt(this.sumSquares / this.bytesWritten);
+
+    // Transfer (not copy) the chunk to the main thread
+    this.port.postMessage({ pcm: pcm.buffer, rms }, [pcm.buffer]);
+
     // Reset buffer
     this.bytesWritten = 0;
+    this.sumSquares = 0;
   }
 }
 
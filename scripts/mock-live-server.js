@@ -0,0 +1,470 @@
+/**
+ * Mock Gemini Live server for offline debate sessions
+ *
+ * Speaks the same JSON protocol GeminiLiveService uses:
+ *   - WebSocket: setup / realtime_input / client_content in, serverContent out
+ *     (modelTurn audio, outputTranscription, inputTranscription, interrupted,
+ *     turnComplete)
+ *   - HTTP: POST .../models/{model}:generateContent returns a canned analysis
+ *     (or a canned prep brief / argument map when the prompt asks for one);
+ *     :streamGenerateContent sends the same response as server-sent events in pieces
+ *
+ * Usage:
+ *   npm run mock:live -- [--port 8787] [--script path/to/script.json] [--idle 8]
+ *
+ * Then point the app at it (.env.local or Settings):
+ *   VITE_LIVE_ENDPOINT=ws://localhost:8787/live
+ *   VITE_ANALYSIS_ENDPOINT=http://localhost:8787
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { WebSocketServer } from 'ws';
+
+const SAMPLE_RATE = 24000;        // Matches OUTPUT_SAMPLE_RATE in src/utils/audioUtils.ts
+const CHUNK_MS = 200;             // Audio streamed in 200ms frames
+const SECONDS_PER_WORD = 0.32;    // Speaking rate of the canned voice
+const SPEECH_RMS_THRESHOLD = 500; // Int16 RMS above which mic audio counts as speech
+const USER_TURN_SECONDS = 2.5;    // Speech needed before the mock "hears" a user turn
+
+const DEFAULT_SCRIPT = {
+  opening:
+    "Welcome to the debate. I will argue the other side, so make your opening case whenever you are ready.",
+  turns: [
+    {
+      user: 'I think the benefits clearly outweigh the costs for most people.',
+      model:
+        'That is a bold claim. Which costs are you ignoring, and who exactly counts as most people in your argument?',
+    },
+    {
+      user: 'Studies show that the majority of participants reported better outcomes.',
+      model:
+        'Self reported outcomes are notoriously unreliable. Without a control group that evidence proves very little about causation.',
+      interrupt: true,
+    },
+    {
+      user: 'Even so, the trend across several independent studies points the same way.',
+      model:
+        'Fair point, consistency across independent studies does strengthen your case. But consistency is not the same as significance.',
+    },
+  ],
+  prepBrief: {
+    definitions: [
+      { term: 'Benefit', definition: 'A measurable improvement for the people affected by the motion.' },
+      { term: 'Cost', definition: 'Any financial, social or personal price paid to achieve that benefit.' },
+    ],
+    argumentsFor: [
+      'Independent studies point to better outcomes for most participants.',
+      'Early adopters report lasting improvements rather than one-off gains.',
+      'Costs fall as adoption grows, so the balance improves over time.',
+    ],
+    argumentsAgainst: [
+      'Much of the evidence is self reported and lacks a control group.',
+      'The costs fall hardest on people least able to bear them.',
+      'Benefits for the majority do not justify harm to a minority.',
+    ],
+    likelyRebuttals: [
+      { rebuttal: 'Self reported outcomes are unreliable.', response: 'Point to the studies that measured outcomes directly.' },
+      { rebuttal: 'Who exactly counts as most people?', response: 'Define the affected group in your opening.' },
+      { rebuttal: 'Correlation is not causation.', response: 'Explain the mechanism that links cause and effect.' },
+    ],
+  },
+  // messageIndex counts the opening as message 0, as in the app's transcript
+  argumentMap: {
+    units: [
+      { id: 'a1', type: 'claim', summary: 'Benefits outweigh the costs for most people', messageIndex: 1, targetId: '' },
+      { id: 'a2', type: 'rebuttal', summary: 'Which costs are ignored and who counts as most people?', messageIndex: 2, targetId: 'a1' },
+      { id: 'a3', type: 'evidence', summary: 'Most study participants reported better outcomes', messageIndex: 3, targetId: 'a1' },
+      { id: 'a4', type: 'rebuttal', summary: 'Self reported outcomes without a control group prove little', messageIndex: 4, targetId: 'a3' },
+      { id: 'a5', type: 'rebuttal', summary: 'Several independent studies point the same way', messageIndex: 5, targetId: 'a4' },
+      { id: 'a6', type: 'concession', summary: 'Consistency across studies strengthens the case', messageIndex: 6, targetId: 'a5' },
+      { id: 'a7', type: 'claim', summary: 'Consistency is not the same as significance', messageIndex: 6, targetId: '' },
+    ],
+  },
+  analysis: {
+    confidenceLevel: 'Medium',
+    englishProficiency: 'Advanced',
+    vocabularyScore: 70,
+    clarityScore: 72,
+    argumentStrength: 64,
+    persuasionScore: 66,
+    strategicAdaptability: 61,
+    archetype: 'The Evidence Hunter',
+    wildcardInsight: 'You reach for studies early, which keeps the debate grounded.',
+    emotionalState: 'Calm',
+    strengths: ['Backs claims with evidence', 'Stays on topic'],
+    weaknesses: ['Concedes framing too easily', 'Rarely asks questions back'],
+    suggestions: [
+      'Define your key terms up front',
+      'Challenge the quality of opposing evidence',
+      'Close each point with a one-line summary',
+      'Ask at least one question per exchange',
+    ],
+    fallacies: [
+      {
+        type: 'HASTY_GENERALIZATION',
+        messageIndex: 1,
+        quote: 'the benefits clearly outweigh the costs for most people',
+        explanation: 'The claim covers most people without any evidence about who they are.',
+        betterAlternative: 'Name the group you mean and the evidence that the benefits outweigh the costs for them.',
+      },
+    ],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// CLI options
+// ---------------------------------------------------------------------------
+
+function parseArgs(argv) {
+  const options = { port: 8787, script: null, idle: 8 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+    if (arg === '--port' && next) {
+      options.port = Number(next);
+      i++;
+    } else if (arg === '--script' && next) {
+      options.script = next;
+      i++;
+    } else if (arg === '--idle' && next) {
+      options.idle = Number(next);
+      i++;
+    }
+  }
+  return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const script = options.script
+  ? { ...DEFAULT_SCRIPT, ...JSON.parse(readFileSync(options.script, 'utf8')) }
+  : DEFAULT_SCRIPT;
+
+// ---------------------------------------------------------------------------
+// Canned audio
+// ---------------------------------------------------------------------------
+
+/**
+ * Synthesizes a voice-like PCM16 signal: one enveloped harmonic burst per word
+ * @returns Int16Array at SAMPLE_RATE
+ */
+function synthesizeSpeech(text) {
+  const words = text.split(/\s+/).filter(Boolean);
+  const wordSamples = Math.floor(SAMPLE_RATE * SECONDS_PER_WORD);
+  const pcm = new Int16Array(words.length * wordSamples);
+
+  words.forEach((word, w) => {
+    const pitch = 110 + (word.length % 5) * 18;
+    for (let i = 0; i < wordSamples; i++) {
+      const t = i / SAMPLE_RATE;
+      const envelope = Math.sin((Math.PI * i) / wordSamples) * 0.8;
+      const sample =
+        Math.sin(2 * Math.PI * pitch * t) * 0.6 +
+        Math.sin(2 * Math.PI * pitch * 2 * t) * 0.25 +
+        Math.sin(2 * Math.PI * pitch * 3 * t) * 0.15;
+      pcm[w * wordSamples + i] = Math.round(sample * envelope * 0.3 * 32767);
+    }
+  });
+
+  return pcm;
+}
+
+function rmsOfBase64Pcm(base64) {
+  const buffer = Buffer.from(base64, 'base64');
+  const samples = new Int16Array(buffer.buffer, buffer.byteOffset, Math.floor(buffer.byteLength / 2));
+  if (samples.length === 0) return { rms: 0, seconds: 0 };
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return { rms: Math.sqrt(sum / samples.length), seconds: samples.length / SAMPLE_RATE };
+}
+
+// ---------------------------------------------------------------------------
+// Live session
+// ---------------------------------------------------------------------------
+
+class MockLiveSession {
+  constructor(socket) {
+    this.socket = socket;
+    this.turnIndex = 0;
+    this.speechSeconds = 0;
+    this.idleTimer = null;
+    this.playback = null; // { timer, interrupted }
+    this.isSetup = false;
+    this.clientActivity = false; // Client-side VAD / push-to-talk disables our detection
+    this.typedInput = false; // Text mode: the user types, nothing to simulate
+
+    socket.on('message', (data) => this.handleMessage(data));
+    socket.on('close', () => this.dispose());
+  }
+
+  send(message) {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  handleMessage(data) {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      console.warn('⚠️  Ignoring non-JSON frame');
+      return;
+    }
+
+    if (message.setup) {
+      this.isSetup = true;
+      this.clientActivity = Boolean(message.setup.realtime_input_config?.automatic_activity_detection?.disabled);
+      this.typedInput = !message.setup.input_audio_transcription;
+      const mode = this.typedInput ? ' (text input)' : '';
+      console.log(`🎬 Setup received for ${message.setup.model}${this.clientActivity ? ' (client activity detection)' : ''}${mode}`);
+      this.send({ setupComplete: {} });
+      setTimeout(() => this.speak(script.opening, false), 600);
+      return;
+    }
+
+    if (!this.isSetup) return;
+
+    // Explicit activity markers sent by client-side VAD / push-to-talk
+    if (message.realtime_input?.activity_start) {
+      clearTimeout(this.idleTimer);
+      if (this.playback) this.interrupt();
+      return;
+    }
+    if (message.realtime_input?.activity_end) {
+      this.respond();
+      return;
+    }
+
+    // Moderator messages (debate format phases) and typed turns: answer when handed the turn
+    if (message.client_content) {
+      const text = message.client_content.turns?.[0]?.parts?.[0]?.text ?? '';
+      console.log(`📣 ${text}`);
+      if (message.client_content.turn_complete) {
+        clearTimeout(this.idleTimer);
+        if (this.playback) this.interrupt();
+        this.speakNext();
+      }
+      return;
+    }
+
+    const chunks = message.realtime_input?.media_chunks ?? [];
+    for (const chunk of chunks) {
+      this.handleAudio(chunk.data);
+    }
+  }
+
+  handleAudio(base64) {
+    // Turn boundaries come from activity markers when the client gates audio
+    if (this.clientActivity) return;
+
+    const { rms, seconds } = rmsOfBase64Pcm(base64);
+    if (rms < SPEECH_RMS_THRESHOLD) return;
+
+    // User talking over the model -> barge-in
+    if (this.playback) {
+      this.interrupt();
+      return;
+    }
+
+    this.speechSeconds += seconds;
+    if (this.speechSeconds >= USER_TURN_SECONDS) {
+      this.respond();
+    }
+  }
+
+  armIdleTimer() {
+    clearTimeout(this.idleTimer);
+    if (!options.idle || this.typedInput) return;
+    // Nobody is talking into the mic: simulate the user's scripted line
+    this.idleTimer = setTimeout(() => this.respond(), options.idle * 1000);
+  }
+
+  respond() {
+    clearTimeout(this.idleTimer);
+    this.speechSeconds = 0;
+    if (this.playback) return;
+
+    const turn = script.turns[this.turnIndex % script.turns.length];
+    this.turnIndex++;
+    if (!turn) return;
+
+    this.streamText('inputTranscription', turn.user);
+    setTimeout(() => this.speak(turn.model, Boolean(turn.interrupt)), 400);
+  }
+
+  /**
+   * Model takes the floor without a user line (e.g. a phase where the AI speaks)
+   */
+  speakNext() {
+    clearTimeout(this.idleTimer);
+    this.speechSeconds = 0;
+    const turn = script.turns[this.turnIndex % script.turns.length];
+    this.turnIndex++;
+    if (!turn) return;
+    setTimeout(() => this.speak(turn.model, false), 400);
+  }
+
+  streamText(field, text) {
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      this.send({ serverContent: { [field]: { text: ` ${word}` } } });
+    }
+  }
+
+  /**
+   * Streams a model turn in real time: audio frames with word-aligned
+   * outputTranscription, then turnComplete (or interrupted halfway)
+   */
+  speak(text, interruptHalfway) {
+    const words = text.split(/\s+/).filter(Boolean);
+    const pcm = synthesizeSpeech(text);
+    const samplesPerChunk = Math.floor((SAMPLE_RATE * CHUNK_MS) / 1000);
+    const totalChunks = Math.ceil(pcm.length / samplesPerChunk);
+    const interruptAt = interruptHalfway ? Math.floor(totalChunks / 2) : -1;
+    let chunkIndex = 0;
+    let wordIndex = 0;
+
+    console.log(`🤖 Model: ${text}`);
+
+    const playback = { timer: null };
+    this.playback = playback;
+
+    playback.timer = setInterval(() => {
+      if (chunkIndex === interruptAt) {
+        console.log('✋ Simulating interruption');
+        this.interrupt();
+        return;
+      }
+
+      if (chunkIndex >= totalChunks) {
+        clearInterval(playback.timer);
+        this.playback = null;
+        this.send({ serverContent: { turnComplete: true } });
+        this.armIdleTimer();
+        return;
+      }
+
+      const slice = pcm.subarray(chunkIndex * samplesPerChunk, (chunkIndex + 1) * samplesPerChunk);
+      const data = Buffer.from(slice.buffer, slice.byteOffset, slice.byteLength).toString('base64');
+      this.send({
+        serverContent: {
+          modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${SAMPLE_RATE}`, data } }] },
+        },
+      });
+
+      // Emit the words whose audio has now been sent
+      const spokenSeconds = ((chunkIndex + 1) * CHUNK_MS) / 1000;
+      while (wordIndex < words.length && wordIndex * SECONDS_PER_WORD < spokenSeconds) {
+        this.send({ serverContent: { outputTranscription: { text: ` ${words[wordIndex]}` } } });
+        wordIndex++;
+      }
+
+      chunkIndex++;
+    }, CHUNK_MS);
+  }
+
+  interrupt() {
+    if (!this.playback) return;
+    clearInterval(this.playback.timer);
+    this.playback = null;
+    this.send({ serverContent: { interrupted: true } });
+    this.send({ serverContent: { turnComplete: true } });
+    this.armIdleTimer();
+  }
+
+  dispose() {
+    clearTimeout(this.idleTimer);
+    if (this.playback) clearInterval(this.playback.timer);
+    this.playback = null;
+    console.log('👋 Session closed');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HTTP (analysis) + WebSocket (live) server
+// ---------------------------------------------------------------------------
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+// generateContent prompts are told apart by a marker phrase; anything else is an analysis
+const ANALYSIS_REQUEST = { key: 'analysis', label: '📊 Analysis' };
+const CONTENT_REQUESTS = [
+  { marker: 'PREP BRIEF', key: 'prepBrief', label: '📚 Prep brief' },
+  { marker: 'ARGUMENT MAP', key: 'argumentMap', label: '🗺️ Argument map' },
+];
+
+// Streamed responses are cut into this many pieces, sent this far apart
+const STREAM_PIECES = 12;
+const STREAM_PIECE_MS = 250;
+
+const toCandidateBody = (text, finishReason) => ({
+  candidates: [
+    {
+      content: { role: 'model', parts: [{ text }] },
+      ...(finishReason && { finishReason }),
+    },
+  ],
+});
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  const isStream = req.url?.includes(':streamGenerateContent');
+  if (req.method === 'POST' && (isStream || req.url?.includes(':generateContent'))) {
+    // Only peek at the prompt to tell the request kinds apart
+    let requestBody = '';
+    req.on('data', (chunk) => {
+      requestBody += chunk;
+    });
+    req.on('end', () => {
+      const kind = CONTENT_REQUESTS.find(({ marker }) => requestBody.includes(marker)) ?? ANALYSIS_REQUEST;
+      console.log(`${kind.label} requested: ${req.url}`);
+      const text = JSON.stringify(script[kind.key]);
+
+      if (!isStream) {
+        res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(toCandidateBody(text, 'STOP')));
+        return;
+      }
+
+      res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream' });
+      const pieceLength = Math.ceil(text.length / STREAM_PIECES);
+      let offset = 0;
+      const timer = setInterval(() => {
+        const piece = text.slice(offset, offset + pieceLength);
+        offset += pieceLength;
+        const isLast = offset >= text.length;
+        res.write(`data: ${JSON.stringify(toCandidateBody(piece, isLast ? 'STOP' : undefined))}\r\n\r\n`);
+        if (isLast) {
+          clearInterval(timer);
+          res.end();
+        }
+      }, STREAM_PIECE_MS);
+      res.on('close', () => clearInterval(timer));
+    });
+    return;
+  }
+
+  res.writeHead(404, CORS_HEADERS);
+  res.end('Not found');
+});
+
+const wss = new WebSocketServer({ server });
+wss.on('connection', (socket, req) => {
+  console.log(`🔌 Live session connected (${req.url})`);
+  new MockLiveSession(socket);
+});
+
+server.listen(options.port, () => {
+  console.log(`🧪 Mock Gemini Live server listening`);
+  console.log(`   live:     ws://localhost:${options.port}/live`);
+  console.log(`   analysis: http://localhost:${options.port}`);
+});
@@ -1,13 +1,26 @@
-import { useState, lazy, Suspense } from 'react';
-import { AppView, DebateStyle, DebateAnalysis } from './types';
+import { useState, useEffect, lazy, Suspense } from 'react';
+import { AppView, ChatMessage, DebateAnalysis, DebateConfig, DebateSessionResult } from './types';
 import Landing from './components/Landing';
 import Dashboard from './components/Dashboard';
+import DebatePrep from './components/DebatePrep';
 import DebateLive from './components/DebateLive';
 import SessionSummary from './components/SessionSummary';
 import Settings from './components/Settings';
 import Activity from './components/Activity';
 import Achievements from './components/Achievements';
-import { saveSession } from './services/storageService';
+import StorageWarningBanner from './components/StorageWarningBanner';
+import {
+  getApiKey,
+  getProfileImage,
+  getUserName,
+  queuePendingAnalysis,
+  saveProfileImage,
+  saveSession,
+  saveUserName,
+  subscribeToStorageChanges,
+} from './services/storageService';
+import { saveRecording } from './services/recordingStore';
+import { processPendingAnalyses } from './services/analysisQueue';
 
 // Lazy load PersonaShowcase for better performance
 const PersonaShowcase = lazy(() => import('./components/PersonaShowcase'));
@@ -16,61 +29,118 @@ function App() {
   // Global state management
   const [showLanding, setShowLanding] = useState<boolean>(true);
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
-  const [currentTopic, setCurrentTopic] = useState<string>('');
-  const [currentStyle, setCurrentStyle] = useState<DebateStyle>(DebateStyle.COACH);
-  const [currentDuration, setCurrentDuration] = useState<number>(5);
+  const [debateConfig, setDebateConfig] = useState<DebateConfig | null>(null);
   const [sessionStartTime, setSessionStartTime] = useState<number>(0);
   const [lastAnalysis, setLastAnalysis] = useState<DebateAnalysis | null>(null);
-  const [profileImage, setProfileImage] = useState<string>(
-    localStorage.getItem('mindmelee_profile_image') || ''
-  );
-  const [userName, setUserName] = useState<string>(
-    localStorage.getItem('mindmelee_user_name') || 'User One'
-  );
+  const [lastTranscript, setLastTranscript] = useState<ChatMessage[]>([]);
+  const [profileImage, setProfileImage] = useState<string>(getProfileImage);
+  const [userName, setUserName] = useState<string>(() => getUserName() || 'User One');
   const [isEditingName, setIsEditingName] = useState<boolean>(false);
   const [forceShowSettings, setForceShowSettings] = useState<boolean>(false);
+  // Bumped when stored sessions change outside the current view (another tab, background analysis), so it reloads them
+  const [dataVersion, setDataVersion] = useState<number>(0);
 
-  // API key validation - check localStorage first, then env
-  const storedApiKey = localStorage.getItem('mindmelee_api_key') || '';
+  // API key validation - check Settings first, then env
+  const storedApiKey = getApiKey();
   const envApiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
   const apiKey = storedApiKey || envApiKey;
   const apiKeyMissing = !apiKey || apiKey === 'your_api_key_here';
 
+  // Another tab saved something; views re-read storage
+  useEffect(() => subscribeToStorageChanges(() => setDataVersion(version => version + 1)), []);
+
+  // Retry analyses that failed in earlier sessions
+  useEffect(() => {
+    if (!apiKeyMissing) {
+      void processPendingAnalyses(() => setDataVersion(version => version + 1));
+    }
+  }, [apiKeyMissing]);
+
   /**
-   * Transition to Live Arena view
+   * Transition to Live Arena view (via the prep phase when prep time was chosen)
    * Requirement 12.1: Navigate to Live Arena when user starts debate
    */
-  const startDebate = (topic: string, style: DebateStyle, duration: number) => {
-    setCurrentTopic(topic);
-    setCurrentStyle(style);
-    setCurrentDuration(duration);
+  const startDebate = (config: DebateConfig) => {
+    setDebateConfig(config);
+    if (config.prepSeconds) {
+      setCurrentView(AppView.DEBATE_PREP);
+      return;
+    }
     setSessionStartTime(Date.now());
     setCurrentView(AppView.DEBATE_LIVE);
   };
 
   /**
-   * Store analysis and show Summary view
-   * Requirement 12.2: Navigate to Summary after analysis completes
+   * Prep finished - keep the notes with the config and go live
+   */
+  const finishPrep = (notes: string) => {
+    setDebateConfig(prev => (prev ? { ...prev, prepNotes: notes } : prev));
+    setSessionStartTime(Date.now());
+    setCurrentView(AppView.DEBATE_LIVE);
+  };
+
+  /**
+   * Save the finished session to history (and its recording to IndexedDB)
+   * @param analysis - Omitted when analysis failed; the session is then saved as pending
    */
-  const handleAnalysisComplete = (analysis: DebateAnalysis) => {
+  const saveDebateSession = (analysis: DebateAnalysis | undefined, result: DebateSessionResult) => {
     // Calculate actual session duration
     const durationSeconds = Math.floor((Date.now() - sessionStartTime) / 1000);
     
     // Save session with analysis data
-    saveSession(currentTopic, durationSeconds, analysis);
-    
+    const { newItem } = saveSession(debateConfig?.topic ?? '', durationSeconds, analysis, {
+      hasRecording: result.recording !== null,
+      transcript: result.transcript,
+      formatId: debateConfig?.formatId,
+      side: debateConfig?.side,
+      // Custom personas don't count towards the built-in style comparison
+      style: debateConfig?.opponentPersona ? undefined : debateConfig?.style,
+      opponentName: debateConfig?.opponentPersona?.name,
+      opponentPersonaId: debateConfig?.opponentPersona?.id,
+      difficulty: debateConfig?.difficulty,
+      inputMode: debateConfig?.inputMode,
+      prepSeconds: debateConfig?.prepSeconds,
+      prepNotes: debateConfig?.prepNotes,
+      deliveryMetrics: result.deliveryMetrics ?? undefined,
+    });
+
+    // Audio goes to IndexedDB under the session id (opt-in recording)
+    if (result.recording) {
+      void saveRecording(newItem.id, result.recording);
+    }
+    return newItem;
+  };
+
+  /**
+   * Store analysis and show Summary view
+   * Requirement 12.2: Navigate to Summary after analysis completes
+   */
+  const handleAnalysisComplete = (analysis: DebateAnalysis, result: DebateSessionResult) => {
+    saveDebateSession(analysis, result);
     setLastAnalysis(analysis);
+    setLastTranscript(result.transcript);
     setCurrentView(AppView.SUMMARY);
   };
 
+  /**
+   * Analysis failed after retries - save the session unscored and queue it for re-analysis
+   */
+  const handleAnalysisPending = (result: DebateSessionResult) => {
+    const newItem = saveDebateSession(undefined, result);
+    if (debateConfig) {
+      queuePendingAnalysis(newItem.id, debateConfig);
+    }
+  };
+
   /**
    * Reset state and return to Dashboard
    * Requirement 12.3: Navigate back to Dashboard from other views
    */
   const goBackToDashboard = () => {
     setCurrentView(AppView.DASHBOARD);
-    setCurrentTopic('');
+    setDebateConfig(null);
     setLastAnalysis(null);
+    setLastTranscript([]);
   };
 
   /**
@@ -114,7 +184,7 @@ function App() {
       reader.onloadend = () => {
         const imageData = reader.result as string;
         setProfileImage(imageData);
-        localStorage.setItem('mindmelee_profile_image', imageData);
+        saveProfileImage(imageData);
       };
       reader.readAsDataURL(file);
     }
@@ -295,12 +365,12 @@ function App() {
                 onChange={(e) => setUserName(e.target.value)}
                 onBlur={() => {
                   setIsEditingName(false);
-                  localStorage.setItem('mindmelee_user_name', userName);
+                  saveUserName(userName);
                 }}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') {
                     setIsEditingName(false);
-                    localStorage.setItem('mindmelee_user_name', userName);
+                    saveUserName(userName);
                   }
                 }}
                 autoFocus
@@ -481,17 +551,26 @@ function App() {
         <main className={`flex-1 overflow-auto ${currentView === AppView.DEBATE_LIVE ? '' : 'md:ml-64'}`}>
           {currentView === AppView.DASHBOARD && (
             <div className="animate-fadeIn">
-              <Dashboard onStartDebate={startDebate} onNavigateToPersona={goToPersona} />
+              <Dashboard onStartDebate={startDebate} onNavigateToPersona={goToPersona} dataVersion={dataVersion} />
+            </div>
+          )}
+
+          {currentView === AppView.DEBATE_PREP && debateConfig && (
+            <div className="animate-fadeIn">
+              <DebatePrep
+                config={debateConfig}
+                onStart={finishPrep}
+                onBack={goBackToDashboard}
+              />
             </div>
           )}
 
-          {currentView === AppView.DEBATE_LIVE && (
+          {currentView === AppView.DEBATE_LIVE && debateConfig && (
             <div className="animate-fadeIn">
               <DebateLive
-                topic={currentTopic}
-                style={currentStyle}
-                durationMinutes={currentDuration}
+                config={debateConfig}
                 onAnalysisComplete={handleAnalysisComplete}
+                onAnalysisPending={handleAnalysisPending}
                 onBack={goBackToDashboard}
               />
             </div>
@@ -501,6 +580,7 @@ function App() {
             <div className="animate-fadeIn">
               <SessionSummary
                 analysis={lastAnalysis}
+                transcript={lastTranscript}
                 onBack={goBackToDashboard}
               />
             </div>
@@ -514,7 +594,7 @@ function App() {
 
           {currentView === AppView.ACTIVITY && (
             <div className="animate-fadeIn">
-              <Activity onBack={goBackToDashboard} />
+              <Activity onBack={goBackToDashboard} dataVersion={dataVersion} />
             </div>
           )}
 
@@ -539,6 +619,8 @@ function App() {
           )}
         </main>
       </div>
+
+      <StorageWarningBanner />
     </div>
   );
 }
@@ -1,18 +1,27 @@
 import { useState, useEffect, useMemo } from 'react';
 import { SessionHistoryItem } from '../types';
 import { getHistory } from '../services/storageService';
+import { reanalyzeSession, runPendingAnalysis } from '../services/analysisQueue';
 import StatCard from './StatCard';
 import ChartsSection from './ChartsSection';
 import ActivityHeatMap from './ActivityHeatMap';
 import SessionHistoryList from './SessionHistoryList';
 import TopPerformersSection from './TopPerformersSection';
 import ConfidenceTrendChart from './ConfidenceTrendChart';
+import SideBreakdownCard from './SideBreakdownCard';
+import StyleComparisonCard from './StyleComparisonCard';
+import FallacyBreakdownCard from './FallacyBreakdownCard';
+import DeliveryMetricsCard from './DeliveryMetricsCard';
+import BulkReanalysisCard from './BulkReanalysisCard';
 import {
   calculateTotalSessions,
   calculateTotalPracticeTime,
   calculateAverageScore,
   calculateCurrentStreak,
+  getScoredSessions,
   getTopPerformers,
+  selectAnalysisVersion,
+  type AnalysisVersionChoice,
 } from '../utils/statisticsUtils';
 
 /**
@@ -23,19 +32,21 @@ import {
 
 interface ActivityProps {
   onBack: () => void;
+  dataVersion?: number; // Changes when stored sessions change; history is re-read
 }
 
 type TimeFilter = '7d' | '30d' | '90d' | 'all';
 
-function Activity({ onBack }: ActivityProps) {
+function Activity({ onBack, dataVersion }: ActivityProps) {
   const [sessions, setSessions] = useState<SessionHistoryItem[]>([]);
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
+  const [versionChoice, setVersionChoice] = useState<AnalysisVersionChoice>('latest');
 
   // Load session history on mount - Requirement 1.2
   useEffect(() => {
     const history = getHistory();
     setSessions(history);
-  }, []);
+  }, [dataVersion]);
 
   // Compute filtered sessions based on time filter - Requirement 4.2
   const filteredSessions = useMemo(() => {
@@ -66,20 +77,60 @@ function Activity({ onBack }: ActivityProps) {
     });
   }, [sessions, timeFilter]);
 
+  // Sessions still waiting for analysis count as practice but have no scores yet
+  const scoredSessions = useMemo(
+    () => selectAnalysisVersion(getScoredSessions(filteredSessions), versionChoice),
+    [filteredSessions, versionChoice]
+  );
+
+  // The version toggle only matters once something has been re-analyzed
+  const hasReanalyzedSessions = useMemo(
+    () => sessions.some((session) => (session.analysisVersions?.length ?? 0) > 1),
+    [sessions]
+  );
+
   // Calculate statistics from filtered sessions - Requirements 5.1, 5.2, 5.3, 5.4
   const statistics = useMemo(() => {
     return {
       totalSessions: calculateTotalSessions(filteredSessions),
       totalMinutes: calculateTotalPracticeTime(filteredSessions),
-      averageScore: calculateAverageScore(filteredSessions),
+      averageScore: calculateAverageScore(scoredSessions),
       currentStreak: calculateCurrentStreak(filteredSessions),
     };
-  }, [filteredSessions]);
+  }, [filteredSessions, scoredSessions]);
 
   // Get top performers - Requirements 7.1, 7.4, 7.5
   const topPerformers = useMemo(() => {
-    return getTopPerformers(filteredSessions);
-  }, [filteredSessions]);
+    return getTopPerformers(scoredSessions);
+  }, [scoredSessions]);
+
+  /**
+   * Re-run analysis for a pending session and swap in the scored session
+   * @returns Whether the analysis succeeded
+   */
+  const handleRetryAnalysis = async (sessionId: string): Promise<boolean> => {
+    const updated = await runPendingAnalysis(sessionId);
+    if (updated) {
+      handleSessionUpdated(updated);
+    }
+    return updated !== null;
+  };
+
+  /**
+   * Re-analyze a scored session with the current model and rubric
+   * @returns Whether the re-analysis succeeded
+   */
+  const handleReanalyze = async (sessionId: string): Promise<boolean> => {
+    const updated = await reanalyzeSession(sessionId);
+    if (updated) {
+      handleSessionUpdated(updated);
+    }
+    return updated !== null;
+  };
+
+  const handleSessionUpdated = (updated: SessionHistoryItem) => {
+    setSessions((prev) => prev.map((session) => (session.id === updated.id ? updated : session)));
+  };
 
   // Check if there are no sessions (empty state) - Requirement 1.3
   const isEmpty = sessions.length === 0;
@@ -289,12 +340,55 @@ function Activity({ onBack }: ActivityProps) {
                   </div>
                 </div>
 
+                {/* Which analysis to chart for re-analyzed sessions */}
+                {hasReanalyzedSessions && (
+                  <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+                    <span className="text-gray-500 text-[10px] font-black uppercase tracking-widest mr-2">Scores From</span>
+                    {[
+                      { value: 'latest', label: 'Latest Analysis' },
+                      { value: 'original', label: 'Original Analysis' },
+                    ].map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => setVersionChoice(option.value as AnalysisVersionChoice)}
+                        className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-wide transition-all ${
+                          versionChoice === option.value
+                            ? 'bg-white text-black'
+                            : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 {/* Charts Section - Requirements 2.1, 2.3 */}
-                <ChartsSection sessions={filteredSessions} />
+                <ChartsSection sessions={scoredSessions} />
 
                 {/* Confidence Trend Chart */}
                 <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.6s', animationFillMode: 'both' }}>
-                  <ConfidenceTrendChart sessions={filteredSessions} />
+                  <ConfidenceTrendChart sessions={scoredSessions} />
+                </div>
+
+                {/* Speaking delivery (voice sessions) */}
+                <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.62s', animationFillMode: 'both' }}>
+                  <DeliveryMetricsCard sessions={filteredSessions} />
+                </div>
+
+                {/* Results by side of the motion */}
+                <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.65s', animationFillMode: 'both' }}>
+                  <SideBreakdownCard sessions={scoredSessions} />
+                </div>
+
+                {/* Results by AI opponent style */}
+                <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.68s', animationFillMode: 'both' }}>
+                  <StyleComparisonCard sessions={scoredSessions} />
+                </div>
+
+                {/* Most common logical fallacies */}
+                <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.69s', animationFillMode: 'both' }}>
+                  <FallacyBreakdownCard sessions={scoredSessions} />
                 </div>
 
                 {/* Activity Heat Map - Requirements 3.1, 3.2, 3.3, 3.4, 3.5 */}
@@ -307,9 +401,18 @@ function Activity({ onBack }: ActivityProps) {
                   <TopPerformersSection sessions={topPerformers} />
                 </div>
 
+                {/* Re-score a date range with the current model and rubric */}
+                <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.85s', animationFillMode: 'both' }}>
+                  <BulkReanalysisCard sessions={sessions} onSessionUpdated={handleSessionUpdated} />
+                </div>
+
                 {/* Session History List - Requirements 6.1, 6.2, 6.3, 6.4, 6.5 */}
                 <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.9s', animationFillMode: 'both' }}>
-                  <SessionHistoryList sessions={filteredSessions} />
+                  <SessionHistoryList
+                    sessions={filteredSessions}
+                    onRetryAnalysis={handleRetryAnalysis}
+                    onReanalyze={handleReanalyze}
+                  />
                 </div>
               </>
             )}
@@ -0,0 +1,154 @@
+/**
+ * AnalysisRubricPicker component - Choose the scoring rubric, and import, export or delete custom ones
+ */
+
+import { useState, useRef } from 'react';
+import { Trash2, Download, Upload, Check } from 'lucide-react';
+import { AnalysisRubric } from '../types';
+import { getCustomRubrics, saveCustomRubric, deleteCustomRubric } from '../services/storageService';
+import { ANALYSIS_RUBRICS, DEFAULT_RUBRIC_ID, getAnalysisRubric } from '../services/analysisRubrics';
+import { validateAnalysisRubrics } from '../utils/rubricValidation';
+
+interface AnalysisRubricPickerProps {
+  selectedId: string;
+  onSelect: (rubricId: string) => void;
+}
+
+export default function AnalysisRubricPicker({ selectedId, onSelect }: AnalysisRubricPickerProps) {
+  const [customRubrics, setCustomRubrics] = useState<AnalysisRubric[]>(() => getCustomRubrics());
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = getAnalysisRubric(selectedId, customRubrics);
+
+  const handleDelete = (rubric: AnalysisRubric) => {
+    if (!window.confirm(`Delete the rubric "${rubric.name}"? Sessions already scored under it keep their scores.`)) return;
+    setCustomRubrics(deleteCustomRubric(rubric.id));
+    if (selectedId === rubric.id) onSelect(DEFAULT_RUBRIC_ID);
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    // Built-in ids are reserved, so a built-in rubric is exported as a copy that imports as-is
+    const isBuiltIn = ANALYSIS_RUBRICS.some(rubric => rubric.id === selected.id);
+    const rubric = isBuiltIn
+      ? { ...selected, id: `${selected.id}_custom`, version: 1, name: `${selected.name} (Custom)` }
+      : selected;
+    const blob = new Blob([JSON.stringify({ version: 1, rubrics: [rubric] }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mindmelee-rubric-${rubric.id}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      // Accept both the exported wrapper and a bare array
+      const { valid, errors } = validateAnalysisRubrics(Array.isArray(parsed) ? parsed : parsed?.rubrics);
+
+      // Sessions are compared by rubric id and version, so a changed rubric needs a new version
+      const accepted = valid.filter(rubric => {
+        const existing = customRubrics.find(r => r.id === rubric.id);
+        if (existing && existing.version === rubric.version && JSON.stringify(existing) !== JSON.stringify(rubric)) {
+          errors.push(`${rubric.name} v${rubric.version} is already imported with different contents; bump its version`);
+          return false;
+        }
+        return true;
+      });
+
+      if (accepted.length === 0) {
+        setMessage({ type: 'error', text: errors[0] ?? 'No rubrics found in file' });
+        return;
+      }
+
+      let updated = customRubrics;
+      accepted.forEach(rubric => {
+        updated = saveCustomRubric(rubric);
+      });
+      setCustomRubrics(updated);
+      setMessage({
+        type: errors.length > 0 ? 'error' : 'success',
+        text: `Imported ${accepted.length} rubric${accepted.length === 1 ? '' : 's'}${errors.length > 0 ? `, skipped ${errors.length} invalid` : ''}`,
+      });
+    } catch (error) {
+      console.error('Failed to import analysis rubrics:', error);
+      setMessage({ type: 'error', text: 'File is not valid JSON' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {[...ANALYSIS_RUBRICS, ...customRubrics].map(rubric => {
+        const isCustom = customRubrics.includes(rubric);
+        return (
+          <div
+            key={rubric.id}
+            className={`w-full flex items-center justify-between gap-4 p-4 rounded-2xl border text-left transition-colors ${
+              selected.id === rubric.id
+                ? 'bg-sky-500/10 border-sky-500'
+                : 'bg-[#111] border-white/10 hover:border-white/30'
+            }`}
+          >
+            <button onClick={() => onSelect(rubric.id)} className="flex-1 flex flex-col gap-1 text-left min-w-0">
+              <span className="font-bold uppercase tracking-wide text-white text-sm">
+                {rubric.name} <span className="text-gray-500 text-xs">v{rubric.version}</span>
+                {isCustom && <span className="text-sky-500 text-xs"> · Custom</span>}
+              </span>
+              <span className="text-xs text-gray-500">{rubric.description}</span>
+            </button>
+            <div className="flex items-center gap-2 shrink-0">
+              {selected.id === rubric.id && <Check size={16} className="text-sky-500" />}
+              {isCustom && (
+                <button
+                  onClick={() => handleDelete(rubric)}
+                  className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/5 transition-colors"
+                  aria-label={`Delete ${rubric.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {message && (
+        <p className={`text-xs font-bold ${message.type === 'success' ? 'text-nav-lime' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 font-black uppercase tracking-wide text-xs rounded-xl transition-colors flex items-center gap-2"
+        >
+          <Upload size={14} /> Import JSON
+        </button>
+        <button
+          onClick={handleExport}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 font-black uppercase tracking-wide text-xs rounded-xl transition-colors flex items-center gap-2"
+        >
+          <Download size={14} /> Export Selected
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+}
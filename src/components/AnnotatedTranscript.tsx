@@ -0,0 +1,128 @@
+/**
+ * AnnotatedTranscript component - The debate transcript with detected
+ * fallacies highlighted in the user's messages and explained inline
+ */
+
+import { useMemo, useState } from 'react';
+import { ChatMessage, DetectedFallacy } from '../types';
+import { getFallacy } from '../services/fallacies';
+
+interface AnnotatedTranscriptProps {
+  transcript: ChatMessage[];
+  fallacies: DetectedFallacy[];
+}
+
+/**
+ * Split a message into plain and highlighted parts around the fallacy quotes
+ * Quotes that can't be found (or overlap an earlier one) are left unhighlighted.
+ */
+function highlightQuotes(text: string, quotes: string[]): { text: string; isHighlighted: boolean }[] {
+  const lowerText = text.toLowerCase();
+  const ranges = quotes
+    .map(quote => {
+      const start = quote ? lowerText.indexOf(quote.toLowerCase()) : -1;
+      return { start, end: start + quote.length };
+    })
+    .filter(range => range.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const parts: { text: string; isHighlighted: boolean }[] = [];
+  let cursor = 0;
+  ranges.forEach(range => {
+    if (range.start < cursor) return;
+    if (range.start > cursor) parts.push({ text: text.slice(cursor, range.start), isHighlighted: false });
+    parts.push({ text: text.slice(range.start, range.end), isHighlighted: true });
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), isHighlighted: false });
+  return parts;
+}
+
+export default function AnnotatedTranscript({ transcript, fallacies }: AnnotatedTranscriptProps) {
+  const [flaggedOnly, setFlaggedOnly] = useState<boolean>(false);
+
+  const fallaciesByMessage = useMemo(() => {
+    const grouped = new Map<string, DetectedFallacy[]>();
+    fallacies.forEach(fallacy => {
+      grouped.set(fallacy.messageId, [...(grouped.get(fallacy.messageId) ?? []), fallacy]);
+    });
+    return grouped;
+  }, [fallacies]);
+
+  const messages = transcript.filter(m =>
+    m.role !== 'system' && m.text.trim().length > 0 && (!flaggedOnly || fallaciesByMessage.has(m.id))
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <p className="text-white text-lg font-black">
+          {fallacies.length === 0
+            ? 'No fallacies detected'
+            : `${fallacies.length} ${fallacies.length === 1 ? 'fallacy' : 'fallacies'} in ${fallaciesByMessage.size} ${fallaciesByMessage.size === 1 ? 'message' : 'messages'}`}
+        </p>
+        {fallacies.length > 0 && (
+          <button
+            onClick={() => setFlaggedOnly(prev => !prev)}
+            className={`px-4 py-2 rounded-xl font-black text-xs uppercase tracking-tight transition-all ${
+              flaggedOnly
+                ? 'bg-nav-lime text-black shadow-[0_4px_0_rgb(0,0,0)]'
+                : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+            }`}
+          >
+            Flagged Only
+          </button>
+        )}
+      </div>
+
+      <div className="max-h-[32rem] overflow-y-auto flex flex-col gap-3 pr-2">
+        {messages.map(message => {
+          const isUser = message.role === 'user';
+          const messageFallacies = fallaciesByMessage.get(message.id) ?? [];
+          const parts = highlightQuotes(message.text, messageFallacies.map(fallacy => fallacy.quote));
+
+          return (
+            <div key={message.id} className={`max-w-[85%] ${isUser ? 'self-end' : 'self-start'}`}>
+              <div className={`rounded-xl p-4 border-2 ${
+                messageFallacies.length > 0 ? 'bg-[#111] border-red-500/50' : 'bg-[#111] border-white/10'
+              }`}>
+                <div className={`text-[9px] uppercase tracking-widest font-black mb-1 ${isUser ? 'text-sky-400' : 'text-purple-400'}`}>
+                  {isUser ? 'You' : 'AI Opponent'}
+                </div>
+                <p className="text-gray-200 text-sm leading-relaxed break-words whitespace-pre-wrap">
+                  {parts.map((part, index) =>
+                    part.isHighlighted ? (
+                      <mark key={index} className="bg-red-500/30 text-white rounded px-0.5 underline decoration-red-400 decoration-2">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </p>
+              </div>
+
+              {messageFallacies.map((fallacy, index) => {
+                const definition = getFallacy(fallacy.type);
+                return (
+                  <div key={index} className="mt-2 ml-4 bg-[#151515] border-l-4 border-red-500 rounded-r-xl p-4">
+                    <span className={`inline-block px-2 py-0.5 rounded-md border-2 border-black text-[10px] font-black uppercase tracking-wider text-black mb-2 ${definition?.badgeClass ?? 'bg-gray-300'}`}>
+                      {definition?.label ?? fallacy.type}
+                    </span>
+                    <p className="text-gray-300 text-sm leading-relaxed">{fallacy.explanation}</p>
+                    {fallacy.betterAlternative && (
+                      <p className="text-nav-lime text-sm leading-relaxed mt-2">
+                        <span className="font-black uppercase text-xs tracking-wider">Try instead: </span>
+                        {fallacy.betterAlternative}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
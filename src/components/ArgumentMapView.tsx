@@ -0,0 +1,236 @@
+/**
+ * ArgumentMapView component - Interactive map of the claims each side made
+ * and how (or whether) the other side answered them
+ *
+ * Each row starts with a claim (or an unlinked move) in its speaker's lane,
+ * with supporting evidence underneath and the other side's answers in the
+ * opposite lane. Selecting a move shows the message it was made in.
+ */
+
+import { useMemo, useState } from 'react';
+import { ArrowLeftRight, CircleAlert, Quote } from 'lucide-react';
+import { ArgumentMap, ArgumentUnit, ArgumentUnitType, ChatMessage } from '../types';
+import { getEvidence, getResponses, getUnansweredClaims } from '../utils/argumentMapUtils';
+
+interface ArgumentMapViewProps {
+  map: ArgumentMap;
+  transcript: ChatMessage[];
+}
+
+type MapFilter = 'all' | 'unanswered' | 'user' | 'model';
+
+const FILTERS: { value: MapFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'unanswered', label: 'Unanswered' },
+  { value: 'user', label: 'Your Claims' },
+  { value: 'model', label: 'Opponent Claims' },
+];
+
+const TYPE_STYLES: Record<ArgumentUnitType, { label: string; badge: string }> = {
+  claim: { label: 'Claim', badge: 'bg-nav-lime text-black' },
+  evidence: { label: 'Evidence', badge: 'bg-sky-500 text-white' },
+  rebuttal: { label: 'Rebuttal', badge: 'bg-nav-orange text-black' },
+  concession: { label: 'Concession', badge: 'bg-purple-400 text-black' },
+};
+
+interface UnitCardProps {
+  unit: ArgumentUnit;
+  isSelected: boolean;
+  isUnanswered?: boolean;
+  onSelect: (unit: ArgumentUnit) => void;
+}
+
+function UnitCard({ unit, isSelected, isUnanswered = false, onSelect }: UnitCardProps) {
+  const style = TYPE_STYLES[unit.type];
+  return (
+    <button
+      onClick={() => onSelect(unit)}
+      className={`w-full text-left rounded-xl p-3 border-2 transition-colors ${
+        isSelected
+          ? 'bg-white/10 border-white'
+          : isUnanswered
+            ? 'bg-[#111] border-red-500/50 hover:border-red-400'
+            : 'bg-[#111] border-white/10 hover:border-white/30'
+      }`}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-wider ${style.badge}`}>
+          {style.label}
+        </span>
+        {isUnanswered && (
+          <span className="flex items-center gap-1 text-[10px] font-black uppercase tracking-wider text-red-400">
+            <CircleAlert size={10} /> Unanswered
+          </span>
+        )}
+      </div>
+      <p className="text-gray-200 text-sm leading-snug">{unit.summary}</p>
+    </button>
+  );
+}
+
+export default function ArgumentMapView({ map, transcript }: ArgumentMapViewProps) {
+  const [filter, setFilter] = useState<MapFilter>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const unanswered = useMemo(() => new Set(getUnansweredClaims(map).map(unit => unit.id)), [map]);
+  const claimCounts = useMemo(() => {
+    const claims = map.units.filter(unit => unit.type === 'claim');
+    return {
+      user: claims.filter(unit => unit.speaker === 'user').length,
+      model: claims.filter(unit => unit.speaker === 'model').length,
+      userUnanswered: getUnansweredClaims(map, 'user').length,
+      modelUnanswered: getUnansweredClaims(map, 'model').length,
+    };
+  }, [map]);
+
+  // Rows are the moves that don't answer or support anything else
+  const rows = useMemo(() => map.units.filter(unit => {
+    if (unit.targetId) return false;
+    if (filter === 'unanswered') return unanswered.has(unit.id);
+    if (filter === 'user' || filter === 'model') return unit.type === 'claim' && unit.speaker === filter;
+    return true;
+  }), [map, filter, unanswered]);
+
+  const selectedUnit = map.units.find(unit => unit.id === selectedId);
+  const selectedMessage = selectedUnit ? transcript.find(m => m.id === selectedUnit.messageId) : undefined;
+
+  const handleSelect = (unit: ArgumentUnit) => {
+    setSelectedId(prev => (prev === unit.id ? null : unit.id));
+  };
+
+  // Whatever links to a unit further down the exchange stays nested under it
+  // (links only point backwards, so this always terminates)
+  const renderNested = (unit: ArgumentUnit, includeResponses = true) => [
+    ...getEvidence(map, unit.id),
+    ...(includeResponses ? getResponses(map, unit.id) : []),
+  ].map(child => (
+    <div key={child.id} className={`pl-4 border-l-2 space-y-2 ${child.type === 'evidence' ? 'border-sky-500/40' : 'border-white/10'}`}>
+      {child.type !== 'evidence' && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+          {child.speaker === 'user' ? 'You' : 'Opponent'} replied
+        </p>
+      )}
+      <UnitCard unit={child} isSelected={selectedId === child.id} onSelect={handleSelect} />
+      {renderNested(child)}
+    </div>
+  ));
+
+  const renderResponses = (unit: ArgumentUnit) => {
+    const responses = getResponses(map, unit.id);
+    if (responses.length === 0) return null;
+    return (
+      <div className="space-y-2">
+        {responses.map(response => (
+          <div key={response.id} className="space-y-2">
+            <UnitCard unit={response} isSelected={selectedId === response.id} onSelect={handleSelect} />
+            {renderNested(response)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderLane = (unit: ArgumentUnit) => (
+    <div className="space-y-2">
+      <UnitCard
+        unit={unit}
+        isSelected={selectedId === unit.id}
+        isUnanswered={unanswered.has(unit.id)}
+        onSelect={handleSelect}
+      />
+      {/* The row's own answers live in the opposite lane */}
+      {renderNested(unit, false)}
+    </div>
+  );
+
+  const renderAnswerLane = (unit: ArgumentUnit) =>
+    renderResponses(unit) ?? (
+      unanswered.has(unit.id) ? (
+        <div className="h-full min-h-16 rounded-xl border-2 border-dashed border-red-500/40 flex items-center justify-center p-3">
+          <p className="text-red-400 text-xs font-black uppercase tracking-wider text-center">No answer</p>
+        </div>
+      ) : null
+    );
+
+  if (map.units.length === 0) {
+    return <p className="text-gray-400 text-sm">No clear claims or rebuttals were found in this debate.</p>;
+  }
+
+  return (
+    <div>
+      {/* Claim tallies */}
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className="bg-[#111] border border-white/10 rounded-2xl p-4">
+          <p className="text-[10px] font-black uppercase tracking-widest text-nav-lime mb-1">You</p>
+          <p className="text-white text-lg font-black">
+            {claimCounts.user} claims · <span className="text-red-400">{claimCounts.userUnanswered} unanswered</span>
+          </p>
+        </div>
+        <div className="bg-[#111] border border-white/10 rounded-2xl p-4">
+          <p className="text-[10px] font-black uppercase tracking-widest text-nav-orange mb-1">Opponent</p>
+          <p className="text-white text-lg font-black">
+            {claimCounts.model} claims · <span className="text-red-400">{claimCounts.modelUnanswered} you left unanswered</span>
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {FILTERS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            className={`px-4 py-2 rounded-xl font-black text-xs uppercase tracking-tight transition-all ${
+              filter === option.value
+                ? 'bg-nav-lime text-black shadow-[0_4px_0_rgb(0,0,0)]'
+                : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Lanes */}
+      <div className="hidden md:grid grid-cols-[1fr_auto_1fr] gap-4 mb-3 px-1">
+        <p className="text-xs font-black uppercase tracking-widest text-nav-lime">You</p>
+        <span className="w-5" />
+        <p className="text-xs font-black uppercase tracking-widest text-nav-orange">Opponent</p>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-gray-400 text-sm">Nothing matches this filter.</p>
+      ) : (
+        <div className="space-y-4">
+          {rows.map(unit => {
+            const ownLane = renderLane(unit);
+            const answerLane = renderAnswerLane(unit);
+            const isUser = unit.speaker === 'user';
+            return (
+              <div key={unit.id} className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-start">
+                <div>{isUser ? ownLane : answerLane}</div>
+                <div className="hidden md:flex items-center justify-center pt-4 text-gray-600">
+                  {answerLane && <ArrowLeftRight size={20} />}
+                </div>
+                {/* On mobile the claim always comes before its answers */}
+                <div className={isUser ? '' : 'order-first md:order-none'}>{isUser ? answerLane : ownLane}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Source message of the selected move */}
+      {selectedUnit && (
+        <div className="mt-6 bg-[#111] border-2 border-white/20 rounded-2xl p-5">
+          <p className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-500 mb-2">
+            <Quote size={12} /> {selectedUnit.speaker === 'user' ? 'You said' : 'Opponent said'}
+          </p>
+          <p className="text-gray-200 text-sm leading-relaxed">
+            {selectedMessage?.text ?? 'The original message is not available.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * BulkReanalysisCard component - Re-analyze every session in a date range with
+ * the analysis model and rubric currently selected in Settings
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { SessionHistoryItem } from '../types';
+import { reanalyzeSession } from '../services/analysisQueue';
+import { DEFAULT_ANALYSIS_MODEL } from '../services/analysisService';
+import { getAnalysisRubric } from '../services/analysisRubrics';
+import { getAnalysisModel, getAnalysisRubricId, getCustomRubrics } from '../services/storageService';
+
+interface BulkReanalysisCardProps {
+  sessions: SessionHistoryItem[];
+  onSessionUpdated: (session: SessionHistoryItem) => void;
+}
+
+/** Default range starts this many days back */
+const DEFAULT_RANGE_DAYS = 30;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export default function BulkReanalysisCard({ sessions, onSessionUpdated }: BulkReanalysisCardProps) {
+  const [fromDate, setFromDate] = useState<string>(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - DEFAULT_RANGE_DAYS);
+    return toDateInput(start);
+  });
+  const [toDate, setToDate] = useState<string>(() => toDateInput(new Date()));
+  const [progress, setProgress] = useState<{ done: number; total: number; failed: number } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelRef = useRef(false);
+
+  const model = getAnalysisModel() || DEFAULT_ANALYSIS_MODEL;
+  const rubric = getAnalysisRubric(getAnalysisRubricId(), getCustomRubrics());
+
+  // Pending sessions go through the retry queue instead; sessions without a transcript can't be re-run
+  const eligible = useMemo(() => {
+    const from = new Date(`${fromDate}T00:00:00`);
+    const to = new Date(`${toDate}T23:59:59`);
+    return sessions.filter((session) => {
+      const date = new Date(session.date);
+      return session.analysisStatus !== 'pending' && Boolean(session.transcript?.length) && date >= from && date <= to;
+    });
+  }, [sessions, fromDate, toDate]);
+
+  const handleRun = async () => {
+    cancelRef.current = false;
+    setIsRunning(true);
+    let failed = 0;
+    setProgress({ done: 0, total: eligible.length, failed });
+
+    // One at a time to stay well inside rate limits
+    for (let index = 0; index < eligible.length; index++) {
+      if (cancelRef.current) break;
+      const updated = await reanalyzeSession(eligible[index]!.id);
+      if (updated) {
+        onSessionUpdated(updated);
+      } else {
+        failed++;
+      }
+      setProgress({ done: index + 1, total: eligible.length, failed });
+    }
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="group relative bg-[#111] border border-white/10 rounded-[2.5rem] p-1 overflow-hidden hover:border-white/20 transition-colors">
+      <div className="bg-[#151515] rounded-[2.3rem] p-6 md:p-8 h-full relative z-10">
+        <h3 className="text-white text-xl font-black mb-2 uppercase tracking-tight">Re-analyze Sessions</h3>
+        <p className="text-gray-400 text-sm mb-6">
+          Re-score past debates with <span className="text-white font-bold">{model}</span> and the{' '}
+          <span className="text-white font-bold">{rubric.name} v{rubric.version}</span> rubric. Earlier scores are kept,
+          and you can switch the charts back to them.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <label className="flex flex-col gap-2">
+            <span className="text-gray-500 text-[10px] font-black uppercase tracking-widest">From</span>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              disabled={isRunning}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="bg-[#111] border border-white/10 rounded-xl px-4 py-2 text-white text-sm focus:outline-none focus:border-sky-500"
+            />
+          </label>
+          <label className="flex flex-col gap-2">
+            <span className="text-gray-500 text-[10px] font-black uppercase tracking-widest">To</span>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              disabled={isRunning}
+              onChange={(e) => setToDate(e.target.value)}
+              className="bg-[#111] border border-white/10 rounded-xl px-4 py-2 text-white text-sm focus:outline-none focus:border-sky-500"
+            />
+          </label>
+
+          {isRunning ? (
+            <button
+              onClick={() => { cancelRef.current = true; }}
+              className="px-6 py-3 rounded-xl bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white text-xs font-black uppercase tracking-wide transition-all"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={() => void handleRun()}
+              disabled={eligible.length === 0}
+              className="flex items-center gap-2 px-6 py-3 rounded-xl bg-nav-lime text-black text-xs font-black uppercase tracking-wide shadow-[0_4px_0_rgb(0,0,0)] active:shadow-none active:translate-y-1 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Re-analyze {eligible.length} {eligible.length === 1 ? 'session' : 'sessions'}
+            </button>
+          )}
+        </div>
+
+        {progress && (
+          <div>
+            <div className="h-3 bg-black/50 rounded-full border border-white/10 overflow-hidden mb-2">
+              <div
+                className="h-full bg-nav-lime rounded-full transition-all"
+                style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-gray-500 text-xs font-bold">
+              {progress.done} of {progress.total} done
+              {progress.failed > 0 && <span className="text-red-400"> · {progress.failed} failed</span>}
+              {!isRunning && progress.done < progress.total && ' · stopped'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
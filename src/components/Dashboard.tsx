@@ -4,21 +4,86 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Flame, Trophy, Clock, Zap, Swords, Brain, TrendingUp, Target, ArrowRight } from 'lucide-react';
-import { DebateStyle, UserStats, SessionHistoryItem } from '../types';
-import { getStats, getHistory } from '../services/storageService';
+import {
+  Flame,
+  Trophy,
+  Clock,
+  Zap,
+  Swords,
+  Brain,
+  TrendingUp,
+  Target,
+  ArrowRight,
+  HelpCircle,
+  Drama,
+  GraduationCap,
+  Mic,
+  Sprout,
+  UserCog,
+  type LucideIcon,
+} from 'lucide-react';
+import {
+  DebateStyle,
+  DebateConfig,
+  DebateSide,
+  DebateInputMode,
+  DifficultyLevel,
+  UserStats,
+  SessionHistoryItem,
+  OpponentPersona,
+} from '../types';
+import { getStats, getHistory, getOpponentPersonas } from '../services/storageService';
+import {
+  DEBATE_FORMATS,
+  FREE_FORM_FORMAT_ID,
+  getDebateFormat,
+  getFormatDurationSeconds,
+  isStructuredFormat,
+} from '../services/debateFormats';
+import { DEBATE_STYLE_LIST, getDebateStyle } from '../services/debateStyles';
+import { PREP_DURATIONS } from '../services/prepService';
+import {
+  DIFFICULTY_LEVELS,
+  getDifficultyLevel,
+  getDifficultyMultiplier,
+  resolveDifficulty,
+} from '../services/difficultyService';
+import { getScoredSessions } from '../utils/statisticsUtils';
+
+const STYLE_ICONS: Record<DebateStyle, LucideIcon> = {
+  [DebateStyle.COACH]: Brain,
+  [DebateStyle.AGGRESSIVE]: Flame,
+  [DebateStyle.SOCRATIC]: HelpCircle,
+  [DebateStyle.DEVILS_ADVOCATE]: Drama,
+  [DebateStyle.ACADEMIC_JUDGE]: GraduationCap,
+  [DebateStyle.SKEPTICAL_INTERVIEWER]: Mic,
+  [DebateStyle.BEGINNER_FRIENDLY]: Sprout,
+};
 
 interface DashboardProps {
-  onStartDebate: (topic: string, style: DebateStyle, duration: number) => void;
+  onStartDebate: (config: DebateConfig) => void;
   onNavigateToPersona?: () => void;
+  dataVersion?: number; // Changes when stored sessions change; history and stats are re-read
 }
 
-export default function Dashboard({ onStartDebate, onNavigateToPersona }: DashboardProps) {
+export default function Dashboard({ onStartDebate, onNavigateToPersona, dataVersion }: DashboardProps) {
   const [stats, setStats] = useState<UserStats | null>(null);
   const [history, setHistory] = useState<SessionHistoryItem[]>([]);
   const [topic, setTopic] = useState<string>('');
   const [selectedStyle, setSelectedStyle] = useState<DebateStyle>(DebateStyle.COACH);
+  const [opponentPersonas, setOpponentPersonas] = useState<OpponentPersona[]>([]);
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string | null>(null);
+  const selectedPersona = opponentPersonas.find(p => p.id === selectedPersonaId);
   const [duration, setDuration] = useState<number>(5);
+  const [formatId, setFormatId] = useState<string>(FREE_FORM_FORMAT_ID);
+  const [sideChoice, setSideChoice] = useState<DebateSide | 'random'>('proposition');
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>(DifficultyLevel.MEDIUM);
+  const [inputMode, setInputMode] = useState<DebateInputMode>('voice');
+  const [speakReplies, setSpeakReplies] = useState<boolean>(false);
+  const [prepSeconds, setPrepSeconds] = useState<number>(0);
+  const scoredHistory = getScoredSessions(history);
+  const difficultyTuning = resolveDifficulty(difficulty, scoredHistory);
+  const selectedFormat = getDebateFormat(formatId);
   const [quote, setQuote] = useState({ text: '', author: '' });
 
   // Local quotes as fallback
@@ -64,7 +129,10 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
   useEffect(() => {
     setStats(getStats());
     setHistory(getHistory());
-    
+    setOpponentPersonas(getOpponentPersonas());
+  }, [dataVersion]);
+
+  useEffect(() => {
     // Fetch initial quote
     fetchQuote();
     
@@ -75,11 +143,26 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
   }, []);
 
   const handleStartDebate = () => {
-    if (topic.trim()) onStartDebate(topic.trim(), selectedStyle, duration);
+    if (!topic.trim()) return;
+    const side: DebateSide = sideChoice === 'random'
+      ? (Math.random() < 0.5 ? 'proposition' : 'opposition')
+      : sideChoice;
+    onStartDebate({
+      topic: topic.trim(),
+      style: selectedStyle,
+      durationMinutes: duration,
+      formatId,
+      side,
+      opponentPersona: selectedPersona,
+      difficulty: difficultyTuning,
+      inputMode,
+      speakReplies: inputMode === 'text' && speakReplies,
+      prepSeconds,
+    });
   };
 
-  const avgScore = history.length > 0
-    ? Math.round(history.reduce((sum, s) => sum + s.score, 0) / history.length)
+  const avgScore = scoredHistory.length > 0
+    ? Math.round(scoredHistory.reduce((sum, s) => sum + s.score, 0) / scoredHistory.length)
     : 0;
 
   const containerVariants = {
@@ -204,45 +287,211 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
                 className="w-full bg-black/30 rounded-2xl px-5 py-3 text-white placeholder-gray-500 focus:outline-none focus:bg-black/50 transition-all mb-4 font-medium border border-white/5"
               />
 
-              {/* Mode Selection - Neubrutalist Style */}
-              <div className="grid grid-cols-2 gap-3 mb-4">
-                <button
-                  onClick={() => setSelectedStyle(DebateStyle.COACH)}
-                  className={`py-3 px-4 rounded-xl font-black text-xs uppercase tracking-tight transition-all ${
-                    selectedStyle === DebateStyle.COACH
-                      ? 'bg-green-500 text-white shadow-[0_4px_0_rgb(21,128,61)] active:shadow-none active:translate-y-1'
-                      : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
-                  }`}
-                >
-                  <Brain className="w-4 h-4 inline mr-2" strokeWidth={2.5} />
-                  COACH
-                </button>
-                <button
-                  onClick={() => setSelectedStyle(DebateStyle.AGGRESSIVE)}
-                  className={`py-3 px-4 rounded-xl font-black text-xs uppercase tracking-tight transition-all ${
-                    selectedStyle === DebateStyle.AGGRESSIVE
-                      ? 'bg-nav-orange text-white shadow-[0_4px_0_rgb(192,53,21)] active:shadow-none active:translate-y-1'
-                      : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
-                  }`}
-                >
-                  <Flame className="w-4 h-4 inline mr-2" strokeWidth={2.5} />
-                  FIERCE
-                </button>
+              {/* Opponent Style Selection - Neubrutalist Style */}
+              <div className="mb-4">
+                <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Opponent</span>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {DEBATE_STYLE_LIST.map((definition) => {
+                    const Icon = STYLE_ICONS[definition.id];
+                    const isSelected = !selectedPersona && selectedStyle === definition.id;
+                    return (
+                      <button
+                        key={definition.id}
+                        onClick={() => {
+                          setSelectedStyle(definition.id);
+                          setSelectedPersonaId(null);
+                        }}
+                        title={definition.tagline}
+                        className={`py-2 px-3 rounded-xl font-black text-[11px] uppercase tracking-tight transition-all flex items-center justify-center gap-1.5 ${
+                          isSelected
+                            ? `${definition.badgeClass} text-black shadow-[0_4px_0_rgb(0,0,0)] active:shadow-none active:translate-y-1`
+                            : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                        }`}
+                      >
+                        <Icon className="w-3.5 h-3.5 shrink-0" strokeWidth={2.5} />
+                        <span className="truncate">{definition.label}</span>
+                      </button>
+                    );
+                  })}
+                  {opponentPersonas.map((persona) => {
+                    const isSelected = selectedPersona?.id === persona.id;
+                    return (
+                      <button
+                        key={persona.id}
+                        onClick={() => setSelectedPersonaId(persona.id)}
+                        title={persona.tone}
+                        className={`py-2 px-3 rounded-xl font-black text-[11px] uppercase tracking-tight transition-all flex items-center justify-center gap-1.5 ${
+                          isSelected
+                            ? 'bg-nav-lime text-black shadow-[0_4px_0_rgb(0,0,0)] active:shadow-none active:translate-y-1'
+                            : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white border border-dashed border-white/10'
+                        }`}
+                      >
+                        <UserCog className="w-3.5 h-3.5 shrink-0" strokeWidth={2.5} />
+                        <span className="truncate">{persona.name}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-gray-500 mt-2 font-medium">
+                  {selectedPersona ? `Custom opponent · ${selectedPersona.tone}` : getDebateStyle(selectedStyle).tagline}
+                </p>
+              </div>
+
+              {/* Side Selection */}
+              <div className="mb-4">
+                <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Your Side</span>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    { value: 'proposition', label: 'For' },
+                    { value: 'opposition', label: 'Against' },
+                    { value: 'random', label: 'Random' },
+                  ] as const).map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSideChoice(option.value)}
+                      className={`py-2 px-3 rounded-xl font-black text-[11px] uppercase tracking-tight transition-all ${
+                        sideChoice === option.value
+                          ? 'bg-sky-500 text-white shadow-[0_4px_0_rgb(3,105,161)] active:shadow-none active:translate-y-1'
+                          : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Difficulty Selection */}
+              <div className="mb-4">
+                <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Difficulty</span>
+                <div className="grid grid-cols-4 gap-2">
+                  {DIFFICULTY_LEVELS.map((level) => (
+                    <button
+                      key={level.id}
+                      onClick={() => setDifficulty(level.id)}
+                      title={level.description}
+                      className={`py-2 px-3 rounded-xl font-black text-[11px] uppercase tracking-tight transition-all ${
+                        difficulty === level.id
+                          ? 'bg-nav-orange text-black shadow-[0_4px_0_rgb(0,0,0)] active:shadow-none active:translate-y-1'
+                          : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {level.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2 font-medium">
+                  {difficulty === DifficultyLevel.ADAPTIVE
+                    ? `Intensity ${difficultyTuning.intensity}/100. ${difficultyTuning.rationale ?? ''}`
+                    : getDifficultyLevel(difficulty).description}
+                  {' '}
+                  <span className="text-nav-orange">{getDifficultyMultiplier(difficultyTuning.intensity)}x points</span>
+                </p>
+              </div>
+
+              {/* Input Mode Selection */}
+              <div className="mb-4">
+                <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Mode</span>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { value: 'voice', label: 'Voice' },
+                    { value: 'text', label: 'Text' },
+                  ] as const).map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setInputMode(option.value)}
+                      className={`py-2 px-3 rounded-xl font-black text-[11px] uppercase tracking-tight transition-all ${
+                        inputMode === option.value
+                          ? 'bg-sky-500 text-white shadow-[0_4px_0_rgb(3,105,161)] active:shadow-none active:translate-y-1'
+                          : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {inputMode === 'text' && (
+                  <label className="flex items-center gap-2 mt-2 text-xs text-gray-400 font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={speakReplies}
+                      onChange={(e) => setSpeakReplies(e.target.checked)}
+                      className="accent-sky-500"
+                    />
+                    Opponent replies out loud too
+                  </label>
+                )}
+              </div>
+
+              {/* Format Selection */}
+              <div className="mb-4">
+                <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Format</span>
+                <div className="grid grid-cols-2 gap-2">
+                  {DEBATE_FORMATS.map((format) => (
+                    <button
+                      key={format.id}
+                      onClick={() => setFormatId(format.id)}
+                      title={format.description}
+                      className={`py-2 px-3 rounded-xl font-black text-[11px] uppercase tracking-tight transition-all ${
+                        formatId === format.id
+                          ? 'bg-sky-500 text-white shadow-[0_4px_0_rgb(3,105,161)] active:shadow-none active:translate-y-1'
+                          : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {format.name}
+                    </button>
+                  ))}
+                </div>
+                {isStructuredFormat(selectedFormat) && (
+                  <p className="text-xs text-gray-500 mt-2 font-medium">
+                    {selectedFormat.description} {selectedFormat.phases.length} phases.
+                  </p>
+                )}
+              </div>
+
+              {/* Prep Time - research brief and notes before going live */}
+              <div className="mb-4">
+                <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Prep Time</span>
+                <div className="grid grid-cols-5 gap-2">
+                  {PREP_DURATIONS.map((seconds) => (
+                    <button
+                      key={seconds}
+                      onClick={() => setPrepSeconds(seconds)}
+                      className={`py-2 px-3 rounded-xl font-black text-[11px] uppercase tracking-tight transition-all ${
+                        prepSeconds === seconds
+                          ? 'bg-sky-500 text-white shadow-[0_4px_0_rgb(3,105,161)] active:shadow-none active:translate-y-1'
+                          : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {seconds === 0 ? 'None' : `${seconds / 60} min`}
+                    </button>
+                  ))}
+                </div>
+                {prepSeconds > 0 && (
+                  <p className="text-xs text-gray-500 mt-2 font-medium">
+                    Get a research brief and take notes before the debate starts.
+                  </p>
+                )}
               </div>
 
-              {/* Duration Slider */}
+              {/* Duration Slider - structured formats use their phase timings */}
               <div className="mb-4">
                 <div className="flex justify-between mb-2">
                   <span className="text-gray-400 text-xs font-black uppercase tracking-wider">Duration</span>
-                  <span className="text-sky-500 font-black text-lg">{duration} min</span>
+                  <span className="text-sky-500 font-black text-lg">
+                    {isStructuredFormat(selectedFormat)
+                      ? `${Math.ceil(getFormatDurationSeconds(selectedFormat, duration) / 60)} min`
+                      : `${duration} min`}
+                  </span>
                 </div>
                 <input
                   type="range"
                   min="1"
                   max="30"
                   value={duration}
+                  disabled={isStructuredFormat(selectedFormat)}
                   onChange={(e) => setDuration(Number(e.target.value))}
-                  className="w-full h-2 bg-black/50 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-sky-500"
+                  className="w-full h-2 bg-black/50 rounded-full appearance-none cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-sky-500"
                 />
               </div>
 
@@ -389,7 +638,11 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
                     >
                       <div className="flex justify-between items-start mb-3">
                         <span className="text-white font-bold text-sm line-clamp-1">{session.topic}</span>
-                        <span className="text-nav-lime font-black text-2xl">{session.score}</span>
+                        {session.analysisStatus === 'pending' ? (
+                          <span className="text-amber-400 font-black text-xs uppercase tracking-wider">Pending</span>
+                        ) : (
+                          <span className="text-nav-lime font-black text-2xl">{session.score}</span>
+                        )}
                       </div>
                       <div className="flex gap-2 text-xs text-gray-500 font-bold uppercase tracking-wider">
                         <span>{new Date(session.date).toLocaleDateString()}</span>
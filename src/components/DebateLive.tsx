@@ -4,6 +4,7 @@
  * The active debate interface where real-time voice interaction occurs.
  * Manages connection to Gemini Live API, displays transcriptions,
  * shows audio visualization, and handles session timing.
+ * In text mode the user types instead and the exchange is shown as a chat.
  * 
  * Requirements: 3.1, 3.2, 4.1, 5.1, 7.1
  */
@@ -11,7 +12,30 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GeminiLiveService } from '../services/geminiLiveService';
-import { type ChatMessage, type DebateAnalysis, DebateStyle } from '../types';
+import { createLiveTransport } from '../services/liveTransport';
+import { SessionRecorder } from '../services/sessionRecorder';
+import { getDebateFormat, getFormatDurationSeconds, getPhaseAt } from '../services/debateFormats';
+import { getDebateStyle } from '../services/debateStyles';
+import { getApiKey, getLiveCoaching, getLiveEndpoint, getLiveModel, getRecordSessions, getVoiceSettings } from '../services/storageService';
+import {
+  type ChatMessage,
+  type DebateAnalysis,
+  type DebateConfig,
+  type DebateSessionResult,
+} from '../types';
+import { OUTPUT_SAMPLE_RATE } from '../utils/audioUtils';
+import { computeDeliveryMetrics } from '../utils/deliveryMetrics';
+import {
+  type LiveCoachingSnapshot,
+  EMPTY_COACHING_SNAPSHOT,
+  computeLiveCoaching,
+  getCoachingNudge,
+} from '../utils/liveCoaching';
+import LiveCoachingOverlay from './LiveCoachingOverlay';
+import SessionSummary from './SessionSummary';
+
+// How often the live coaching indicators refresh
+const COACHING_REFRESH_MS = 1000;
 
 // Global singleton to prevent multiple connections across all instances
 let globalConnectionLock = false;
@@ -21,10 +45,9 @@ let globalService: GeminiLiveService | null = null;
  * Props for DebateLive component
  */
 interface DebateLiveProps {
-  topic: string;
-  style: DebateStyle;
-  durationMinutes: number;
-  onAnalysisComplete: (analysis: DebateAnalysis) => void;
+  config: DebateConfig;
+  onAnalysisComplete: (analysis: DebateAnalysis, result: DebateSessionResult) => void;
+  onAnalysisPending: (result: DebateSessionResult) => void; // Analysis failed: save the session for a later retry
   onBack: () => void;
 }
 
@@ -35,25 +58,42 @@ interface DebateLiveProps {
  * transcription display, and session management.
  */
 export default function DebateLive({
-  topic,
-  style,
-  durationMinutes,
+  config,
   onAnalysisComplete, // Will be used in task 21
+  onAnalysisPending,
   onBack,
 }: DebateLiveProps) {
+  const { topic, durationMinutes } = config;
+  const isTextMode = config.inputMode === 'text';
+  const styleDefinition = getDebateStyle(config.style);
+  const format = getDebateFormat(config.formatId);
+  const totalSeconds = getFormatDurationSeconds(format, durationMinutes);
+
   // Component state (Requirement 3.1, 3.2, 4.1, 5.1, 7.1)
   const [isConnected, setIsConnected] = useState<boolean>(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [elapsedSeconds, setElapsedSeconds] = useState<number>(0);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+  const [streamingAnalysis, setStreamingAnalysis] = useState<Partial<DebateAnalysis>>({});
   const [audioLevel, setAudioLevel] = useState<number>(0);
+  const [reconnectAttempt, setReconnectAttempt] = useState<number>(0);
+  const isReconnecting = reconnectAttempt > 0;
+  const [voiceSettings] = useState(() => getVoiceSettings());
+  const [isUserSpeaking, setIsUserSpeaking] = useState<boolean>(false);
+  const [draftText, setDraftText] = useState<string>('');
+  const [showCoaching, setShowCoaching] = useState<boolean>(() => getLiveCoaching() && !isTextMode);
+  const [coaching, setCoaching] = useState<LiveCoachingSnapshot>(EMPTY_COACHING_SNAPSHOT);
 
   // Refs for service and messages array
   const serviceRef = useRef<GeminiLiveService | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
   const messagesRef = useRef<ChatMessage[]>([]);
   const timerIntervalRef = useRef<number | null>(null);
   const hasConnectedRef = useRef<boolean>(false);
+  const phaseIdRef = useRef<string | undefined>(format.phases[0]?.id);
+  const chatEndRef = useRef<HTMLDivElement | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
   // Keep messages ref in sync with state for closure access
   useEffect(() => {
@@ -70,6 +110,29 @@ export default function DebateLive({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  /**
+   * Send a typed turn (text mode) and add it to the transcript
+   */
+  const handleSendText = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draftText.trim();
+    if (!text || !serviceRef.current?.sendText(text)) return;
+
+    setMessages((prevMessages) => [
+      // Close any open model message so the reply starts a new bubble
+      ...prevMessages.map((msg) => (msg.isFinal ? msg : { ...msg, isFinal: true })),
+      {
+        id: `${Date.now()}-${Math.random()}`,
+        role: 'user',
+        text,
+        timestamp: Date.now(),
+        isFinal: true,
+        phaseId: phaseIdRef.current,
+      },
+    ]);
+    setDraftText('');
+  };
+
   /**
    * Handle session stop - disconnect and trigger analysis
    * Requirements 7.4, 8.1, 8.2, 8.3, 8.4, 8.5
@@ -91,6 +154,13 @@ export default function DebateLive({
     if (currentService) {
       await currentService.disconnect();
     }
+
+    // Mix down the local recording (opt-in) now that both sides have stopped
+    const recording = recorderRef.current?.finish() ?? null;
+    const deliveryMetrics = currentService && !isTextMode
+      ? computeDeliveryMetrics(currentMessages, currentService.getSpeechSegments())
+      : null;
+    recorderRef.current = null;
     
     // Clear global locks
     globalConnectionLock = false;
@@ -98,15 +168,26 @@ export default function DebateLive({
 
     // Trigger analysis generation AFTER disconnection (Requirement 8.5)
     if (currentService && currentMessages.length > 0) {
+      const abortController = new AbortController();
+      analysisAbortRef.current = abortController;
       try {
         setIsAnalyzing(true);
-        const analysis = await currentService.analyzeDebate(currentMessages, topic);
+        // Argument mining is independent of the scores, so run both requests together
+        const [analysis, argumentMap] = await Promise.all([
+          currentService.analyzeDebate(currentMessages, config, {
+            onProgress: setStreamingAnalysis,
+            signal: abortController.signal,
+          }),
+          currentService.mineArguments(currentMessages, config, abortController.signal),
+        ]);
         
         // Check if analysis is null (no participation detected) - AC2, AC5
         if (analysis === null) {
           setIsAnalyzing(false);
           // Don't save to history (AC5) - just show error and return
-          setErrorMsg('No participation detected. We didn\'t hear you speak during this session. Please check your microphone and try again.');
+          setErrorMsg(isTextMode
+            ? 'No participation detected. Type a few full arguments before ending the debate.'
+            : 'No participation detected. We didn\'t hear you speak during this session. Please check your microphone and try again.');
           
           // Auto-return to dashboard after 5 seconds
           setTimeout(() => {
@@ -115,14 +196,25 @@ export default function DebateLive({
           return;
         }
         
-        onAnalysisComplete(analysis);
+        onAnalysisComplete(
+          argumentMap ? { ...analysis, argumentMap } : analysis,
+          { transcript: currentMessages, recording, deliveryMetrics }
+        );
       } catch (error) {
+        // Cancelled by the user - keep the session for analysis later, without an error
+        if (abortController.signal.aborted) {
+          onAnalysisPending({ transcript: currentMessages, recording, deliveryMetrics });
+          onBack();
+          return;
+        }
+        // Retries are exhausted - keep the session and queue it rather than lose the debate
         console.error('Failed to generate analysis:', error);
+        onAnalysisPending({ transcript: currentMessages, recording, deliveryMetrics });
         setIsAnalyzing(false);
-        setErrorMsg('Failed to generate analysis. Please try again.');
+        setErrorMsg('We couldn\'t analyze this debate right now. It\'s saved in your history as "Analysis Pending" and will be retried automatically, or you can retry it from Activity.');
         setTimeout(() => {
           onBack();
-        }, 3000);
+        }, 6000);
       }
     } else {
       // No messages to analyze, just go back
@@ -130,6 +222,13 @@ export default function DebateLive({
     }
   };
 
+  /**
+   * Stop waiting for the report; the session is saved and analyzed later
+   */
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
   // Initialize GeminiLiveService and connect on mount (Requirements 3.1, 3.2, 3.3, 11.1, 11.2)
   useEffect(() => {
     // GLOBAL singleton check - absolutely prevent double connections
@@ -148,8 +247,8 @@ export default function DebateLive({
     globalConnectionLock = true;
     hasConnectedRef.current = true;
 
-    // Get API key from localStorage (Settings) first, then fallback to env
-    const storedApiKey = localStorage.getItem('debate_master_api_key') || '';
+    // Get API key from Settings first, then fallback to env
+    const storedApiKey = getApiKey();
     const envApiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
     const apiKey = storedApiKey || envApiKey;
 
@@ -158,14 +257,25 @@ export default function DebateLive({
       return;
     }
 
-    // Get live model from localStorage
-    const liveModel = localStorage.getItem('mindmelee_live_model') || 'gemini-2.5-flash-native-audio-preview-12-2025';
+    // Get live model from Settings
+    const liveModel = getLiveModel() || 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+    // Optional proxy / stand-in server endpoint (Settings first, then env)
+    const liveEndpoint = getLiveEndpoint() || import.meta.env.VITE_LIVE_ENDPOINT || '';
+    const analysisEndpoint = import.meta.env.VITE_ANALYSIS_ENDPOINT || '';
+
+    // Both sides are mixed at the model's output rate (mic capture uses the same rate)
+    const recorder = getRecordSessions() && !isTextMode ? new SessionRecorder(OUTPUT_SAMPLE_RATE) : null;
+    recorderRef.current = recorder;
 
     // Initialize GeminiLiveService with callbacks
     const service = new GeminiLiveService(
       apiKey,
       liveModel,
-      // onTranscript callback - update messages state AND transcript display
+      // onTranscript callback - update messages state AND transcript display.
+      // Gemini Live sends each turn's transcription as incremental fragments and
+      // then turnComplete (isFinal, with no text): fragments are appended to the
+      // open message of that role, and turnComplete closes it.
       (text: string, isUser: boolean, isFinal: boolean) => {
         const role = isUser ? 'user' : 'model';
         
@@ -180,22 +290,32 @@ export default function DebateLive({
               idx === currentMessages.length - 1
           );
 
-          if (lastMessageIndex !== -1 && !isFinal) {
+          if (isFinal) {
+            // Turn complete - close the open message instead of adding an empty one
+            if (lastMessageIndex !== -1) {
+              const existingMessage = currentMessages[lastMessageIndex];
+              if (existingMessage) {
+                currentMessages[lastMessageIndex] = { ...existingMessage, isFinal: true, endTimestamp: Date.now() };
+              }
+            }
+          } else if (lastMessageIndex !== -1) {
+            // Transcription arrives as incremental fragments - append them
             const existingMessage = currentMessages[lastMessageIndex];
             if (existingMessage) {
               currentMessages[lastMessageIndex] = {
                 ...existingMessage,
-                text,
-                isFinal,
+                text: `${existingMessage.text}${text}`,
+                endTimestamp: Date.now(),
               };
             }
-          } else {
+          } else if (text.trim()) {
             const newMessage: ChatMessage = {
               id: `${Date.now()}-${Math.random()}`,
               role,
               text,
               timestamp: Date.now(),
               isFinal,
+              phaseId: phaseIdRef.current,
             };
             currentMessages.push(newMessage);
           }
@@ -217,6 +337,28 @@ export default function DebateLive({
       (error: Error) => {
         console.error('Gemini Live Service Error:', error);
         setErrorMsg(error.message);
+      },
+      {
+        transport: createLiveTransport(apiKey, liveEndpoint),
+        apiBaseUrl: analysisEndpoint || undefined,
+        getTranscript: () => messagesRef.current,
+        voiceSettings,
+        recorder: recorder ?? undefined,
+        onSpeechActivity: (event) => {
+          setIsUserSpeaking(event === 'speech-start');
+        },
+        // Dropped socket - pause the timer and show a reconnecting state
+        onReconnectStateChange: (state, attempt) => {
+          if (state === 'reconnecting') {
+            setReconnectAttempt(attempt);
+            return;
+          }
+          setReconnectAttempt(0);
+          if (state === 'failed' && messagesRef.current.some(m => m.role === 'user')) {
+            // Could not resume - analyze what was captured instead of losing the debate
+            void handleStop();
+          }
+        },
       }
     );
 
@@ -226,7 +368,7 @@ export default function DebateLive({
     // Connect to Gemini Live API (Requirement 3.2)
     const initConnection = async () => {
       try {
-        await service.connect(topic, style);
+        await service.connect(config);
 
         // Add system message to indicate session start
         setMessages([{
@@ -238,10 +380,13 @@ export default function DebateLive({
         }]);
       } catch (error) {
         console.error('Failed to connect:', error);
+        const message = error instanceof Error
+          ? error.message
+          : 'Failed to connect to Gemini Live API';
         setErrorMsg(
-          error instanceof Error
-            ? error.message
-            : 'Failed to connect to Gemini Live API'
+          message === 'Microphone access not supported'
+            ? `${message}. Choose Text mode on the Dashboard to debate by typing.`
+            : message
         );
       }
     };
@@ -277,8 +422,8 @@ export default function DebateLive({
    * Requirements 7.1, 7.2, 7.3, 7.4
    */
   useEffect(() => {
-    // Only start timer when connected
-    if (!isConnected) {
+    // Only run timer while connected (paused during reconnection)
+    if (!isConnected || isReconnecting) {
       return;
     }
 
@@ -288,8 +433,7 @@ export default function DebateLive({
         const newElapsed = prev + 1;
 
         // Check if duration reached (Requirement 7.4)
-        const durationSeconds = durationMinutes * 60;
-        if (newElapsed >= durationSeconds) {
+        if (newElapsed >= totalSeconds) {
           // Auto-stop session
           void handleStop();
         }
@@ -305,50 +449,102 @@ export default function DebateLive({
         timerIntervalRef.current = null;
       }
     };
-  }, [isConnected, durationMinutes]); // Re-run if connection state or duration changes
+  }, [isConnected, isReconnecting, totalSeconds]); // Re-run if connection state or duration changes
 
+  // Structured formats: which phase the timer is in
+  const phaseProgress = getPhaseAt(format, elapsedSeconds);
+  const phaseIndex = phaseProgress?.index ?? -1;
 
+  /**
+   * Advance the debate format - tag new messages and announce the phase to the model
+   */
+  useEffect(() => {
+    const phase = format.phases[phaseIndex];
+    if (!phase) return;
+    phaseIdRef.current = phase.id;
+    serviceRef.current?.setPhase(phaseIndex);
+  }, [phaseIndex, format]);
 
-  // Calculate remaining time and check if low
-  const remainingSeconds = Math.max(0, durationMinutes * 60 - elapsedSeconds);
-  const isLowTime = remainingSeconds < 60;
 
-  // Loading screen for analysis generation (Requirements 15.1, 15.2, 15.3, 15.4)
-  if (isAnalyzing) {
-    return (
-      <div className="flex flex-col items-center justify-center h-screen bg-nav-black text-nav-cream">
-        {/* Spinning icon (Requirement 15.2) */}
-        <div className="mb-6">
-          <svg
-            className="w-16 h-16 text-nav-lime animate-spin"
-            fill="none"
-            viewBox="0 0 24 24"
-          >
-            <circle
-              className="opacity-25"
-              cx="12"
-              cy="12"
-              r="10"
-              stroke="currentColor"
-              strokeWidth="4"
-            />
-            <path
-              className="opacity-75"
-              fill="currentColor"
-              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-            />
-          </svg>
-        </div>
 
-        {/* "Generating Report" message (Requirement 15.3) */}
-        <h2 className="text-2xl font-bold text-nav-cream mb-2">
-          Generating Report
-        </h2>
+  // Text mode: keep the newest chat message in view
+  useEffect(() => {
+    if (!isTextMode) return;
+    chatEndRef.current?.scrollIntoView({ block: 'end', behavior: 'smooth' });
+  }, [messages, isTextMode]);
+
+  /**
+   * Push-to-talk - hold the spacebar to stream the microphone
+   */
+  useEffect(() => {
+    if (isTextMode || !voiceSettings.pushToTalk || !isConnected) {
+      return;
+    }
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) {
+        serviceRef.current?.setPushToTalk(true);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      serviceRef.current?.setPushToTalk(false);
+    };
+
+    // Releasing focus while holding the key would otherwise keep the mic open
+    const handleBlur = () => serviceRef.current?.setPushToTalk(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [voiceSettings.pushToTalk, isConnected, isTextMode]);
 
-        {/* Descriptive subtitle (Requirement 15.4) */}
-        <p className="text-nav-cream/70 text-center max-w-md">
-          Analyzing your debate performance and preparing detailed feedback...
-        </p>
+  // Live coaching: refresh the rolling indicators from the transcript and mic segments
+  useEffect(() => {
+    if (!showCoaching || !isConnected) return;
+
+    const interval = window.setInterval(() => {
+      const service = serviceRef.current;
+      if (!service) return;
+      setCoaching(computeLiveCoaching(messagesRef.current, service.getSpeechSegments()));
+    }, COACHING_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [showCoaching, isConnected]);
+
+  // Only supportive opponents nudge; custom personas stay in character
+  const coachingNudge = !config.opponentPersona && styleDefinition.liveNudges
+    ? getCoachingNudge(coaching, elapsedSeconds)
+    : null;
+
+  // Calculate remaining time and check if low (per phase for structured formats)
+  const remainingSeconds = Math.max(0, totalSeconds - elapsedSeconds);
+  const countdownSeconds = phaseProgress ? phaseProgress.remainingSeconds : remainingSeconds;
+  const isLowTime = phaseProgress ? countdownSeconds <= 10 : remainingSeconds < 60;
+
+  // Report screen while the analysis streams in (Requirements 15.1, 15.2, 15.3, 15.4)
+  if (isAnalyzing) {
+    return (
+      <div className="h-screen">
+        <SessionSummary
+          analysis={streamingAnalysis}
+          transcript={messagesRef.current}
+          isStreaming
+          onCancel={handleCancelAnalysis}
+          onBack={onBack}
+        />
       </div>
     );
   }
@@ -401,15 +597,31 @@ export default function DebateLive({
 
         {/* Mode & Status */}
         <div className="flex gap-3">
-          <div className={`rounded-2xl px-6 py-3 shadow-[0_6px_0_rgb(0,0,0)] border-4 border-black ${
-            style === DebateStyle.COACH ? 'bg-sky-400' : 'bg-orange-400'
-          }`}>
+          <div className="bg-white rounded-2xl px-6 py-3 shadow-[0_6px_0_rgb(0,0,0)] border-4 border-black">
+            <div className="text-sm font-black uppercase tracking-tight text-black">
+              {config.side === 'proposition' ? 'You: For' : 'You: Against'}
+            </div>
+          </div>
+
+          <div className={`rounded-2xl px-6 py-3 shadow-[0_6px_0_rgb(0,0,0)] border-4 border-black ${config.opponentPersona ? 'bg-nav-lime' : styleDefinition.badgeClass}`}>
             <div className="text-sm font-black uppercase tracking-tight text-black">
-              {style === DebateStyle.COACH ? 'Coach' : 'Fierce'}
+              {config.opponentPersona?.name ?? styleDefinition.label}
             </div>
           </div>
           
-          {isConnected && (
+          {isReconnecting && (
+            <motion.div
+              animate={{ opacity: [1, 0.5, 1] }}
+              transition={{ duration: 1, repeat: Infinity }}
+              className="bg-nav-yellow rounded-2xl px-6 py-3 shadow-[0_6px_0_rgb(0,0,0)] border-4 border-black"
+            >
+              <div className="text-sm font-black uppercase tracking-tight text-black">
+                Reconnecting ({reconnectAttempt})
+              </div>
+            </motion.div>
+          )}
+
+          {isConnected && !isReconnecting && (
             <motion.div 
               animate={{ scale: [1, 1.05, 1] }}
               transition={{ duration: 1.5, repeat: Infinity }}
@@ -425,7 +637,7 @@ export default function DebateLive({
       </motion.div>
 
       {/* Connecting Screen - Centered */}
-      {!isConnected && (
+      {!isConnected && !isReconnecting && (
         <div className="absolute inset-0 flex items-center justify-center z-10">
           <motion.div
             initial={{ scale: 0.8, opacity: 0 }}
@@ -451,7 +663,7 @@ export default function DebateLive({
       )}
 
       {/* Left Side - Timer & Controls */}
-      {isConnected && (
+      {(isConnected || isReconnecting) && (
         <div className="absolute left-[15%] top-1/2 -translate-y-1/2 z-10 flex flex-col items-center gap-8">
           <motion.div
             key="timer"
@@ -459,6 +671,47 @@ export default function DebateLive({
             animate={{ scale: 1, opacity: 1 }}
             className="text-center"
           >
+            {/* Phase Indicator - structured formats only */}
+            {phaseProgress && (
+              <div className="mb-6 flex flex-col items-center gap-3">
+                <div className="flex gap-1.5">
+                  {format.phases.map((phase, index) => (
+                    <div
+                      key={phase.id}
+                      title={phase.name}
+                      className={`h-2 rounded-full border-2 border-black ${
+                        index === phaseProgress.index
+                          ? 'w-10 bg-nav-lime'
+                          : index < phaseProgress.index
+                            ? 'w-4 bg-white'
+                            : 'w-4 bg-white/20'
+                      }`}
+                    />
+                  ))}
+                </div>
+                <div className={`rounded-xl px-5 py-2 border-4 border-black shadow-[0_4px_0_rgb(0,0,0)] ${
+                  phaseProgress.phase.speaker === 'user'
+                    ? 'bg-sky-400'
+                    : phaseProgress.phase.speaker === 'model'
+                      ? 'bg-purple-400'
+                      : 'bg-nav-yellow'
+                }`}>
+                  <div className="text-[10px] uppercase tracking-widest font-black text-black/60">
+                    {format.name} · Phase {phaseProgress.index + 1}/{format.phases.length}
+                  </div>
+                  <div className="text-sm font-black uppercase tracking-tight text-black">
+                    {phaseProgress.phase.name} · {
+                      phaseProgress.phase.speaker === 'user'
+                        ? 'Your floor'
+                        : phaseProgress.phase.speaker === 'model'
+                          ? 'AI speaks'
+                          : 'Open exchange'
+                    }
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Timer Card */}
             <motion.div 
               animate={isLowTime ? { 
@@ -471,24 +724,52 @@ export default function DebateLive({
               }`}
             >
               <div className="text-[10rem] font-black text-black leading-none tabular-nums tracking-tighter">
-                {formatTime(remainingSeconds)}
+                {formatTime(countdownSeconds)}
               </div>
             </motion.div>
+
+            {phaseProgress && (
+              <div className="mt-6 text-white/60 text-sm font-black uppercase tracking-[0.3em] tabular-nums">
+                {formatTime(remainingSeconds)} total left
+              </div>
+            )}
             
+            {/* Reconnecting notice - timer is paused */}
+            {isReconnecting && (
+              <div className="mt-6 text-nav-yellow text-sm font-black uppercase tracking-[0.3em]">
+                Connection dropped · Timer paused
+              </div>
+            )}
+
             {/* Audio Bars */}
-            <div className="flex justify-center gap-2 mt-6">
-              {[...Array(7)].map((_, i) => (
-                <motion.div
-                  key={i}
-                  className="w-4 bg-white rounded-full"
-                  animate={{
-                    height: audioLevel > i ? 40 + (i * 8) : 20,
-                    opacity: audioLevel > i ? 1 : 0.3
-                  }}
-                  transition={{ duration: 0.1 }}
-                />
-              ))}
-            </div>
+            {!isTextMode && (
+              <div className="flex justify-center gap-2 mt-6">
+                {[...Array(7)].map((_, i) => (
+                  <motion.div
+                    key={i}
+                    className="w-4 bg-white rounded-full"
+                    animate={{
+                      height: audioLevel > i ? 40 + (i * 8) : 20,
+                      opacity: audioLevel > i ? 1 : 0.3
+                    }}
+                    transition={{ duration: 0.1 }}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Push-to-talk / VAD indicator */}
+            {!isTextMode && (voiceSettings.pushToTalk || voiceSettings.vadEnabled) && (
+              <div
+                className={`mt-6 inline-block rounded-xl px-5 py-2 border-4 border-black text-sm font-black uppercase tracking-tight shadow-[0_4px_0_rgb(0,0,0)] ${
+                  isUserSpeaking ? 'bg-nav-lime text-black' : 'bg-white/10 text-white'
+                }`}
+              >
+                {voiceSettings.pushToTalk
+                  ? (isUserSpeaking ? 'Talking...' : 'Hold Space to Talk')
+                  : (isUserSpeaking ? 'Speaking' : 'Listening')}
+              </div>
+            )}
           </motion.div>
 
           {/* End Button */}
@@ -506,8 +787,62 @@ export default function DebateLive({
         </div>
       )}
 
+      {/* Right Side - Chat (text mode) */}
+      {isTextMode && (isConnected || isReconnecting) && (
+        <div className="absolute right-[10%] top-28 bottom-8 w-[40%] z-20 flex flex-col gap-4">
+          <div className="flex-1 overflow-y-auto flex flex-col gap-4 pr-2">
+            {messages.filter(m => m.role !== 'system').length === 0 && (
+              <p className="text-white/40 text-sm font-black uppercase tracking-widest text-center mt-8">
+                Type your opening argument to begin
+              </p>
+            )}
+            {messages.filter(m => m.role !== 'system').map((message) => (
+              <div
+                key={message.id}
+                className={`max-w-[85%] rounded-xl p-4 border-4 border-black ${
+                  message.role === 'user'
+                    ? 'self-end bg-sky-400 shadow-[0_6px_0_rgb(3,105,161)]'
+                    : 'self-start bg-purple-400 shadow-[0_6px_0_rgb(126,34,206)]'
+                }`}
+              >
+                <div className="text-[9px] uppercase tracking-widest font-black text-black/60 mb-1">
+                  {message.role === 'user' ? 'You' : 'AI Opponent'}
+                </div>
+                <p className="text-black font-bold text-sm leading-relaxed break-words whitespace-pre-wrap">{message.text}</p>
+              </div>
+            ))}
+            <div ref={chatEndRef} />
+          </div>
+
+          <form onSubmit={handleSendText} className="flex gap-3">
+            <textarea
+              value={draftText}
+              onChange={(e) => setDraftText(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter sends, Shift+Enter adds a new line
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  handleSendText(e);
+                }
+              }}
+              placeholder={isReconnecting ? 'Reconnecting...' : 'Type your argument...'}
+              disabled={!isConnected}
+              rows={2}
+              autoFocus
+              className="flex-1 bg-white rounded-xl px-4 py-3 border-4 border-black text-black font-bold text-sm placeholder-gray-500 focus:outline-none resize-none disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={!isConnected || !draftText.trim()}
+              className="bg-nav-lime rounded-xl px-6 border-4 border-black shadow-[0_6px_0_rgb(0,0,0)] font-black uppercase tracking-tight text-black transition-all active:shadow-none active:translate-y-1 disabled:opacity-40 disabled:shadow-none"
+            >
+              Send
+            </button>
+          </form>
+        </div>
+      )}
+
       {/* Right Side - Transcript Feed */}
-      {isConnected && (
+      {!isTextMode && (isConnected || isReconnecting) && (
         <div className="absolute right-[10%] top-24 bottom-8 w-[40%] z-20">
           {/* Fade overlay at top */}
           <div className="absolute top-0 left-0 right-0 h-20 bg-gradient-to-b from-black to-transparent z-10 pointer-events-none" />
@@ -550,6 +885,15 @@ export default function DebateLive({
         </div>
       )}
 
+      {/* Live coaching overlay (voice mode, opt-in) */}
+      {showCoaching && isConnected && (
+        <LiveCoachingOverlay
+          snapshot={coaching}
+          nudge={coachingNudge}
+          onHide={() => setShowCoaching(false)}
+        />
+      )}
+
       {/* Error display - CodeJam Style */}
       {errorMsg && (
         <div className="absolute top-24 left-1/2 -translate-x-1/2 z-40 max-w-md">
@@ -0,0 +1,221 @@
+/**
+ * DebatePrep Component
+ *
+ * Optional prep phase between the Dashboard and DebateLive: shows an
+ * AI-generated research brief, runs the prep countdown and collects notes
+ * that are saved with the session.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { BookOpen, ThumbsUp, ThumbsDown, Shield, NotebookPen, RotateCw } from 'lucide-react';
+import { DebateConfig, PrepBrief } from '../types';
+import { generatePrepBrief } from '../services/prepService';
+import { getApiKey } from '../services/storageService';
+
+interface DebatePrepProps {
+  config: DebateConfig;
+  onStart: (notes: string) => void;
+  onBack: () => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+function BriefList({ title, icon, accent, items }: { title: string; icon: React.ReactNode; accent: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="bg-[#151515] border border-white/10 rounded-2xl p-5">
+      <h3 className={`flex items-center gap-2 text-xs font-black uppercase tracking-widest mb-3 ${accent}`}>
+        {icon} {title}
+      </h3>
+      <ul className="space-y-2">
+        {items.map((item, index) => (
+          <li key={index} className="text-gray-200 text-sm leading-relaxed flex gap-2">
+            <span className={`font-black ${accent}`}>{index + 1}.</span>
+            <span>{item}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function DebatePrep({ config, onStart, onBack }: DebatePrepProps) {
+  const [brief, setBrief] = useState<PrepBrief | null>(null);
+  const [isLoadingBrief, setIsLoadingBrief] = useState<boolean>(true);
+  const [briefFailed, setBriefFailed] = useState<boolean>(false);
+  const [notes, setNotes] = useState<string>('');
+  const [remainingSeconds, setRemainingSeconds] = useState<number>(config.prepSeconds ?? 0);
+  const notesRef = useRef<string>('');
+  const hasStartedRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    notesRef.current = notes;
+  }, [notes]);
+
+  const loadBrief = async () => {
+    setIsLoadingBrief(true);
+    setBriefFailed(false);
+
+    const storedApiKey = getApiKey();
+    const apiKey = storedApiKey || import.meta.env.VITE_GEMINI_API_KEY || '';
+    const analysisEndpoint = import.meta.env.VITE_ANALYSIS_ENDPOINT || '';
+
+    const result = await generatePrepBrief(config.topic, config.side, apiKey, analysisEndpoint || undefined);
+    setBrief(result);
+    setBriefFailed(result === null);
+    setIsLoadingBrief(false);
+  };
+
+  useEffect(() => {
+    void loadBrief();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const startDebate = () => {
+    if (hasStartedRef.current) return;
+    hasStartedRef.current = true;
+    onStart(notesRef.current.trim());
+  };
+
+  // Countdown (paused while the brief loads) - the debate starts automatically when prep time is up
+  useEffect(() => {
+    if (remainingSeconds <= 0) {
+      startDebate();
+      return;
+    }
+    if (isLoadingBrief) return;
+
+    const timeout = window.setTimeout(() => setRemainingSeconds((prev) => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [remainingSeconds, isLoadingBrief]);
+
+  const isLowTime = remainingSeconds <= 10;
+  const userSideLabel = config.side === 'proposition' ? 'For the motion' : 'Against the motion';
+
+  return (
+    <div className="p-6 md:p-12 max-w-300 mx-auto min-h-screen">
+      {/* Header */}
+      <div className="mb-10 flex flex-col md:flex-row md:items-end justify-between gap-6 border-b border-white/10 pb-8">
+        <div className="min-w-0">
+          <p className="text-xs font-black uppercase tracking-widest text-nav-lime mb-3">Prep Time · You argue {userSideLabel}</p>
+          <h1 className="text-4xl md:text-6xl font-black tracking-tighter uppercase text-[#FDF9F0] leading-[0.95] break-words">
+            {config.topic}
+          </h1>
+        </div>
+        <motion.div
+          animate={isLowTime ? { scale: [1, 1.05, 1] } : {}}
+          transition={{ duration: 0.5, repeat: isLowTime ? Infinity : 0 }}
+          className={`shrink-0 rounded-[2rem] px-10 py-5 border-4 border-black shadow-[0_8px_0_rgb(0,0,0)] ${
+            isLowTime ? 'bg-red-500' : 'bg-nav-lime'
+          }`}
+        >
+          <div className="text-6xl font-black text-black leading-none tabular-nums tracking-tighter">
+            {formatTime(remainingSeconds)}
+          </div>
+        </motion.div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+        {/* Brief */}
+        <div className="lg:col-span-3 space-y-4">
+          <h2 className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-sky-500">
+            <BookOpen size={12} /> Research Brief
+          </h2>
+
+          {isLoadingBrief && (
+            <div className="bg-[#151515] border border-white/10 rounded-2xl p-8 text-center">
+              <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-nav-lime mx-auto mb-4" />
+              <p className="text-gray-400 text-sm font-medium">Preparing your brief...</p>
+            </div>
+          )}
+
+          {briefFailed && (
+            <div className="bg-[#151515] border-2 border-red-500/50 rounded-2xl p-6">
+              <p className="text-red-400 font-black text-sm uppercase tracking-wide mb-1">Brief unavailable</p>
+              <p className="text-gray-300 text-sm mb-4">
+                The brief could not be generated. You can still use the time to write your own notes.
+              </p>
+              <button
+                onClick={() => void loadBrief()}
+                className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white font-black uppercase tracking-wide text-xs rounded-xl transition-colors flex items-center gap-2"
+              >
+                <RotateCw size={14} /> Try Again
+              </button>
+            </div>
+          )}
+
+          {brief && (
+            <>
+              {brief.definitions.length > 0 && (
+                <div className="bg-[#151515] border border-white/10 rounded-2xl p-5">
+                  <h3 className="text-xs font-black uppercase tracking-widest mb-3 text-nav-yellow">Key Definitions</h3>
+                  <dl className="space-y-2">
+                    {brief.definitions.map((item) => (
+                      <div key={item.term} className="text-sm leading-relaxed">
+                        <dt className="inline font-black text-white">{item.term}: </dt>
+                        <dd className="inline text-gray-300">{item.definition}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <BriefList title="For the Motion" icon={<ThumbsUp size={12} />} accent="text-sky-400" items={brief.argumentsFor} />
+                <BriefList title="Against the Motion" icon={<ThumbsDown size={12} />} accent="text-nav-orange" items={brief.argumentsAgainst} />
+              </div>
+              {brief.likelyRebuttals.length > 0 && (
+                <div className="bg-[#151515] border border-white/10 rounded-2xl p-5">
+                  <h3 className="flex items-center gap-2 text-xs font-black uppercase tracking-widest mb-3 text-purple-400">
+                    <Shield size={12} /> Likely Rebuttals
+                  </h3>
+                  <ul className="space-y-3">
+                    {brief.likelyRebuttals.map((item, index) => (
+                      <li key={index} className="text-sm leading-relaxed">
+                        <p className="text-white font-bold">“{item.rebuttal}”</p>
+                        <p className="text-gray-400">→ {item.response}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Notes */}
+        <div className="lg:col-span-2 flex flex-col gap-4">
+          <h2 className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-nav-lime">
+            <NotebookPen size={12} /> Your Notes
+          </h2>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Opening line, your three main points, answers to the rebuttals..."
+            autoFocus
+            className="flex-1 min-h-72 bg-[#111] border border-white/10 rounded-2xl px-5 py-4 text-white text-sm leading-relaxed placeholder-gray-600 focus:outline-none focus:border-nav-lime transition-colors resize-none"
+          />
+          <p className="text-xs text-gray-500">Your notes are saved with the session and considered in the analysis.</p>
+
+          <button
+            onClick={startDebate}
+            className="w-full py-4 bg-nav-lime text-black font-black uppercase tracking-wide rounded-xl border-4 border-black transition-all shadow-[0_8px_0_rgb(0,0,0)] active:shadow-none active:translate-y-2"
+          >
+            Start Debate Now
+          </button>
+          <button
+            onClick={onBack}
+            className="w-full py-3 text-gray-400 hover:text-white font-black uppercase tracking-wide text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * DeliveryMetricsCard component - Trends in speaking pace, fillers, pauses and
+ * talk time across voice sessions
+ */
+
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { DeliveryMetrics, SessionHistoryItem } from '../types';
+import { transformSessionsToDeliveryData } from '../utils/chartUtils';
+
+interface DeliveryMetricsCardProps {
+  sessions: SessionHistoryItem[];
+}
+
+/**
+ * How one metric is labelled and displayed
+ */
+interface DeliveryMetricOption {
+  key: keyof DeliveryMetrics;
+  label: string;
+  format: (value: number) => string;
+  hint: string;
+}
+
+const METRIC_OPTIONS: DeliveryMetricOption[] = [
+  { key: 'wordsPerMinute', label: 'Pace', format: value => `${value} wpm`, hint: 'Around 130-160 words per minute is easy to follow.' },
+  { key: 'fillerRate', label: 'Fillers', format: value => `${value} / 100 words`, hint: '"Um", "you know", "I was like" and friends per 100 words.' },
+  { key: 'averagePauseSeconds', label: 'Pauses', format: value => `${value}s`, hint: 'Average silence within your own turns.' },
+  { key: 'talkTimeRatio', label: 'Talk Share', format: value => `${Math.round(value * 100)}%`, hint: 'Your share of the total speaking time.' },
+  { key: 'longestTurnSeconds', label: 'Longest Turn', format: value => `${value}s`, hint: 'Your longest stretch without the opponent speaking.' },
+  { key: 'lexicalDiversity', label: 'Word Variety', format: value => `${Math.round(value * 100)}%`, hint: 'Unique words as a share of all words you used.' },
+];
+
+export default function DeliveryMetricsCard({ sessions }: DeliveryMetricsCardProps) {
+  const [selectedKey, setSelectedKey] = useState<keyof DeliveryMetrics>('wordsPerMinute');
+  const chartData = useMemo(() => transformSessionsToDeliveryData(sessions), [sessions]);
+  const selected = METRIC_OPTIONS.find(option => option.key === selectedKey) ?? METRIC_OPTIONS[0]!;
+
+  const latest = chartData[chartData.length - 1];
+  const average = chartData.length > 0
+    ? Math.round((chartData.reduce((sum, point) => sum + point[selected.key], 0) / chartData.length) * 100) / 100
+    : 0;
+
+  return (
+    <div className="group relative bg-[#111] border border-white/10 rounded-[2.5rem] p-1 overflow-hidden hover:border-white/20 transition-colors">
+      <div className="bg-[#151515] rounded-[2.3rem] p-6 md:p-8 h-full relative z-10">
+        <h3 className="text-white text-xl font-black mb-6 uppercase tracking-tight">Speaking Delivery</h3>
+
+        {chartData.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-400 text-sm">Finish a voice debate to see your speaking pace, fillers and pauses</p>
+          </div>
+        ) : (
+          <>
+            {/* Metric picker */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {METRIC_OPTIONS.map(option => (
+                <button
+                  key={option.key}
+                  onClick={() => setSelectedKey(option.key)}
+                  className={`px-4 py-2 rounded-xl font-black text-xs uppercase tracking-tight transition-all ${
+                    selectedKey === option.key
+                      ? 'bg-nav-lime text-black shadow-[0_4px_0_rgb(0,0,0)]'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div className="bg-[#111] border border-white/10 rounded-2xl p-4">
+                <p className="text-gray-500 text-[10px] font-black uppercase tracking-widest mb-1">Latest</p>
+                <p className="text-white text-2xl font-black">{latest ? selected.format(latest[selected.key]) : '-'}</p>
+              </div>
+              <div className="bg-[#111] border border-white/10 rounded-2xl p-4">
+                <p className="text-gray-500 text-[10px] font-black uppercase tracking-widest mb-1">
+                  Average of {chartData.length}
+                </p>
+                <p className="text-white text-2xl font-black">{selected.format(average)}</p>
+              </div>
+            </div>
+
+            {chartData.length < 2 ? (
+              <p className="text-gray-400 text-sm text-center py-6">Complete another voice session to see the trend</p>
+            ) : (
+              <div className="w-full h-48 md:h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.3} />
+                    <XAxis dataKey="date" stroke="#94a3b8" style={{ fontSize: '10px' }} tick={{ fontSize: 10 }} />
+                    <YAxis stroke="#94a3b8" style={{ fontSize: '10px' }} tick={{ fontSize: 10 }} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#1e1e21',
+                        border: '1px solid #334155',
+                        borderRadius: '0.5rem',
+                        color: '#ffffff'
+                      }}
+                      labelStyle={{ color: '#a3e635' }}
+                      formatter={(value: number) => [selected.format(value), selected.label]}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey={selected.key}
+                      stroke="#a3e635"
+                      strokeWidth={2}
+                      dot={{ fill: '#a3e635', r: 4 }}
+                      activeDot={{ r: 6 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            <p className="text-gray-500 text-xs mt-4">{selected.hint}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
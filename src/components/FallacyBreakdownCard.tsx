@@ -0,0 +1,76 @@
+/**
+ * FallacyBreakdownCard component - The logical fallacies the user falls into most often
+ */
+
+import { useMemo } from 'react';
+import { SessionHistoryItem } from '../types';
+import { calculateFallacyBreakdown } from '../utils/statisticsUtils';
+import { getFallacy } from '../services/fallacies';
+
+interface FallacyBreakdownCardProps {
+  sessions: SessionHistoryItem[];
+}
+
+/** Number of fallacy types listed */
+const MAX_FALLACIES = 5;
+
+export default function FallacyBreakdownCard({ sessions }: FallacyBreakdownCardProps) {
+  const { breakdown, checkedSessions } = useMemo(() => calculateFallacyBreakdown(sessions), [sessions]);
+  const topFallacies = breakdown.slice(0, MAX_FALLACIES);
+  const maxCount = topFallacies[0]?.count ?? 0;
+
+  return (
+    <div className="group relative bg-[#111] border border-white/10 rounded-[2.5rem] p-1 overflow-hidden hover:border-white/20 transition-colors">
+      <div className="bg-[#151515] rounded-[2.3rem] p-6 md:p-8 h-full relative z-10">
+        <div className="flex flex-wrap items-end justify-between gap-2 mb-6">
+          <h3 className="text-white text-xl font-black uppercase tracking-tight">Most Common Fallacies</h3>
+          {checkedSessions > 0 && (
+            <span className="text-[10px] text-gray-500 font-black uppercase tracking-widest">
+              Across {checkedSessions} {checkedSessions === 1 ? 'session' : 'sessions'}
+            </span>
+          )}
+        </div>
+
+        {checkedSessions === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-400 text-sm">Finish a debate to see which fallacies you fall into</p>
+          </div>
+        ) : topFallacies.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-400 text-sm">No fallacies detected so far. Keep it up!</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {topFallacies.map(result => {
+              const definition = getFallacy(result.type);
+              return (
+                <div key={result.type}>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`px-3 py-1 rounded-lg border-2 border-black text-[10px] font-black uppercase tracking-wider text-black ${definition?.badgeClass ?? 'bg-gray-300'}`}
+                      >
+                        {definition?.label ?? result.type}
+                      </span>
+                      <span className="text-gray-500 text-xs font-bold">
+                        in {result.sessions} of {checkedSessions} {checkedSessions === 1 ? 'session' : 'sessions'}
+                      </span>
+                    </div>
+                    <span className="text-white text-lg font-black">{result.count}×</span>
+                  </div>
+                  <div className="h-3 bg-black/50 rounded-full border border-white/10 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${definition?.badgeClass ?? 'bg-gray-300'}`}
+                      style={{ width: `${(result.count / maxCount) * 100}%` }}
+                    />
+                  </div>
+                  {definition && <p className="text-gray-500 text-xs mt-2">{definition.description}</p>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * LiveCoachingOverlay component - Rolling delivery indicators during a voice debate,
+ * with an optional gentle nudge
+ */
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { X } from 'lucide-react';
+import { LONG_TURN_SECONDS, type LiveCoachingSnapshot } from '../utils/liveCoaching';
+
+interface LiveCoachingOverlayProps {
+  snapshot: LiveCoachingSnapshot;
+  nudge: string | null;
+  onHide: () => void;
+}
+
+interface IndicatorProps {
+  label: string;
+  value: string;
+  isWarning?: boolean;
+}
+
+function Indicator({ label, value, isWarning = false }: IndicatorProps) {
+  return (
+    <div className={`rounded-xl px-3 py-2 border-2 border-black ${isWarning ? 'bg-nav-yellow' : 'bg-white'}`}>
+      <div className="text-[9px] uppercase tracking-widest font-black text-black/60">{label}</div>
+      <div className="text-lg font-black text-black tabular-nums leading-tight">{value}</div>
+    </div>
+  );
+}
+
+export default function LiveCoachingOverlay({ snapshot, nudge, onHide }: LiveCoachingOverlayProps) {
+  const hasSpoken = snapshot.userWords > 0;
+
+  return (
+    <motion.div
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      className="absolute bottom-8 left-8 z-30 w-80 bg-[#151515] rounded-2xl border-4 border-black shadow-[0_6px_0_rgb(0,0,0)] p-4"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] uppercase tracking-widest font-black text-nav-lime">Live Coaching</span>
+        <button
+          onClick={onHide}
+          className="text-gray-500 hover:text-white transition-colors"
+          aria-label="Hide live coaching"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Indicator label="Pace" value={hasSpoken && snapshot.wordsPerMinute > 0 ? `${snapshot.wordsPerMinute} wpm` : '-'} />
+        <Indicator label="Fillers" value={String(snapshot.fillerWords)} />
+        <Indicator label="Your Share" value={hasSpoken ? `${Math.round(snapshot.talkTimeRatio * 100)}%` : '-'} />
+        <Indicator
+          label="Talking For"
+          value={snapshot.talkingForSeconds > 0 ? `${snapshot.talkingForSeconds}s` : '-'}
+          isWarning={snapshot.talkingForSeconds >= LONG_TURN_SECONDS}
+        />
+      </div>
+
+      <AnimatePresence>
+        {nudge && (
+          <motion.p
+            key={nudge}
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-3 text-sm font-bold leading-snug text-white"
+          >
+            {nudge}
+          </motion.p>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
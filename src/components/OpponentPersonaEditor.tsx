@@ -0,0 +1,327 @@
+/**
+ * OpponentPersonaEditor component - Create, edit, import and export custom AI opponents
+ */
+
+import { useState, useRef } from 'react';
+import { Plus, Pencil, Trash2, Download, Upload, X, Check } from 'lucide-react';
+import { OpponentPersona, InterruptionFrequency } from '../types';
+import {
+  getOpponentPersonas,
+  saveOpponentPersona,
+  deleteOpponentPersona,
+} from '../services/storageService';
+import { PREBUILT_VOICES } from '../services/debateStyles';
+import { validateOpponentPersonas } from '../utils/personaValidation';
+
+/**
+ * Editable fields of a persona (tactics as one-per-line text)
+ */
+interface PersonaDraft {
+  id?: string;
+  name: string;
+  voiceName: string;
+  tone: string;
+  knowledgeFocus: string;
+  interruptionFrequency: InterruptionFrequency;
+  forbiddenTactics: string;
+}
+
+const EMPTY_DRAFT: PersonaDraft = {
+  name: '',
+  voiceName: 'Charon',
+  tone: '',
+  knowledgeFocus: '',
+  interruptionFrequency: 'sometimes',
+  forbiddenTactics: '',
+};
+
+const INTERRUPTION_OPTIONS: { value: InterruptionFrequency; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'rarely', label: 'Rarely' },
+  { value: 'sometimes', label: 'Sometimes' },
+  { value: 'often', label: 'Often' },
+];
+
+const INPUT_CLASS =
+  'w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white text-sm placeholder-gray-600 focus:outline-none focus:border-nav-lime transition-colors';
+
+const toDraft = (persona: OpponentPersona): PersonaDraft => ({
+  id: persona.id,
+  name: persona.name,
+  voiceName: persona.voiceName,
+  tone: persona.tone,
+  knowledgeFocus: persona.knowledgeFocus,
+  interruptionFrequency: persona.interruptionFrequency,
+  forbiddenTactics: persona.forbiddenTactics.join('\n'),
+});
+
+export default function OpponentPersonaEditor() {
+  const [personas, setPersonas] = useState<OpponentPersona[]>(() => getOpponentPersonas());
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateDraft = (changes: Partial<PersonaDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const isDraftValid = Boolean(draft && draft.name.trim() && draft.tone.trim() && draft.knowledgeFocus.trim());
+
+  const handleSaveDraft = () => {
+    if (!draft || !isDraftValid) return;
+
+    const now = new Date().toISOString();
+    const existing = personas.find(p => p.id === draft.id);
+    const persona: OpponentPersona = {
+      id: existing?.id ?? `opponent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: draft.name.trim(),
+      voiceName: draft.voiceName,
+      tone: draft.tone.trim(),
+      knowledgeFocus: draft.knowledgeFocus.trim(),
+      interruptionFrequency: draft.interruptionFrequency,
+      forbiddenTactics: draft.forbiddenTactics
+        .split('\n')
+        .map(tactic => tactic.trim())
+        .filter(Boolean),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    setPersonas(saveOpponentPersona(persona));
+    setDraft(null);
+    setMessage({ type: 'success', text: `Saved "${persona.name}"` });
+  };
+
+  const handleDelete = (persona: OpponentPersona) => {
+    if (!window.confirm(`Delete the opponent "${persona.name}"?`)) return;
+    setPersonas(deleteOpponentPersona(persona.id));
+    if (draft?.id === persona.id) setDraft(null);
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify({ version: 1, personas }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'mindmelee-opponents.json';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      // Accept both the exported wrapper and a bare array
+      const { valid, errors } = validateOpponentPersonas(Array.isArray(parsed) ? parsed : parsed?.personas);
+
+      if (valid.length === 0) {
+        setMessage({ type: 'error', text: errors[0] ?? 'No opponents found in file' });
+        return;
+      }
+
+      let updated = personas;
+      valid.forEach(persona => {
+        updated = saveOpponentPersona(persona);
+      });
+      setPersonas(updated);
+      setMessage({
+        type: errors.length > 0 ? 'error' : 'success',
+        text: `Imported ${valid.length} opponent${valid.length === 1 ? '' : 's'}${errors.length > 0 ? `, skipped ${errors.length} invalid` : ''}`,
+      });
+    } catch (error) {
+      console.error('Failed to import opponent personas:', error);
+      setMessage({ type: 'error', text: 'File is not valid JSON' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Persona list */}
+      {personas.length === 0 && !draft && (
+        <p className="text-sm text-gray-500">
+          No custom opponents yet. Create one to practice against a specific character, like a hostile journalist or a board member.
+        </p>
+      )}
+
+      {personas.map(persona => (
+        <div
+          key={persona.id}
+          className="flex items-center justify-between gap-4 p-4 bg-black/30 border border-white/10 rounded-2xl"
+        >
+          <div className="min-w-0">
+            <p className="font-bold uppercase tracking-wide text-white text-sm truncate">{persona.name}</p>
+            <p className="text-xs text-gray-500 truncate">
+              {persona.voiceName} · interrupts {persona.interruptionFrequency} · {persona.tone}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => {
+                setDraft(toDraft(persona));
+                setMessage(null);
+              }}
+              className="w-9 h-9 flex items-center justify-center rounded-lg bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+              aria-label={`Edit ${persona.name}`}
+            >
+              <Pencil size={14} />
+            </button>
+            <button
+              onClick={() => handleDelete(persona)}
+              className="w-9 h-9 flex items-center justify-center rounded-lg bg-white/5 hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors"
+              aria-label={`Delete ${persona.name}`}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {/* Editor form */}
+      {draft && (
+        <div className="p-5 bg-black/30 border border-nav-lime/40 rounded-2xl space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Hostile journalist"
+                maxLength={40}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Voice</span>
+              <select
+                value={draft.voiceName}
+                onChange={(e) => updateDraft({ voiceName: e.target.value })}
+                className={INPUT_CLASS}
+              >
+                {PREBUILT_VOICES.map(voice => (
+                  <option key={voice} value={voice}>{voice}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Tone</span>
+            <input
+              type="text"
+              value={draft.tone}
+              onChange={(e) => updateDraft({ tone: e.target.value })}
+              placeholder="Impatient, sarcastic, always looking for a headline"
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Knowledge Focus</span>
+            <input
+              type="text"
+              value={draft.knowledgeFocus}
+              onChange={(e) => updateDraft({ knowledgeFocus: e.target.value })}
+              placeholder="Company finances, past scandals and public opinion polls"
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Interruptions</span>
+            <div className="grid grid-cols-4 gap-2">
+              {INTERRUPTION_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => updateDraft({ interruptionFrequency: option.value })}
+                  className={`py-2 rounded-xl font-black text-xs uppercase tracking-tight transition-all ${
+                    draft.interruptionFrequency === option.value
+                      ? 'bg-nav-lime text-black shadow-[0_4px_0_rgb(0,0,0)]'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-gray-400 text-xs font-black uppercase tracking-wider mb-2">Forbidden Tactics</span>
+            <textarea
+              value={draft.forbiddenTactics}
+              onChange={(e) => updateDraft({ forbiddenTactics: e.target.value })}
+              placeholder={'One per line, e.g.\nPersonal attacks\nMaking up statistics'}
+              rows={3}
+              className={`${INPUT_CLASS} resize-none`}
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSaveDraft}
+              disabled={!isDraftValid}
+              className="flex-1 py-3 bg-nav-lime text-black font-black uppercase tracking-wide text-sm rounded-xl transition-all shadow-[0_6px_0_rgb(0,0,0)] active:shadow-none active:translate-y-1 flex items-center justify-center gap-2 disabled:opacity-30 disabled:cursor-not-allowed disabled:shadow-none"
+            >
+              <Check size={16} /> Save Opponent
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-5 py-3 bg-white/5 hover:bg-white/10 text-gray-300 font-black uppercase tracking-wide text-sm rounded-xl transition-colors flex items-center gap-2"
+            >
+              <X size={16} /> Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs font-bold ${message.type === 'success' ? 'text-nav-lime' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        {!draft && (
+          <button
+            onClick={() => {
+              setDraft({ ...EMPTY_DRAFT });
+              setMessage(null);
+            }}
+            className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white font-black uppercase tracking-wide text-xs rounded-xl transition-colors flex items-center gap-2"
+          >
+            <Plus size={14} /> New Opponent
+          </button>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 font-black uppercase tracking-wide text-xs rounded-xl transition-colors flex items-center gap-2"
+        >
+          <Upload size={14} /> Import JSON
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={personas.length === 0}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 font-black uppercase tracking-wide text-xs rounded-xl transition-colors flex items-center gap-2 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <Download size={14} /> Export JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+}
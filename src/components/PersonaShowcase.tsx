@@ -7,6 +7,7 @@ import { motion } from 'framer-motion';
 import { Brain, Heart, Scale, Sword, Lightbulb, Book, Star, Target, Check, Lock, Sparkles } from 'lucide-react';
 import { PersonaService, ARCHETYPE_DEFINITIONS } from '@/services/personaService';
 import { getHistory } from '@/services/storageService';
+import { getScoredSessions } from '@/utils/statisticsUtils';
 import { SplineScene } from './ui/spline';
 import type { PersonaArchetype, PersonaTrait } from '@/types';
 
@@ -56,7 +57,7 @@ export default function PersonaShowcase(_props: PersonaShowcaseProps) {
   });
 
   useEffect(() => {
-    const sessions = getHistory();
+    const sessions = getScoredSessions(getHistory());
     const result = PersonaService.calculatePersona(sessions);
     setPersona({
       archetype: result.archetype,
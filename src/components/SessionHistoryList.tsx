@@ -1,16 +1,20 @@
 import { useState, useMemo } from 'react';
 import { SessionHistoryItem } from '../types';
 import SessionListItem from './SessionListItem';
+import SessionReplay from './SessionReplay';
 import { History, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface SessionHistoryListProps {
   sessions: SessionHistoryItem[];
+  onRetryAnalysis?: (sessionId: string) => Promise<boolean>;
+  onReanalyze?: (sessionId: string) => Promise<boolean>;
 }
 
 const ITEMS_PER_PAGE = 10;
 
-export default function SessionHistoryList({ sessions }: SessionHistoryListProps) {
+export default function SessionHistoryList({ sessions, onRetryAnalysis, onReanalyze }: SessionHistoryListProps) {
   const [currentPage, setCurrentPage] = useState(1);
+  const [replaySession, setReplaySession] = useState<SessionHistoryItem | null>(null);
 
   // Sort sessions by date descending (most recent first)
   const sortedSessions = useMemo(() => {
@@ -74,7 +78,13 @@ export default function SessionHistoryList({ sessions }: SessionHistoryListProps
       {/* Session List */}
       <div className="space-y-3">
         {paginatedSessions.map((session) => (
-          <SessionListItem key={session.id} session={session} />
+          <SessionListItem
+            key={session.id}
+            session={session}
+            onReplay={setReplaySession}
+            onRetryAnalysis={onRetryAnalysis}
+            onReanalyze={onReanalyze}
+          />
         ))}
       </div>
 
@@ -116,6 +126,11 @@ export default function SessionHistoryList({ sessions }: SessionHistoryListProps
           </button>
         </div>
       )}
+
+      {/* Replay overlay */}
+      {replaySession && (
+        <SessionReplay session={replaySession} onClose={() => setReplaySession(null)} />
+      )}
     </div>
   );
 }
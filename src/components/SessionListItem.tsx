@@ -1,14 +1,68 @@
 import { useState } from 'react';
-import { SessionHistoryItem } from '../types';
-import { ChevronDown, ChevronUp, Calendar, Clock, Trophy } from 'lucide-react';
+import { DifficultyLevel, SessionHistoryItem } from '../types';
+import { ChevronDown, ChevronUp, Calendar, Clock, Trophy, Download, PlayCircle, RefreshCw, Hourglass } from 'lucide-react';
+import { downloadRecording } from '../services/recordingStore';
+import { getDebateStyle } from '../services/debateStyles';
+import { getDifficultyLevel } from '../services/difficultyService';
+import { DEFAULT_RUBRIC_ID, getRubricLabel } from '../services/analysisRubrics';
+import { getCustomRubrics } from '../services/storageService';
 
 interface SessionListItemProps {
   session: SessionHistoryItem;
   rank?: number;
+  onReplay?: (session: SessionHistoryItem) => void;
+  onRetryAnalysis?: (sessionId: string) => Promise<boolean>; // Resolves false if analysis failed again
+  onReanalyze?: (sessionId: string) => Promise<boolean>; // Resolves false if re-analysis failed
 }
 
-export default function SessionListItem({ session, rank }: SessionListItemProps) {
+export default function SessionListItem({ session, rank, onReplay, onRetryAnalysis, onReanalyze }: SessionListItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const canReplay = Boolean(onReplay && session.transcript?.length);
+  const isPending = session.analysisStatus === 'pending';
+  const canRetry = Boolean(isPending && onRetryAnalysis);
+  const canReanalyze = Boolean(!isPending && onReanalyze && session.transcript?.length);
+  const versions = session.analysisVersions ?? [];
+
+  const handleDownload = async (event: React.MouseEvent) => {
+    // Don't toggle the card
+    event.stopPropagation();
+    setDownloadError(null);
+
+    const slug = session.topic.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+    const found = await downloadRecording(session.id, `mindmelee-${slug || 'debate'}-${session.date.slice(0, 10)}`);
+    if (!found) {
+      setDownloadError('Recording not found on this device.');
+    }
+  };
+
+  const handleRetry = async (event: React.MouseEvent) => {
+    // Don't toggle the card
+    event.stopPropagation();
+    if (!onRetryAnalysis) return;
+    setRetryError(null);
+    setIsRetrying(true);
+    const succeeded = await onRetryAnalysis(session.id);
+    setIsRetrying(false);
+    if (!succeeded) {
+      setRetryError('Analysis failed again. Try again later.');
+    }
+  };
+
+  const handleReanalyze = async (event: React.MouseEvent) => {
+    // Don't toggle the card
+    event.stopPropagation();
+    if (!onReanalyze) return;
+    setRetryError(null);
+    setIsRetrying(true);
+    const succeeded = await onReanalyze(session.id);
+    setIsRetrying(false);
+    if (!succeeded) {
+      setRetryError('Re-analysis failed. Your previous score is unchanged.');
+    }
+  };
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -81,21 +135,59 @@ export default function SessionListItem({ session, rank }: SessionListItemProps)
                 <Clock className="w-3.5 h-3.5" />
                 <span>{formatDuration(session.durationSeconds)}</span>
               </div>
+              {session.side && (
+                <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-wider text-gray-300">
+                  {session.side === 'proposition' ? 'For' : 'Against'}
+                </span>
+              )}
+              {(session.opponentName || session.style) && (
+                <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-wider text-gray-300">
+                  vs {session.opponentName ?? getDebateStyle(session.style).label}
+                </span>
+              )}
+              {session.inputMode === 'text' && (
+                <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-wider text-gray-300">
+                  Text
+                </span>
+              )}
+              {session.prepNotes && (
+                <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-wider text-gray-300">
+                  Prepped
+                </span>
+              )}
+              {session.rubricId && session.rubricId !== DEFAULT_RUBRIC_ID && (
+                <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-wider text-gray-300">
+                  {getRubricLabel(session.rubricId, session.rubricVersion, getCustomRubrics())}
+                </span>
+              )}
+              {session.difficulty && (
+                <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-wider text-gray-300">
+                  {getDifficultyLevel(session.difficulty).label}
+                  {session.difficulty === DifficultyLevel.ADAPTIVE && session.difficultyIntensity !== undefined && ` ${session.difficultyIntensity}`}
+                </span>
+              )}
             </div>
           </div>
 
           {/* Score Badge */}
           <div className="flex items-center gap-2 flex-shrink-0">
-            <div
-              className={`flex items-center gap-1.5 px-3 py-2 rounded-xl ${getScoreBgColor(
-                session.score
-              )} border border-white/10`}
-            >
-              <Trophy className={`w-4 h-4 ${getScoreColor(session.score)}`} />
-              <span className={`text-sm font-black ${getScoreColor(session.score)}`}>
-                {session.score}
-              </span>
-            </div>
+            {isPending ? (
+              <div className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-amber-400/10 border border-white/10">
+                <Hourglass className="w-4 h-4 text-amber-400" />
+                <span className="text-[10px] font-black uppercase tracking-wider text-amber-400">Analysis Pending</span>
+              </div>
+            ) : (
+              <div
+                className={`flex items-center gap-1.5 px-3 py-2 rounded-xl ${getScoreBgColor(
+                  session.score
+                )} border border-white/10`}
+              >
+                <Trophy className={`w-4 h-4 ${getScoreColor(session.score)}`} />
+                <span className={`text-sm font-black ${getScoreColor(session.score)}`}>
+                  {session.score}
+                </span>
+              </div>
+            )}
             {isExpanded ? (
               <ChevronUp className="w-5 h-5 text-gray-400" />
             ) : (
@@ -122,9 +214,91 @@ export default function SessionListItem({ session, rank }: SessionListItemProps)
               </div>
               <div>
                 <p className="text-gray-500 text-[10px] font-black uppercase tracking-widest mb-1">Performance</p>
-                <p className={`font-black text-sm ${getScoreColor(session.score)}`}>{session.score}/100</p>
+                {isPending ? (
+                  <p className="font-black text-sm text-amber-400">Not analyzed yet</p>
+                ) : (
+                  <p className={`font-black text-sm ${getScoreColor(session.score)}`}>{session.score}/100</p>
+                )}
               </div>
             </div>
+
+            {versions.length > 1 && (
+              <div className="mt-4">
+                <p className="text-gray-500 text-[10px] font-black uppercase tracking-widest mb-2">Analysis History</p>
+                <div className="space-y-1.5">
+                  {versions
+                    .map((version, index) => ({ version, index }))
+                    .reverse()
+                    .map(({ version, index }) => (
+                      <div
+                        key={`${version.analyzedAt}-${index}`}
+                        className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-xs"
+                      >
+                        <div className="flex flex-wrap items-center gap-2 min-w-0 text-gray-400 font-medium">
+                          <span className="text-white font-bold">{formatDate(version.analyzedAt)}</span>
+                          <span>{version.analysisModel ?? 'Unknown model'}</span>
+                          {version.rubricId && <span>· {getRubricLabel(version.rubricId, version.rubricVersion, getCustomRubrics())}</span>}
+                          {index === 0 && <span className="text-gray-500">· Original</span>}
+                          {index === versions.length - 1 && <span className="text-nav-lime">· Current</span>}
+                        </div>
+                        <span className={`font-black ${getScoreColor(version.score)}`}>{version.score}</span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            )}
+
+            {(canReplay || session.hasRecording || canRetry || canReanalyze) && (
+              <div className="mt-4 flex flex-wrap items-center gap-3">
+                {canRetry && (
+                  <button
+                    onClick={handleRetry}
+                    disabled={isRetrying}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-400 text-black text-xs font-black uppercase tracking-wide rounded-xl border-2 border-black shadow-[3px_3px_0_#000] hover:shadow-none hover:translate-x-[3px] hover:translate-y-[3px] transition-all disabled:opacity-60 disabled:cursor-wait"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isRetrying ? 'animate-spin' : ''}`} />
+                    {isRetrying ? 'Analyzing...' : 'Retry Analysis'}
+                  </button>
+                )}
+                {canReanalyze && (
+                  <button
+                    onClick={handleReanalyze}
+                    disabled={isRetrying}
+                    className="flex items-center gap-2 px-4 py-2 bg-white text-black text-xs font-black uppercase tracking-wide rounded-xl border-2 border-black shadow-[3px_3px_0_#000] hover:shadow-none hover:translate-x-[3px] hover:translate-y-[3px] transition-all disabled:opacity-60 disabled:cursor-wait"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isRetrying ? 'animate-spin' : ''}`} />
+                    {isRetrying ? 'Analyzing...' : 'Re-analyze'}
+                  </button>
+                )}
+                {canReplay && (
+                  <button
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onReplay?.(session);
+                    }}
+                    className="flex items-center gap-2 px-4 py-2 bg-sky-400 text-black text-xs font-black uppercase tracking-wide rounded-xl border-2 border-black shadow-[3px_3px_0_#000] hover:shadow-none hover:translate-x-[3px] hover:translate-y-[3px] transition-all"
+                  >
+                    <PlayCircle className="w-4 h-4" />
+                    Replay
+                  </button>
+                )}
+                {session.hasRecording && (
+                  <button
+                    onClick={handleDownload}
+                    className="flex items-center gap-2 px-4 py-2 bg-nav-lime text-black text-xs font-black uppercase tracking-wide rounded-xl border-2 border-black shadow-[3px_3px_0_#000] hover:shadow-none hover:translate-x-[3px] hover:translate-y-[3px] transition-all"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download WAV
+                  </button>
+                )}
+                {downloadError && (
+                  <span className="text-red-400 text-xs font-medium">{downloadError}</span>
+                )}
+                {retryError && (
+                  <span className="text-red-400 text-xs font-medium">{retryError}</span>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
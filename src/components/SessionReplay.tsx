@@ -0,0 +1,270 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { X, Play, Pause, Calendar, Clock, Mic } from 'lucide-react';
+import { SessionHistoryItem, SessionRecording, ChatMessage } from '../types';
+import { getRecording } from '../services/recordingStore';
+
+interface SessionReplayProps {
+  session: SessionHistoryItem;
+  onClose: () => void;
+}
+
+/**
+ * A transcript turn placed on the session timeline
+ */
+interface ReplayTurn {
+  message: ChatMessage;
+  offsetSeconds: number;
+}
+
+const formatOffset = (seconds: number) => {
+  const safe = Math.max(0, Math.floor(seconds));
+  const mins = Math.floor(safe / 60);
+  const secs = safe % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * SessionReplay Component
+ *
+ * Turn-by-turn transcript of a past session. When a recording exists the
+ * active turn follows playback and clicking a turn seeks the audio to it.
+ */
+export default function SessionReplay({ session, onClose }: SessionReplayProps) {
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isLoadingAudio, setIsLoadingAudio] = useState<boolean>(Boolean(session.hasRecording));
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [duration, setDuration] = useState<number>(0);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const turnRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
+
+  // Load the recording (if any) from IndexedDB
+  useEffect(() => {
+    if (!session.hasRecording) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    getRecording(session.id).then((loaded) => {
+      if (cancelled) return;
+      if (loaded) {
+        url = URL.createObjectURL(loaded.wav);
+        setRecording(loaded);
+        setAudioUrl(url);
+        setDuration(loaded.durationSeconds);
+      }
+      setIsLoadingAudio(false);
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [session.id, session.hasRecording]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Offsets are relative to the recording start, or the first turn without one
+  const turns = useMemo<ReplayTurn[]>(() => {
+    const messages = (session.transcript ?? []).filter(m => m.role !== 'system' && m.text.trim());
+    const origin = recording?.startedAt ?? messages[0]?.timestamp ?? 0;
+    return messages.map(message => ({
+      message,
+      offsetSeconds: (message.timestamp - origin) / 1000,
+    }));
+  }, [session.transcript, recording]);
+
+  // Last turn that started at or before the playhead
+  const activeTurnId = useMemo(() => {
+    if (!recording || (!isPlaying && currentTime === 0)) return null;
+    let active: string | null = null;
+    for (const turn of turns) {
+      if (turn.offsetSeconds <= currentTime) {
+        active = turn.message.id;
+      } else {
+        break;
+      }
+    }
+    return active;
+  }, [turns, currentTime, isPlaying, recording]);
+
+  // Keep the active turn in view while playing
+  useEffect(() => {
+    if (!activeTurnId || !isPlaying) return;
+    turnRefs.current.get(activeTurnId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeTurnId, isPlaying]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      void audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(seconds, duration || seconds));
+    setCurrentTime(audio.currentTime);
+    if (audio.paused) {
+      void audio.play();
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const progress = duration > 0 ? Math.min(100, (currentTime / duration) * 100) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 md:p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20, scale: 0.97 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="w-full max-w-3xl max-h-full flex flex-col bg-[#111] border-2 border-white/10 rounded-[2rem] overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-white/10">
+          <div className="min-w-0">
+            <p className="text-[10px] font-black uppercase tracking-widest text-nav-lime mb-1">Session Replay</p>
+            <h2 className="text-lg md:text-xl font-black text-white uppercase tracking-tight truncate">{session.topic}</h2>
+            <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-400 font-medium">
+              <span className="flex items-center gap-1.5">
+                <Calendar className="w-3.5 h-3.5" />
+                {formatDate(session.date)}
+              </span>
+              <span className="flex items-center gap-1.5">
+                <Clock className="w-3.5 h-3.5" />
+                {formatOffset(session.durationSeconds)}
+              </span>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/5 hover:bg-white/10 text-gray-400 hover:text-white transition-colors flex-shrink-0"
+            aria-label="Close replay"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Player */}
+        <div className="px-6 py-4 border-b border-white/10 bg-[#151515]">
+          {audioUrl ? (
+            <div className="flex items-center gap-4">
+              <button
+                onClick={togglePlayback}
+                className="w-12 h-12 flex items-center justify-center rounded-xl bg-nav-lime text-black border-2 border-black shadow-[3px_3px_0_#000] hover:shadow-none hover:translate-x-[3px] hover:translate-y-[3px] transition-all flex-shrink-0"
+                aria-label={isPlaying ? 'Pause' : 'Play'}
+              >
+                {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+              </button>
+              <div className="flex-1">
+                <div
+                  className="h-2 bg-black/50 rounded-full cursor-pointer overflow-hidden"
+                  onClick={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    seekTo(((e.clientX - rect.left) / rect.width) * duration);
+                  }}
+                >
+                  <div className="h-full bg-nav-lime rounded-full" style={{ width: `${progress}%` }} />
+                </div>
+                <div className="flex justify-between mt-2 text-[10px] font-black uppercase tracking-widest text-gray-500">
+                  <span>{formatOffset(currentTime)}</span>
+                  <span>{formatOffset(duration)}</span>
+                </div>
+              </div>
+              <audio
+                ref={audioRef}
+                src={audioUrl}
+                preload="auto"
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onEnded={() => setIsPlaying(false)}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                onLoadedMetadata={(e) => {
+                  if (Number.isFinite(e.currentTarget.duration)) setDuration(e.currentTarget.duration);
+                }}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-gray-500 font-medium">
+              <Mic className="w-4 h-4" />
+              {isLoadingAudio
+                ? 'Loading recording...'
+                : session.hasRecording
+                  ? 'Recording not found on this device. Showing transcript only.'
+                  : 'No recording for this session. Showing transcript only.'}
+            </div>
+          )}
+        </div>
+
+        {/* Transcript */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {turns.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center font-medium py-8">
+              No transcript was saved for this session.
+            </p>
+          ) : (
+            turns.map(({ message, offsetSeconds }) => {
+              const isUser = message.role === 'user';
+              const isActive = message.id === activeTurnId;
+              return (
+                <button
+                  key={message.id}
+                  ref={(el) => {
+                    if (el) turnRefs.current.set(message.id, el);
+                    else turnRefs.current.delete(message.id);
+                  }}
+                  onClick={() => seekTo(offsetSeconds)}
+                  disabled={!audioUrl}
+                  className={`w-full text-left rounded-xl p-4 border-4 transition-all disabled:cursor-default ${
+                    isActive
+                      ? isUser
+                        ? 'bg-sky-400 border-black shadow-[0_6px_0_rgb(3,105,161)]'
+                        : 'bg-purple-400 border-black shadow-[0_6px_0_rgb(126,34,206)]'
+                      : 'bg-[#151515] border-transparent hover:border-white/10'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span
+                      className={`text-[9px] uppercase tracking-widest font-black ${
+                        isActive ? 'text-black/60' : isUser ? 'text-sky-400' : 'text-purple-400'
+                      }`}
+                    >
+                      {isUser ? 'You' : 'AI Opponent'}
+                    </span>
+                    <span className={`text-[10px] font-mono font-bold ${isActive ? 'text-black/60' : 'text-gray-500'}`}>
+                      {formatOffset(offsetSeconds)}
+                    </span>
+                  </div>
+                  <p className={`text-sm leading-relaxed break-words ${isActive ? 'text-black font-bold' : 'text-gray-200 font-medium'}`}>
+                    {message.text}
+                  </p>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -2,15 +2,41 @@
  * SessionSummary component - Displays post-debate analysis and performance metrics
  */
 
-import { DebateAnalysis } from '../types';
+import { ChatMessage, DebateAnalysis, JudgePanelResult } from '../types';
 import { motion } from 'framer-motion';
-import { Trophy, Target, Zap, TrendingUp, Lightbulb, ArrowRight, Sparkles } from 'lucide-react';
+import { Trophy, Target, Zap, TrendingUp, Lightbulb, ArrowRight, Sparkles, ListOrdered, NotebookPen, Network, MessageSquareWarning, Users, Loader2, X } from 'lucide-react';
+import ArgumentMapView from './ArgumentMapView';
+import AnnotatedTranscript from './AnnotatedTranscript';
+import { getRubricLabel } from '../services/analysisRubrics';
+import { getCustomRubrics } from '../services/storageService';
+import { getPanelAgreement, PANEL_AGGREGATION_LABELS } from '../services/judgePanel';
+
+/** How the panel's agreement is described and colored */
+const PANEL_AGREEMENT_STYLES = {
+  strong: { label: 'Judges agreed', color: 'text-nav-lime' },
+  moderate: { label: 'Some disagreement', color: 'text-nav-yellow' },
+  split: { label: 'Judges split - treat this score with caution', color: 'text-nav-orange' },
+  insufficient: { label: 'Too few ballots to measure agreement', color: 'text-nav-orange' },
+} as const;
+
+/**
+ * Agreement label for the panel; with too few ballots, how many judges responded instead
+ */
+function getPanelAgreementLabel(panel: JudgePanelResult): string {
+  const agreement = getPanelAgreement(panel.spread);
+  return agreement === 'insufficient'
+    ? `${panel.ballots.length} of ${panel.panelSize} judges responded`
+    : PANEL_AGREEMENT_STYLES[agreement].label;
+}
 
 /**
  * Props for SessionSummary component
  */
 interface SessionSummaryProps {
-  analysis: DebateAnalysis;
+  analysis: Partial<DebateAnalysis>; // Partial while the analysis is still streaming in
+  transcript?: ChatMessage[]; // Source messages for the argument map
+  isStreaming?: boolean;
+  onCancel?: () => void; // Shown instead of the back button while streaming
   onBack: () => void;
 }
 
@@ -19,7 +45,7 @@ interface SessionSummaryProps {
  */
 interface MetricBarProps {
   label: string;
-  score: number; // 0-100
+  score?: number; // 0-100, not yet known while streaming
   color?: string;
   delay?: number;
 }
@@ -37,12 +63,12 @@ function MetricBar({ label, score, color = 'bg-nav-lime', delay = 0 }: MetricBar
     >
       <div className="flex justify-between items-center mb-2">
         <span className="text-gray-400 text-sm font-bold uppercase tracking-wide">{label}</span>
-        <span className="text-white text-lg font-black">{score}</span>
+        <span className="text-white text-lg font-black">{score ?? '--'}</span>
       </div>
       <div className="h-3 bg-[#111] rounded-full border border-white/10 overflow-hidden">
         <motion.div
           initial={{ width: 0 }}
-          animate={{ width: `${score}%` }}
+          animate={{ width: `${score ?? 0}%` }}
           transition={{ delay: delay + 0.2, duration: 1, ease: "easeOut" }}
           className={`h-full ${color} rounded-full`}
         />
@@ -54,7 +80,7 @@ function MetricBar({ label, score, color = 'bg-nav-lime', delay = 0 }: MetricBar
 /**
  * SessionSummary component - Displays comprehensive debate analysis
  */
-export default function SessionSummary({ analysis, onBack }: SessionSummaryProps) {
+export default function SessionSummary({ analysis, transcript = [], isStreaming = false, onCancel, onBack }: SessionSummaryProps) {
   const getScoreColor = (score: number) => {
     if (score >= 80) return { bg: 'bg-nav-lime', text: 'text-black', shadow: 'shadow-[0_0_60px_rgba(163,230,53,0.4)]' };
     if (score >= 60) return { bg: 'bg-sky-500', text: 'text-white', shadow: 'shadow-[0_0_60px_rgba(14,165,233,0.4)]' };
@@ -62,7 +88,13 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
     return { bg: 'bg-red-500', text: 'text-white', shadow: 'shadow-[0_0_60px_rgba(239,68,68,0.4)]' };
   };
 
-  const scoreStyle = getScoreColor(analysis.score);
+  // Neutral until every criterion has arrived and the overall score is known
+  const scoreStyle = analysis.score !== undefined
+    ? getScoreColor(analysis.score)
+    : { bg: 'bg-[#151515] border-2 border-white/10', text: 'text-white', shadow: '' };
+  const pending = isStreaming ? '...' : '';
+  // Criteria the rubric doesn't score stay empty; only show them as placeholders while streaming
+  const showMetric = (score?: number) => isStreaming || score !== undefined;
 
   return (
     <div className="w-full h-full overflow-y-auto p-6 md:p-12 bg-nav-black">
@@ -76,7 +108,25 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
           Battle<br/>
           <span className="text-nav-lime">Results</span>
         </h1>
-        <p className="text-gray-400 text-lg font-medium">Your performance breakdown and insights</p>
+        {isStreaming ? (
+          <div className="flex flex-wrap items-center gap-4">
+            <p className="flex items-center gap-3 text-nav-lime text-lg font-bold">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Generating Report - results appear as they are written
+            </p>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 hover:text-white text-xs font-black uppercase tracking-wide rounded-xl transition-all"
+              >
+                <X className="w-4 h-4" />
+                Cancel - Analyze Later
+              </button>
+            )}
+          </div>
+        ) : (
+          <p className="text-gray-400 text-lg font-medium">Your performance breakdown and insights</p>
+        )}
       </motion.div>
 
       {/* Grid layout for analysis display */}
@@ -134,8 +184,14 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
                   className="text-8xl font-black tracking-tighter leading-none"
                   style={{ color: scoreStyle.text === 'text-black' ? '#000' : '#fff' }}
                 >
-                  {analysis.score}
+                  {analysis.score ?? '--'}
                 </motion.div>
+                {analysis.rubricId && (
+                  <div className={`mt-2 text-xs font-black uppercase tracking-widest ${scoreStyle.text} opacity-70`}>
+                    {getRubricLabel(analysis.rubricId, analysis.rubricVersion, getCustomRubrics())} rubric
+                    {analysis.judgePanel && ` · ${analysis.judgePanel.ballots.length}-judge panel`}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -147,7 +203,7 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
                 className={`px-6 py-3 ${scoreStyle.text === 'text-black' ? 'bg-black/10' : 'bg-white/10'} rounded-xl border-2 ${scoreStyle.text === 'text-black' ? 'border-black/20' : 'border-white/20'}`}
               >
                 <div className={`text-xs font-black uppercase tracking-widest ${scoreStyle.text} opacity-70 mb-1`}>Confidence</div>
-                <div className={`text-2xl font-black ${scoreStyle.text}`}>{analysis.confidenceLevel}</div>
+                <div className={`text-2xl font-black ${scoreStyle.text}`}>{analysis.confidenceLevel ?? pending}</div>
               </motion.div>
               <motion.div
                 initial={{ opacity: 0, x: 20 }}
@@ -156,7 +212,7 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
                 className={`px-6 py-3 ${scoreStyle.text === 'text-black' ? 'bg-black/10' : 'bg-white/10'} rounded-xl border-2 ${scoreStyle.text === 'text-black' ? 'border-black/20' : 'border-white/20'}`}
               >
                 <div className={`text-xs font-black uppercase tracking-widest ${scoreStyle.text} opacity-70 mb-1`}>Archetype</div>
-                <div className={`text-xl font-black ${scoreStyle.text}`}>{analysis.archetype}</div>
+                <div className={`text-xl font-black ${scoreStyle.text}`}>{analysis.archetype ?? pending}</div>
               </motion.div>
             </div>
           </div>
@@ -179,9 +235,9 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
             <h3 className="text-2xl font-black text-white uppercase tracking-tight">Core Skills</h3>
           </div>
           <div className="space-y-3">
-            <MetricBar label="Vocabulary" score={analysis.vocabularyScore} color="bg-white" delay={1.2} />
-            <MetricBar label="Clarity" score={analysis.clarityScore} color="bg-white" delay={1.3} />
-            <MetricBar label="Argument Strength" score={analysis.argumentStrength} color="bg-white" delay={1.4} />
+            {showMetric(analysis.vocabularyScore) && <MetricBar label="Vocabulary" score={analysis.vocabularyScore} color="bg-white" delay={1.2} />}
+            {showMetric(analysis.clarityScore) && <MetricBar label="Clarity" score={analysis.clarityScore} color="bg-white" delay={1.3} />}
+            {showMetric(analysis.argumentStrength) && <MetricBar label="Argument Strength" score={analysis.argumentStrength} color="bg-white" delay={1.4} />}
           </div>
         </motion.div>
 
@@ -201,9 +257,9 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
             <h3 className="text-2xl font-black text-white uppercase tracking-tight">Advanced</h3>
           </div>
           <div className="space-y-3">
-            <MetricBar label="Persuasion" score={analysis.persuasionScore} color="bg-white" delay={1.5} />
-            <MetricBar label="Adaptability" score={analysis.strategicAdaptability} color="bg-white" delay={1.6} />
-            <MetricBar label="Argument" score={analysis.argumentStrength} color="bg-white" delay={1.7} />
+            {showMetric(analysis.persuasionScore) && <MetricBar label="Persuasion" score={analysis.persuasionScore} color="bg-white" delay={1.5} />}
+            {showMetric(analysis.strategicAdaptability) && <MetricBar label="Adaptability" score={analysis.strategicAdaptability} color="bg-white" delay={1.6} />}
+            {showMetric(analysis.argumentStrength) && <MetricBar label="Argument" score={analysis.argumentStrength} color="bg-white" delay={1.7} />}
           </div>
         </motion.div>
 
@@ -223,7 +279,7 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
             <h3 className="text-2xl font-black text-black uppercase tracking-tight">Proficiency</h3>
           </div>
           <div className="text-center py-4">
-            <div className="text-6xl font-black text-black mb-2">{analysis.englishProficiency}</div>
+            <div className="text-6xl font-black text-black mb-2">{analysis.englishProficiency ?? pending}</div>
             <div className="text-sm font-bold text-black/70 uppercase tracking-widest">English Level</div>
           </div>
         </motion.div>
@@ -266,7 +322,9 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
                     </motion.li>
                   ))
                 ) : (
-                  <li className="text-gray-400 text-sm italic">Focus on the suggestions to develop your strengths</li>
+                  <li className="text-gray-400 text-sm italic">
+                    {isStreaming ? 'Writing...' : 'Focus on the suggestions to develop your strengths'}
+                  </li>
                 )}
               </ul>
             </div>
@@ -299,13 +357,163 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
                     </motion.li>
                   ))
                 ) : (
-                  <li className="text-gray-400 text-sm italic">Keep practicing to identify areas for improvement</li>
+                  <li className="text-gray-400 text-sm italic">
+                    {isStreaming ? 'Writing...' : 'Keep practicing to identify areas for improvement'}
+                  </li>
                 )}
               </ul>
             </div>
           </div>
         </motion.div>
 
+        {/* JUDGE PANEL - each judge's ballot and how far they agreed */}
+        {analysis.judgePanel && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1.65 }}
+            className="col-span-1 md:col-span-3 bg-[#151515] border-2 border-white/10 rounded-[2rem] p-8"
+          >
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+              <div className="flex items-center gap-4">
+                <div className="w-16 h-16 bg-sky-500/20 rounded-2xl flex items-center justify-center">
+                  <Users size={32} className="text-sky-500" />
+                </div>
+                <div>
+                  <h3 className="text-3xl font-black text-white uppercase tracking-tight">Judges' Ballots</h3>
+                  <p className="text-gray-400 font-bold text-sm">
+                    {PANEL_AGGREGATION_LABELS[analysis.judgePanel.aggregation]} of {analysis.judgePanel.ballots.length} independent judges
+                    {analysis.judgePanel.spread !== null &&
+                      analysis.judgePanel.ballots.length < analysis.judgePanel.panelSize &&
+                      ` · ${analysis.judgePanel.ballots.length} of ${analysis.judgePanel.panelSize} responded`}
+                  </p>
+                </div>
+              </div>
+              <div className="md:text-right">
+                <div className="text-gray-500 text-xs font-black uppercase tracking-widest mb-1">Spread</div>
+                <div className="text-3xl font-black text-white">
+                  {analysis.judgePanel.spread === null ? '--' : `${analysis.judgePanel.spread} pts`}
+                </div>
+                <div className={`text-xs font-bold ${PANEL_AGREEMENT_STYLES[getPanelAgreement(analysis.judgePanel.spread)].color}`}>
+                  {getPanelAgreementLabel(analysis.judgePanel)}
+                </div>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {analysis.judgePanel.ballots.map(ballot => (
+                <div key={ballot.judgeId} className="bg-[#111] border border-white/10 rounded-2xl p-5">
+                  <div className="flex items-start justify-between gap-4 mb-2">
+                    <div>
+                      <div className="text-white font-black uppercase tracking-tight">{ballot.judgeName}</div>
+                      <div className="text-gray-500 text-xs font-bold">{ballot.model}</div>
+                    </div>
+                    <div className="text-3xl font-black text-white">{ballot.score}</div>
+                  </div>
+                  {ballot.verdict && <p className="text-gray-400 text-sm leading-relaxed mb-3">{ballot.verdict}</p>}
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-bold text-gray-500">
+                    {ballot.vocabularyScore !== undefined && <span>Vocab {ballot.vocabularyScore}</span>}
+                    {ballot.clarityScore !== undefined && <span>Clarity {ballot.clarityScore}</span>}
+                    {ballot.argumentStrength !== undefined && <span>Argument {ballot.argumentStrength}</span>}
+                    {ballot.persuasionScore !== undefined && <span>Persuasion {ballot.persuasionScore}</span>}
+                    {ballot.strategicAdaptability !== undefined && <span>Adapt {ballot.strategicAdaptability}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {/* PHASE SCORES - structured debate formats only */}
+        {analysis.phaseScores && analysis.phaseScores.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1.7 }}
+            className="col-span-1 md:col-span-3 bg-[#151515] border-2 border-white/10 rounded-[2rem] p-8"
+          >
+            <div className="flex items-center gap-4 mb-8">
+              <div className="w-16 h-16 bg-sky-500/20 rounded-2xl flex items-center justify-center">
+                <ListOrdered size={32} className="text-sky-500" />
+              </div>
+              <div>
+                <h3 className="text-3xl font-black text-white uppercase tracking-tight">Phase by Phase</h3>
+                <p className="text-gray-400 font-bold text-sm">How you performed in each part of the debate</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+              {analysis.phaseScores.map((phase, index) => (
+                <div key={phase.phaseId}>
+                  <MetricBar label={phase.phaseName} score={phase.score} color="bg-sky-500" delay={1.7 + index * 0.1} />
+                  <p className="text-gray-400 text-sm leading-relaxed -mt-2 mb-4">{phase.feedback}</p>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {/* PREP FEEDBACK - only when the user took prep time */}
+        {analysis.prepFeedback && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1.75 }}
+            className="col-span-1 md:col-span-3 bg-[#151515] border-2 border-white/10 rounded-[2rem] p-8"
+          >
+            <div className="flex items-center gap-4 mb-6">
+              <div className="w-16 h-16 bg-nav-yellow/20 rounded-2xl flex items-center justify-center">
+                <NotebookPen size={32} className="text-nav-yellow" />
+              </div>
+              <div>
+                <h3 className="text-3xl font-black text-white uppercase tracking-tight">Prep Review</h3>
+                <p className="text-gray-400 font-bold text-sm">How well you used your prep time</p>
+              </div>
+            </div>
+            <p className="text-gray-200 leading-relaxed">{analysis.prepFeedback}</p>
+          </motion.div>
+        )}
+
+        {/* ARGUMENT MAP - claims, rebuttals and what was left unanswered */}
+        {analysis.argumentMap && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1.75 }}
+            className="col-span-1 md:col-span-3 bg-[#151515] border-2 border-white/10 rounded-[2rem] p-8"
+          >
+            <div className="flex items-center gap-4 mb-8">
+              <div className="w-16 h-16 bg-nav-orange/20 rounded-2xl flex items-center justify-center">
+                <Network size={32} className="text-nav-orange" />
+              </div>
+              <div>
+                <h3 className="text-3xl font-black text-white uppercase tracking-tight">Argument Map</h3>
+                <p className="text-gray-400 font-bold text-sm">Every claim, how it was answered and what was left hanging</p>
+              </div>
+            </div>
+            <ArgumentMapView map={analysis.argumentMap} transcript={transcript} />
+          </motion.div>
+        )}
+
+        {/* TRANSCRIPT - fallacies highlighted where they were made */}
+        {analysis.fallacies && transcript.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1.78 }}
+            className="col-span-1 md:col-span-3 bg-[#151515] border-2 border-white/10 rounded-[2rem] p-8"
+          >
+            <div className="flex items-center gap-4 mb-8">
+              <div className="w-16 h-16 bg-red-500/20 rounded-2xl flex items-center justify-center">
+                <MessageSquareWarning size={32} className="text-red-400" />
+              </div>
+              <div>
+                <h3 className="text-3xl font-black text-white uppercase tracking-tight">Fallacy Check</h3>
+                <p className="text-gray-400 font-bold text-sm">Your transcript with logical fallacies flagged</p>
+              </div>
+            </div>
+            <AnnotatedTranscript transcript={transcript} fallacies={analysis.fallacies} />
+          </motion.div>
+        )}
+
         {/* SUGGESTIONS - Full Width Neubrutalist Card */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -359,29 +567,31 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
             <Sparkles className="w-12 h-12 text-white mx-auto mb-4" />
             <h3 className="text-2xl font-black text-white uppercase tracking-tight mb-3">Wildcard Insight</h3>
             <p className="text-white text-lg leading-relaxed italic max-w-3xl mx-auto">
-              "{analysis.wildcardInsight}"
+              {analysis.wildcardInsight ? `"${analysis.wildcardInsight}"` : pending}
             </p>
           </div>
         </motion.div>
 
         {/* Return to Dashboard Button - Neubrutalist */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 2.4 }}
-          className="md:col-span-3 flex justify-center mt-8"
-        >
-          <button
-            onClick={onBack}
-            className="group px-12 py-5 bg-sky-500 hover:bg-sky-600 text-white font-black uppercase tracking-wide rounded-xl transition-all shadow-[0_8px_0_rgb(3,105,161)] active:shadow-none active:translate-y-2 flex items-center gap-3"
+        {!isStreaming && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 2.4 }}
+            className="md:col-span-3 flex justify-center mt-8"
           >
-            <svg className="w-6 h-6 group-hover:-translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-            </svg>
-            Return to Dashboard
-            <ArrowRight className="w-6 h-6 group-hover:translate-x-1 transition-transform" />
-          </button>
-        </motion.div>
+            <button
+              onClick={onBack}
+              className="group px-12 py-5 bg-sky-500 hover:bg-sky-600 text-white font-black uppercase tracking-wide rounded-xl transition-all shadow-[0_8px_0_rgb(3,105,161)] active:shadow-none active:translate-y-2 flex items-center gap-3"
+            >
+              <svg className="w-6 h-6 group-hover:-translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+              Return to Dashboard
+              <ArrowRight className="w-6 h-6 group-hover:translate-x-1 transition-transform" />
+            </button>
+          </motion.div>
+        )}
 
       </div>
     </div>
@@ -4,7 +4,32 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Key, Cpu, BarChart3, Eye, EyeOff, Check, Shield } from 'lucide-react';
+import { Key, Cpu, BarChart3, Eye, EyeOff, Check, Shield, Server, Mic, Disc, UserCog, Gauge, Scale, Users } from 'lucide-react';
+import {
+  getAnalysisModel,
+  getAnalysisRubricId,
+  getApiKey,
+  getJudgePanelMode,
+  getLiveCoaching,
+  getLiveEndpoint,
+  getLiveModel,
+  getRecordSessions,
+  getVoiceSettings,
+  saveAnalysisModel,
+  saveAnalysisRubricId,
+  saveApiKey,
+  saveJudgePanelMode,
+  saveLiveCoaching,
+  saveLiveEndpoint,
+  saveLiveModel,
+  saveRecordSessions,
+  saveVoiceSettings,
+} from '../services/storageService';
+import type { VoiceSettings } from '../utils/voiceActivity';
+import type { JudgePanelMode } from '../types';
+import { JUDGE_PANEL } from '../services/judgePanel';
+import OpponentPersonaEditor from './OpponentPersonaEditor';
+import AnalysisRubricPicker from './AnalysisRubricPicker';
 
 interface SettingsProps {
   onBack: () => void;
@@ -94,23 +119,58 @@ function ModelSelector({
   );
 }
 
+function ToggleRow({
+  label,
+  description,
+  checked,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      onClick={() => onChange(!checked)}
+      className="w-full flex items-center justify-between gap-4 p-4 bg-[#111] border border-white/10 rounded-2xl hover:border-white/30 transition-colors text-left"
+    >
+      <div className="flex flex-col gap-1">
+        <span className="font-bold uppercase tracking-wide text-white text-sm">{label}</span>
+        <span className="text-xs text-gray-500">{description}</span>
+      </div>
+      <div className={`relative w-12 h-6 rounded-full transition shrink-0 ${checked ? 'bg-nav-lime' : 'bg-white/10'}`}>
+        <div className={`absolute top-1 w-4 h-4 rounded-full transition-all ${checked ? 'right-1 bg-black' : 'left-1 bg-gray-400'}`} />
+      </div>
+    </button>
+  );
+}
+
 export default function Settings({ onBack }: SettingsProps) {
   const [apiKey, setApiKey] = useState('');
   const [liveModel, setLiveModel] = useState('gemini-2.5-flash-native-audio-preview-12-2025');
   const [analysisModel, setAnalysisModel] = useState('gemini-2.5-flash');
+  const [liveEndpoint, setLiveEndpoint] = useState('');
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(() => getVoiceSettings());
+  const [recordSessions, setRecordSessions] = useState<boolean>(() => getRecordSessions());
+  const [liveCoaching, setLiveCoaching] = useState<boolean>(() => getLiveCoaching());
+  const [rubricId, setRubricId] = useState<string>(() => getAnalysisRubricId());
+  const [judgePanelMode, setJudgePanelMode] = useState<JudgePanelMode>(() => getJudgePanelMode());
   const [showApiKey, setShowApiKey] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [apiConnected, setApiConnected] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
 
   useEffect(() => {
-    const savedApiKey = localStorage.getItem('mindmelee_api_key') || '';
-    const savedLiveModel = localStorage.getItem('mindmelee_live_model') || 'gemini-2.5-flash-native-audio-preview-12-2025';
-    const savedAnalysisModel = localStorage.getItem('mindmelee_analysis_model') || 'gemini-2.5-flash';
+    const savedApiKey = getApiKey();
+    const savedLiveModel = getLiveModel() || 'gemini-2.5-flash-native-audio-preview-12-2025';
+    const savedAnalysisModel = getAnalysisModel() || 'gemini-2.5-flash';
+    const savedLiveEndpoint = getLiveEndpoint();
 
     setApiKey(savedApiKey);
     setLiveModel(savedLiveModel);
     setAnalysisModel(savedAnalysisModel);
+    setLiveEndpoint(savedLiveEndpoint);
 
     // Check if API is connected on mount
     if (savedApiKey) {
@@ -141,13 +201,32 @@ export default function Settings({ onBack }: SettingsProps) {
     }
   };
 
+  const updateVoiceSettings = (changes: Partial<VoiceSettings>) => {
+    setVoiceSettings(prev => ({ ...prev, ...changes }));
+  };
+
   const handleSave = async () => {
+    // Voice, recording, coaching and scoring settings are local-only and don't depend on the API key check
+    saveVoiceSettings(voiceSettings);
+    saveRecordSessions(recordSessions);
+    saveLiveCoaching(liveCoaching);
+    saveAnalysisRubricId(rubricId);
+    saveJudgePanelMode(judgePanelMode);
+
     if (!apiKey.trim()) {
       setSaveStatus('error');
       setErrorMessage('API key is required');
       return;
     }
 
+    const endpoint = liveEndpoint.trim();
+    if (endpoint && !/^wss?:\/\//.test(endpoint)) {
+      setSaveStatus('error');
+      setErrorMessage('Live endpoint must start with ws:// or wss://');
+      setTimeout(() => setSaveStatus('idle'), 3000);
+      return;
+    }
+
     setSaveStatus('saving');
     setErrorMessage('');
 
@@ -155,9 +234,10 @@ export default function Settings({ onBack }: SettingsProps) {
     const isValid = await testApiConnection(apiKey);
 
     if (isValid) {
-      localStorage.setItem('mindmelee_api_key', apiKey);
-      localStorage.setItem('mindmelee_live_model', liveModel);
-      localStorage.setItem('mindmelee_analysis_model', analysisModel);
+      saveApiKey(apiKey);
+      saveLiveModel(liveModel);
+      saveAnalysisModel(analysisModel);
+      saveLiveEndpoint(endpoint);
 
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
@@ -289,6 +369,23 @@ export default function Settings({ onBack }: SettingsProps) {
             </div>
           </div>
 
+          {/* Live Endpoint */}
+          <div className="group relative">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-nav-yellow mb-4">
+              <Server size={12} /> Live Endpoint (Optional)
+            </label>
+            <input
+              type="text"
+              value={liveEndpoint}
+              onChange={(e) => setLiveEndpoint(e.target.value)}
+              placeholder="wss://your-proxy.example.com/live"
+              className="w-full bg-[#111] border border-white/10 rounded-2xl px-6 py-4 text-white font-mono text-sm focus:outline-none focus:border-sky-500 transition-colors"
+            />
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              Route live sessions through a self-hosted proxy or a local stand-in server. Leave empty to connect directly to Google.
+            </p>
+          </div>
+
           {/* Analysis Model */}
           <div className="group relative">
             <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-sky-500 mb-4">
@@ -307,6 +404,172 @@ export default function Settings({ onBack }: SettingsProps) {
             </div>
           </div>
 
+          {/* Scoring Rubric */}
+          <div className="group relative">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-sky-500 mb-4">
+              <Scale size={12} /> Scoring Rubric
+            </label>
+            <div className="bg-[#111] border border-white/10 p-6 rounded-[2rem] hover:border-white/30 transition-colors relative space-y-3">
+              <div className="absolute top-0 left-0 bottom-0 w-2 bg-sky-500 rounded-l-[2rem]" />
+              <AnalysisRubricPicker selectedId={rubricId} onSelect={setRubricId} />
+              <p className="text-xs text-gray-500 leading-relaxed">
+                Each session remembers the rubric it was scored under. Scores from different rubrics aren't directly comparable. Export a rubric to use it as a template, then import your edited copy; bump its version whenever you change it.
+              </p>
+            </div>
+          </div>
+
+          {/* Judge Panel */}
+          <div className="group relative">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-sky-500 mb-4">
+              <Users size={12} /> Judging
+            </label>
+            <div className="bg-[#111] border border-white/10 p-6 rounded-[2rem] hover:border-white/30 transition-colors relative space-y-3">
+              <div className="absolute top-0 left-0 bottom-0 w-2 bg-sky-500 rounded-l-[2rem]" />
+              {([
+                { value: 'off', name: 'Single Judge', description: 'One analysis request per debate. Fastest.' },
+                { value: 'median', name: 'Panel - Median', description: `${JUDGE_PANEL.length} independent judges; each criterion takes the middle score.` },
+                { value: 'trimmedMean', name: 'Panel - Trimmed Mean', description: `${JUDGE_PANEL.length} independent judges; each criterion averages the scores after dropping the highest and lowest.` },
+              ] as { value: JudgePanelMode; name: string; description: string }[]).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setJudgePanelMode(option.value)}
+                  className={`w-full flex items-center justify-between gap-4 p-4 rounded-2xl border text-left transition-colors ${
+                    judgePanelMode === option.value
+                      ? 'bg-sky-500/10 border-sky-500'
+                      : 'bg-[#111] border-white/10 hover:border-white/30'
+                  }`}
+                >
+                  <div className="flex flex-col gap-1">
+                    <span className="font-bold uppercase tracking-wide text-white text-sm">{option.name}</span>
+                    <span className="text-xs text-gray-500">{option.description}</span>
+                  </div>
+                  {judgePanelMode === option.value && <Check size={16} className="text-sky-500 shrink-0" />}
+                </button>
+              ))}
+              <p className="text-xs text-gray-500 leading-relaxed">
+                A panel takes longer and uses {JUDGE_PANEL.length}x the analysis requests, but shows every judge's ballot and how much they disagreed.
+              </p>
+            </div>
+          </div>
+
+          {/* Voice Detection */}
+          <div className="group relative">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-nav-lime mb-4">
+              <Mic size={12} /> Voice Detection
+            </label>
+            <div className="bg-[#111] border border-white/10 p-6 rounded-[2rem] hover:border-white/30 transition-colors relative space-y-4">
+              <div className="absolute top-0 left-0 bottom-0 w-2 bg-nav-lime rounded-l-[2rem]" />
+              <ToggleRow
+                label="Voice Activity Detection"
+                description="Only send audio while you are speaking. Saves bandwidth and ignores background noise."
+                checked={voiceSettings.vadEnabled}
+                onChange={(checked) => updateVoiceSettings({ vadEnabled: checked })}
+              />
+              <ToggleRow
+                label="Push-to-Talk"
+                description="Hold the spacebar to speak. Best for noisy environments; overrides voice detection."
+                checked={voiceSettings.pushToTalk}
+                onChange={(checked) => updateVoiceSettings({ pushToTalk: checked })}
+              />
+
+              {voiceSettings.vadEnabled && !voiceSettings.pushToTalk && (
+                <div className="space-y-4 pt-2">
+                  <div>
+                    <div className="flex justify-between mb-2">
+                      <span className="text-gray-400 text-xs font-black uppercase tracking-wider">Speech Threshold</span>
+                      <span className="text-nav-lime font-black text-sm">{voiceSettings.energyThreshold.toFixed(3)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.005"
+                      max="0.06"
+                      step="0.001"
+                      value={voiceSettings.energyThreshold}
+                      onChange={(e) => updateVoiceSettings({ energyThreshold: Number(e.target.value) })}
+                      className="w-full h-2 bg-black/50 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-nav-lime"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Raise it if background noise is picked up as speech.</p>
+                  </div>
+                  <div>
+                    <div className="flex justify-between mb-2">
+                      <span className="text-gray-400 text-xs font-black uppercase tracking-wider">Noise Rejection</span>
+                      <span className="text-nav-lime font-black text-sm">{voiceSettings.maxZeroCrossingRate.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="0.6"
+                      step="0.01"
+                      value={voiceSettings.maxZeroCrossingRate}
+                      onChange={(e) => updateVoiceSettings({ maxZeroCrossingRate: Number(e.target.value) })}
+                      className="w-full h-2 bg-black/50 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-nav-lime"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Lower it to reject hiss and fan noise (maximum zero-crossing rate).</p>
+                  </div>
+                  <div>
+                    <div className="flex justify-between mb-2">
+                      <span className="text-gray-400 text-xs font-black uppercase tracking-wider">Hangover</span>
+                      <span className="text-nav-lime font-black text-sm">{voiceSettings.hangoverMs} ms</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="200"
+                      max="2000"
+                      step="50"
+                      value={voiceSettings.hangoverMs}
+                      onChange={(e) => updateVoiceSettings({ hangoverMs: Number(e.target.value) })}
+                      className="w-full h-2 bg-black/50 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-nav-lime"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">How long a pause can last before your turn is considered over.</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Recording */}
+          <div className="group relative">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-nav-lime mb-4">
+              <Disc size={12} /> Recording
+            </label>
+            <div className="bg-[#111] border border-white/10 p-6 rounded-[2rem] hover:border-white/30 transition-colors relative">
+              <div className="absolute top-0 left-0 bottom-0 w-2 bg-nav-lime rounded-l-[2rem]" />
+              <ToggleRow
+                label="Record Sessions"
+                description="Save the audio of both sides on this device so it can be downloaded as WAV from your session history."
+                checked={recordSessions}
+                onChange={setRecordSessions}
+              />
+            </div>
+          </div>
+
+          {/* Live Coaching */}
+          <div className="group relative">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-nav-lime mb-4">
+              <Gauge size={12} /> Live Coaching
+            </label>
+            <div className="bg-[#111] border border-white/10 p-6 rounded-[2rem] hover:border-white/30 transition-colors relative">
+              <div className="absolute top-0 left-0 bottom-0 w-2 bg-nav-lime rounded-l-[2rem]" />
+              <ToggleRow
+                label="Coaching Overlay"
+                description="Show your speaking pace, fillers and talk share during voice debates. Supportive opponents also give gentle tips."
+                checked={liveCoaching}
+                onChange={setLiveCoaching}
+              />
+            </div>
+          </div>
+
+          {/* Custom Opponents - saved immediately, independent of the save button */}
+          <div className="group relative">
+            <label className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-nav-lime mb-4">
+              <UserCog size={12} /> Custom Opponents
+            </label>
+            <div className="bg-[#111] border border-white/10 p-6 rounded-[2rem] hover:border-white/30 transition-colors relative">
+              <div className="absolute top-0 left-0 bottom-0 w-2 bg-nav-lime rounded-l-[2rem]" />
+              <OpponentPersonaEditor />
+            </div>
+          </div>
+
           {/* Save Button */}
           <div className="pt-8 border-t border-white/10">
             <button
@@ -0,0 +1,80 @@
+/**
+ * SideBreakdownCard component - Compares results when arguing for vs against the motion
+ */
+
+import { useMemo } from 'react';
+import { SessionHistoryItem } from '../types';
+import { calculateSideBreakdown, WIN_SCORE_THRESHOLD } from '../utils/statisticsUtils';
+
+interface SideBreakdownCardProps {
+  sessions: SessionHistoryItem[];
+}
+
+const SIDE_LABELS = {
+  proposition: { title: 'For the Motion', subtitle: 'Proposition', bar: 'bg-sky-500', text: 'text-sky-500' },
+  opposition: { title: 'Against the Motion', subtitle: 'Opposition', bar: 'bg-nav-orange', text: 'text-nav-orange' },
+} as const;
+
+export default function SideBreakdownCard({ sessions }: SideBreakdownCardProps) {
+  const breakdown = useMemo(() => calculateSideBreakdown(sessions), [sessions]);
+  const hasSideData = breakdown.some(side => side.sessions > 0);
+
+  return (
+    <div className="group relative bg-[#111] border border-white/10 rounded-[2.5rem] p-1 overflow-hidden hover:border-white/20 transition-colors">
+      <div className="bg-[#151515] rounded-[2.3rem] p-6 md:p-8 h-full relative z-10">
+        <div className="flex flex-wrap items-end justify-between gap-2 mb-6">
+          <h3 className="text-white text-xl font-black uppercase tracking-tight">Results by Side</h3>
+          <span className="text-[10px] text-gray-500 font-black uppercase tracking-widest">
+            Win = score {WIN_SCORE_THRESHOLD}+
+          </span>
+        </div>
+
+        {!hasSideData ? (
+          <div className="text-center py-8">
+            <p className="text-gray-400 text-sm">Pick a side when starting a debate to see your results by side</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {breakdown.map(result => {
+              const labels = SIDE_LABELS[result.side];
+              return (
+                <div key={result.side} className="bg-[#111] border border-white/10 rounded-2xl p-5">
+                  <p className={`text-[10px] font-black uppercase tracking-widest ${labels.text}`}>{labels.subtitle}</p>
+                  <h4 className="text-white text-lg font-black uppercase tracking-tight mb-4">{labels.title}</h4>
+
+                  {result.sessions === 0 ? (
+                    <p className="text-gray-500 text-sm">No sessions on this side yet</p>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-3 gap-3 mb-4">
+                        <div>
+                          <p className="text-gray-500 text-[10px] font-black uppercase tracking-widest mb-1">Sessions</p>
+                          <p className="text-white text-2xl font-black">{result.sessions}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500 text-[10px] font-black uppercase tracking-widest mb-1">Avg Score</p>
+                          <p className="text-white text-2xl font-black">{result.averageScore}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500 text-[10px] font-black uppercase tracking-widest mb-1">Wins</p>
+                          <p className="text-white text-2xl font-black">{result.wins}</p>
+                        </div>
+                      </div>
+                      <div className="flex justify-between mb-2">
+                        <span className="text-gray-400 text-xs font-black uppercase tracking-wider">Win Rate</span>
+                        <span className={`font-black text-sm ${labels.text}`}>{result.winRate}%</span>
+                      </div>
+                      <div className="h-3 bg-black/50 rounded-full border border-white/10 overflow-hidden">
+                        <div className={`h-full ${labels.bar} rounded-full`} style={{ width: `${result.winRate}%` }} />
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * StorageWarningBanner component - Tells the user when changes could not be
+ * saved, e.g. because browser storage is full
+ */
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import {
+  type StorageWarning,
+  dismissStorageWarning,
+  getStorageUsage,
+  getStorageWarning,
+  subscribeToStorageWarning,
+} from '../services/storageBackend';
+
+const WARNING_TITLES: Record<StorageWarning['kind'], string> = {
+  quota: 'Storage Full',
+  outdated: 'MindMelee Updated',
+  blocked: 'Close Other Tabs',
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function StorageWarningBanner() {
+  const [warning, setWarning] = useState<StorageWarning | null>(getStorageWarning);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+
+  useEffect(() => subscribeToStorageWarning(setWarning), []);
+
+  useEffect(() => {
+    if (warning?.kind === 'quota') {
+      void getStorageUsage().then(setUsage);
+    }
+  }, [warning]);
+
+  if (!warning) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-6 right-6 z-50 max-w-md bg-[#151515] border-2 border-amber-400/50 rounded-2xl p-5 shadow-2xl flex gap-4"
+    >
+      <div className="w-10 h-10 shrink-0 bg-amber-400/10 rounded-xl flex items-center justify-center">
+        <AlertTriangle className="w-5 h-5 text-amber-400" />
+      </div>
+      <div className="flex-1">
+        <h3 className="text-white font-black text-sm uppercase tracking-wide mb-1">{WARNING_TITLES[warning.kind]}</h3>
+        <p className="text-gray-400 text-sm leading-relaxed">{warning.message}</p>
+        {warning.kind === 'quota' && usage && (
+          <p className="text-gray-500 text-xs mt-2">
+            Using {formatMegabytes(usage.usage)} of {formatMegabytes(usage.quota)}
+          </p>
+        )}
+      </div>
+      <button
+        onClick={dismissStorageWarning}
+        aria-label="Dismiss storage warning"
+        className="self-start text-gray-500 hover:text-white transition-colors"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
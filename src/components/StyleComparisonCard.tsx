@@ -0,0 +1,59 @@
+/**
+ * StyleComparisonCard component - Compares performance across AI opponent styles
+ */
+
+import { useMemo } from 'react';
+import { SessionHistoryItem } from '../types';
+import { calculateStyleBreakdown } from '../utils/statisticsUtils';
+import { getDebateStyle } from '../services/debateStyles';
+
+interface StyleComparisonCardProps {
+  sessions: SessionHistoryItem[];
+}
+
+export default function StyleComparisonCard({ sessions }: StyleComparisonCardProps) {
+  const breakdown = useMemo(() => calculateStyleBreakdown(sessions), [sessions]);
+
+  return (
+    <div className="group relative bg-[#111] border border-white/10 rounded-[2.5rem] p-1 overflow-hidden hover:border-white/20 transition-colors">
+      <div className="bg-[#151515] rounded-[2.3rem] p-6 md:p-8 h-full relative z-10">
+        <h3 className="text-white text-xl font-black mb-6 uppercase tracking-tight">Performance by Opponent</h3>
+
+        {breakdown.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-400 text-sm">No opponent style data available yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {breakdown.map(result => {
+              const definition = getDebateStyle(result.style);
+              return (
+                <div key={result.style}>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`px-3 py-1 rounded-lg border-2 border-black text-[10px] font-black uppercase tracking-wider text-black ${definition.badgeClass}`}
+                      >
+                        {definition.label}
+                      </span>
+                      <span className="text-gray-500 text-xs font-bold">
+                        {result.sessions} {result.sessions === 1 ? 'session' : 'sessions'} · best {result.bestScore}
+                      </span>
+                    </div>
+                    <span className="text-white text-lg font-black">{result.averageScore}</span>
+                  </div>
+                  <div className="h-3 bg-black/50 rounded-full border border-white/10 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${definition.badgeClass}`}
+                      style={{ width: `${result.averageScore}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
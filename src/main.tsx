@@ -1,7 +1,18 @@
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { initStorage } from './services/storageService'
 
-createRoot(document.getElementById('root')!).render(
-  <App />
+const root = createRoot(document.getElementById('root')!)
+
+// Saved data is loaded into memory (and migrated if needed) before the app renders
+root.render(
+  <div className="min-h-screen bg-[#111111] flex items-center justify-center">
+    <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-lime-400"></div>
+  </div>
 )
+void initStorage().then(() => {
+  root.render(
+    <App />
+  )
+})
@@ -0,0 +1,123 @@
+/**
+ * Analysis queue - re-runs analysis for sessions already in history
+ *
+ * Sessions whose analysis failed even after retries are saved unscored and
+ * queued with their debate config. The queue is retried automatically when
+ * the app starts and on demand from the session list. Analyzed sessions can
+ * also be re-analyzed with the current model and rubric; earlier versions
+ * are kept on the session.
+ */
+
+import type { AnalysisConfig, SessionHistoryItem } from '../types';
+import { analyzeDebate, createAnalysisClient, mineArguments } from './analysisService';
+import {
+  completePendingAnalysis,
+  getHistory,
+  getOpponentPersonas,
+  getPendingAnalyses,
+  recordPendingAnalysisFailure,
+  saveSessionReanalysis,
+} from './storageService';
+
+/** Automatic retries stop after this many failures; the user can still retry by hand */
+const MAX_AUTOMATIC_ATTEMPTS = 5;
+
+// Sessions being analyzed right now, so automatic and manual retries don't overlap
+const inFlight = new Set<string>();
+
+/**
+ * Analyze one pending session and store the result
+ * @returns The updated history item, or null if analysis failed again
+ */
+export async function runPendingAnalysis(sessionId: string): Promise<SessionHistoryItem | null> {
+  const entry = getPendingAnalyses().find((pending) => pending.sessionId === sessionId);
+  const session = getHistory().find((item) => item.id === sessionId);
+  if (!entry || !session || inFlight.has(sessionId)) {
+    return null;
+  }
+
+  const transcript = session.transcript ?? [];
+  inFlight.add(sessionId);
+  try {
+    const ai = createAnalysisClient();
+    const [analysis, argumentMap] = await Promise.all([
+      analyzeDebate(ai, transcript, entry.config),
+      mineArguments(ai, transcript, entry.config),
+    ]);
+    if (!analysis) {
+      recordPendingAnalysisFailure(sessionId, 'Not enough participation to analyze');
+      return null;
+    }
+    return completePendingAnalysis(sessionId, argumentMap ? { ...analysis, argumentMap } : analysis);
+  } catch (error) {
+    console.error('Pending analysis failed:', error);
+    recordPendingAnalysisFailure(sessionId, error instanceof Error ? error.message : 'Analysis failed');
+    return null;
+  } finally {
+    inFlight.delete(sessionId);
+  }
+}
+
+/**
+ * Retry every queued session that hasn't used up its automatic attempts, one at a time
+ * @param onCompleted - Called as each session is analyzed, so shown history can be refreshed
+ * @returns The sessions that were analyzed
+ */
+export async function processPendingAnalyses(
+  onCompleted?: (session: SessionHistoryItem) => void
+): Promise<SessionHistoryItem[]> {
+  const completed: SessionHistoryItem[] = [];
+  for (const entry of getPendingAnalyses()) {
+    if (entry.attempts >= MAX_AUTOMATIC_ATTEMPTS) continue;
+    const updated = await runPendingAnalysis(entry.sessionId);
+    if (updated) {
+      completed.push(updated);
+      onCompleted?.(updated);
+    }
+  }
+  return completed;
+}
+
+/**
+ * Rebuild what analysis needs to know about a past session from its history item
+ */
+export function getSessionAnalysisConfig(session: SessionHistoryItem): AnalysisConfig {
+  return {
+    topic: session.topic,
+    style: session.style,
+    formatId: session.formatId,
+    side: session.side,
+    // Use the persona if it still exists; older sessions only stored its name
+    opponentPersona: session.opponentPersonaId
+      ? getOpponentPersonas().find((persona) => persona.id === session.opponentPersonaId)
+      : session.opponentName
+        ? getOpponentPersonas().find((persona) => persona.name === session.opponentName)
+        : undefined,
+    difficulty: session.difficultyIntensity !== undefined ? { intensity: session.difficultyIntensity } : undefined,
+    inputMode: session.inputMode,
+    prepSeconds: session.prepSeconds,
+    prepNotes: session.prepNotes,
+  };
+}
+
+/**
+ * Re-analyze a scored session with the model and rubric currently selected in Settings
+ * @returns The updated history item, or null if it has no transcript or analysis failed
+ */
+export async function reanalyzeSession(sessionId: string): Promise<SessionHistoryItem | null> {
+  const session = getHistory().find((item) => item.id === sessionId);
+  if (!session?.transcript?.length || session.analysisStatus === 'pending' || inFlight.has(sessionId)) {
+    return null;
+  }
+
+  inFlight.add(sessionId);
+  try {
+    const analysis = await analyzeDebate(createAnalysisClient(), session.transcript, getSessionAnalysisConfig(session));
+    return analysis ? saveSessionReanalysis(sessionId, analysis) : null;
+  } catch (error) {
+    console.error('Re-analysis failed:', error);
+    return null;
+  } finally {
+    inFlight.delete(sessionId);
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Analysis rubrics - versioned scoring definitions for post-session analysis
+ *
+ * A rubric is compiled into both the analysis prompt and its responseSchema.
+ * The judge scores each criterion against its anchors and the overall score
+ * is the weighted average, computed here rather than by the model. Sessions
+ * store the rubric id and version they were scored under.
+ */
+
+import type { AnalysisRubric, DebateAnalysis, RubricCriterionKey } from '../types';
+
+export const DEFAULT_RUBRIC_ID = 'standard';
+
+/**
+ * Built-in rubrics
+ */
+export const ANALYSIS_RUBRICS: AnalysisRubric[] = [
+  {
+    id: DEFAULT_RUBRIC_ID,
+    version: 1,
+    name: 'Standard',
+    description: 'Encouraging scoring that rewards effort and engagement. Best while you are building the habit.',
+    guidance: [
+      'Be fair and balanced: recognize effort and engagement while giving constructive feedback.',
+      'Anyone who participates and engages with the debate should score at least 40 on every criterion.',
+      'If the user is clearly trying to debate and responding to the opponent, do not go below 35. Reserve lower scores for minimal participation or completely off-topic responses.',
+      'Judge both the user\'s speaking level and whether they got their point across to the opponent.',
+      'Be generous: someone participating and trying to debate deserves the 50-70 range.',
+    ],
+    criteria: [
+      {
+        key: 'vocabularyScore',
+        label: 'Vocabulary',
+        description: 'Range and precision of the words the user chose.',
+        weight: 0.2,
+        bands: [
+          { min: 0, max: 39, anchor: 'Barely any language to judge' },
+          { min: 40, max: 59, anchor: 'Basic conversational vocabulary' },
+          { min: 60, max: 79, anchor: 'Good vocabulary' },
+          { min: 80, max: 100, anchor: 'Advanced, precise vocabulary' },
+        ],
+      },
+      {
+        key: 'clarityScore',
+        label: 'Clarity',
+        description: 'How easy the user\'s points were to follow.',
+        weight: 0.2,
+        bands: [
+          { min: 0, max: 49, anchor: 'Hard to follow' },
+          { min: 50, max: 69, anchor: 'Understandable' },
+          { min: 70, max: 84, anchor: 'Clear communication' },
+          { min: 85, max: 100, anchor: 'Excellent clarity' },
+        ],
+      },
+      {
+        key: 'argumentStrength',
+        label: 'Argument Strength',
+        description: 'Reasoning and support behind the user\'s claims.',
+        weight: 0.2,
+        bands: [
+          { min: 0, max: 44, anchor: 'No real argument made' },
+          { min: 45, max: 64, anchor: 'Basic arguments' },
+          { min: 65, max: 79, anchor: 'Solid reasoning' },
+          { min: 80, max: 100, anchor: 'Exceptional arguments' },
+        ],
+      },
+      {
+        key: 'persuasionScore',
+        label: 'Persuasion',
+        description: 'How convincing the user was overall.',
+        weight: 0.2,
+        bands: [
+          { min: 0, max: 44, anchor: 'Little engagement' },
+          { min: 45, max: 64, anchor: 'Engaged participation' },
+          { min: 65, max: 79, anchor: 'Convincing delivery' },
+          { min: 80, max: 100, anchor: 'Compelling' },
+        ],
+      },
+      {
+        key: 'strategicAdaptability',
+        label: 'Adaptability',
+        description: 'How well the user responded to the opponent\'s moves.',
+        weight: 0.2,
+        bands: [
+          { min: 0, max: 44, anchor: 'Ignored the opponent' },
+          { min: 45, max: 64, anchor: 'Responsive dialogue' },
+          { min: 65, max: 79, anchor: 'Good adaptation' },
+          { min: 80, max: 100, anchor: 'Excellent adaptation' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'strict',
+    version: 1,
+    name: 'Strict',
+    description: 'Competition-style judging weighted towards reasoning and rebuttal. For experienced debaters.',
+    guidance: [
+      'Score only what the transcript demonstrates. Participation and effort earn nothing on their own.',
+      'A competent but unremarkable debater scores around 50. Reserve 85+ for performance you would expect from a trained competitive debater.',
+      'Unsupported claims, dropped opponent arguments and fallacies should each pull the relevant criterion down.',
+      'Keep every score on the same absolute scale regardless of the opponent or the user\'s English level.',
+    ],
+    criteria: [
+      {
+        key: 'argumentStrength',
+        label: 'Argument Strength',
+        description: 'Logical structure, evidence and impact of the user\'s case.',
+        weight: 0.3,
+        bands: [
+          { min: 0, max: 29, anchor: 'Assertions with no reasoning' },
+          { min: 30, max: 49, anchor: 'Reasoning with gaps or unsupported claims' },
+          { min: 50, max: 69, anchor: 'Sound reasoning with some evidence' },
+          { min: 70, max: 84, anchor: 'Well-evidenced arguments with clear impact' },
+          { min: 85, max: 100, anchor: 'Airtight case that pre-empts counter-arguments' },
+        ],
+      },
+      {
+        key: 'strategicAdaptability',
+        label: 'Rebuttal & Adaptability',
+        description: 'Whether the user engaged with and answered the opponent\'s strongest points.',
+        weight: 0.25,
+        bands: [
+          { min: 0, max: 29, anchor: 'Ignored the opponent\'s arguments' },
+          { min: 30, max: 49, anchor: 'Answered only the weakest points' },
+          { min: 50, max: 69, anchor: 'Answered the main points directly' },
+          { min: 70, max: 84, anchor: 'Turned the opponent\'s arguments against them' },
+          { min: 85, max: 100, anchor: 'Controlled the debate and left nothing unanswered' },
+        ],
+      },
+      {
+        key: 'persuasionScore',
+        label: 'Persuasion',
+        description: 'Whether a neutral judge would be moved to the user\'s side.',
+        weight: 0.2,
+        bands: [
+          { min: 0, max: 29, anchor: 'Unconvincing' },
+          { min: 30, max: 49, anchor: 'Occasionally convincing' },
+          { min: 50, max: 69, anchor: 'Convincing on the main points' },
+          { min: 70, max: 84, anchor: 'Clearly won the exchange' },
+          { min: 85, max: 100, anchor: 'Decisive win' },
+        ],
+      },
+      {
+        key: 'clarityScore',
+        label: 'Clarity',
+        description: 'Structure and signposting of the user\'s turns.',
+        weight: 0.15,
+        bands: [
+          { min: 0, max: 29, anchor: 'Hard to follow' },
+          { min: 30, max: 49, anchor: 'Followable but rambling' },
+          { min: 50, max: 69, anchor: 'Clear points' },
+          { min: 70, max: 84, anchor: 'Well structured and signposted' },
+          { min: 85, max: 100, anchor: 'Crisp and memorable' },
+        ],
+      },
+      {
+        key: 'vocabularyScore',
+        label: 'Vocabulary',
+        description: 'Precision of language, not just its range.',
+        weight: 0.1,
+        bands: [
+          { min: 0, max: 29, anchor: 'Too limited to express the argument' },
+          { min: 30, max: 49, anchor: 'Basic and imprecise' },
+          { min: 50, max: 69, anchor: 'Adequate and mostly precise' },
+          { min: 70, max: 84, anchor: 'Precise and varied' },
+          { min: 85, max: 100, anchor: 'Exact, persuasive word choice' },
+        ],
+      },
+    ],
+  },
+];
+
+/**
+ * Find a rubric by id, falling back to the standard rubric
+ * @param customRubrics - The user's imported rubrics, searched after the built-in ones
+ */
+export function getAnalysisRubric(rubricId?: string, customRubrics: AnalysisRubric[] = []): AnalysisRubric {
+  return (
+    [...ANALYSIS_RUBRICS, ...customRubrics].find(rubric => rubric.id === rubricId) ??
+    ANALYSIS_RUBRICS.find(rubric => rubric.id === DEFAULT_RUBRIC_ID)!
+  );
+}
+
+/**
+ * Display label for the rubric a session was scored under, e.g. "Strict v1"
+ * @returns null for sessions scored before rubrics were versioned
+ */
+export function getRubricLabel(
+  rubricId?: string,
+  rubricVersion?: number,
+  customRubrics: AnalysisRubric[] = []
+): string | null {
+  if (!rubricId) return null;
+  const name = [...ANALYSIS_RUBRICS, ...customRubrics].find(rubric => rubric.id === rubricId)?.name ?? rubricId;
+  return rubricVersion ? `${name} v${rubricVersion}` : name;
+}
+
+/**
+ * Scoring section of the analysis prompt
+ */
+export function compileRubricPrompt(rubric: AnalysisRubric): string {
+  const criteria = rubric.criteria
+    .map(criterion => {
+      const bands = criterion.bands.map(band => `   - ${band.min}-${band.max}: ${band.anchor}`).join('\n');
+      return `- **${criterion.label}** (${criterion.key}, ${Math.round(criterion.weight * 100)}% of the overall score): ${criterion.description}\n${bands}`;
+    })
+    .join('\n');
+
+  return `SCORING RUBRIC: ${rubric.name} v${rubric.version}
+${rubric.guidance.map(rule => `- ${rule}`).join('\n')}
+
+Score each criterion 0-100, picking the band whose anchor best matches the user's performance:
+${criteria}
+
+The overall score is calculated from these criteria, so score each one on its own evidence.`;
+}
+
+/**
+ * responseSchema properties for the rubric's criteria
+ */
+export function compileRubricSchema(rubric: AnalysisRubric): {
+  properties: Record<string, { type: 'number'; description: string }>;
+  required: RubricCriterionKey[];
+} {
+  const properties = Object.fromEntries(
+    rubric.criteria.map(criterion => [
+      criterion.key,
+      { type: 'number' as const, description: `${criterion.label}, 0-100 per the ${rubric.name} rubric anchors` },
+    ])
+  );
+  return { properties, required: rubric.criteria.map(criterion => criterion.key) };
+}
+
+/**
+ * Overall 0-100 score: the weighted average of the criterion scores (missing ones count as 0)
+ */
+export function computeRubricScore(rubric: AnalysisRubric, scores: Partial<Pick<DebateAnalysis, RubricCriterionKey>>): number {
+  const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight <= 0) return 0;
+  const weighted = rubric.criteria.reduce((sum, criterion) => {
+    const score = Math.min(100, Math.max(0, Number(scores[criterion.key]) || 0));
+    return sum + score * criterion.weight;
+  }, 0);
+  return Math.round(weighted / totalWeight);
+}
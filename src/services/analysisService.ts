@@ -0,0 +1,472 @@
+/**
+ * Analysis service - post-session analysis and argument mining
+ *
+ * Runs on the analysis model (not the live model), so it works both straight
+ * after a live session and later from history, e.g. for sessions whose
+ * analysis is still pending.
+ */
+
+import { GoogleGenAI, type GenerateContentParameters } from '@google/genai';
+import type { AnalysisConfig, ArgumentMap, ChatMessage, DebateAnalysis, JudgeDefinition } from '../types';
+import { getDebateFormat } from './debateFormats';
+import { getDebateStyle } from './debateStyles';
+import { FALLACY_LIST, getFallacy } from './fallacies';
+import { compileRubricPrompt, compileRubricSchema, computeRubricScore, getAnalysisRubric } from './analysisRubrics';
+import { combineJudgeAnalyses, JUDGE_PANEL } from './judgePanel';
+import { getAnalysisModel, getAnalysisRubricId, getApiKey, getCustomRubrics, getJudgePanelMode } from './storageService';
+import { type RawArgumentUnit, normalizeArgumentMap } from '../utils/argumentMapUtils';
+import { readPartialAnalysis, validateDebateAnalysis } from '../utils/analysisValidation';
+import { parsePartialJson } from '../utils/partialJson';
+
+export const DEFAULT_ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+/** Tried once the selected model has failed (or the default, if that is the selected one) */
+const ALTERNATE_ANALYSIS_MODEL = 'gemini-2.5-pro';
+
+/** Wait before each retry: the selected model once more, then the alternate model */
+const ANALYSIS_RETRY_DELAYS_MS = [1000, 3000];
+
+/**
+ * Optional streaming and cancellation for analyzeDebate
+ */
+export interface AnalysisRequestOptions {
+  // Receives the analysis as it streams in, scores first; single-judge mode only
+  onProgress?: (partial: Partial<DebateAnalysis>) => void;
+  signal?: AbortSignal; // Cancels the request, including any retries still to come
+}
+
+/**
+ * Client for analysis requests outside a live session, using the saved API key
+ * and the optional analysis endpoint (e.g. the local mock server)
+ */
+export function createAnalysisClient(): GoogleGenAI {
+  const apiKey = getApiKey() || import.meta.env.VITE_GEMINI_API_KEY || '';
+  const analysisEndpoint = import.meta.env.VITE_ANALYSIS_ENDPOINT || '';
+  return new GoogleGenAI({
+    apiKey,
+    httpOptions: analysisEndpoint ? { baseUrl: analysisEndpoint } : undefined,
+  });
+}
+
+function getSelectedAnalysisModel(): string {
+  return getAnalysisModel() || DEFAULT_ANALYSIS_MODEL;
+}
+
+function getAlternateAnalysisModel(model: string): string {
+  return model === DEFAULT_ANALYSIS_MODEL ? ALTERNATE_ANALYSIS_MODEL : DEFAULT_ANALYSIS_MODEL;
+}
+
+/**
+ * Models to try in order: the first model (twice), then its alternate
+ */
+function getAnalysisModelChain(firstModel: string): string[] {
+  return [firstModel, firstModel, getAlternateAnalysisModel(firstModel)];
+}
+
+/**
+ * Wait before a retry, rejecting with the abort reason as soon as the signal aborts
+ */
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an analysis request, retrying with backoff and falling back to the alternate model
+ * @param firstModel - Model for the first attempts, the one selected in Settings by default
+ * @param signal - Stops retrying once aborted
+ * @throws the last error if every attempt failed, or straight away once aborted
+ */
+async function withAnalysisRetry<T>(
+  run: (model: string) => Promise<T>,
+  { firstModel = getSelectedAnalysisModel(), signal }: { firstModel?: string; signal?: AbortSignal } = {}
+): Promise<T> {
+  const models = getAnalysisModelChain(firstModel);
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt < models.length; attempt++) {
+    const model = models[attempt]!;
+    if (attempt > 0) {
+      await waitForRetry(ANALYSIS_RETRY_DELAYS_MS[attempt - 1] ?? 0, signal);
+    }
+    signal?.throwIfAborted();
+    try {
+      return await run(model);
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(`Analysis attempt ${attempt + 1}/${models.length} with ${model} failed`, e);
+      lastError = e;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error('Analysis failed');
+}
+
+/**
+ * Post-session analysis of the user's performance, scored against the selected rubric,
+ * by a single judge or by the judge panel if one is enabled in Settings.
+ * Failed requests are retried with backoff, the last attempt on the alternate model.
+ * @returns null if the user didn't participate enough to analyze
+ * @throws the last error if every attempt failed
+ */
+export async function analyzeDebate(
+  ai: GoogleGenAI,
+  transcript: ChatMessage[],
+  config: AnalysisConfig,
+  options: AnalysisRequestOptions = {}
+): Promise<DebateAnalysis | null> {
+  const { topic, side } = config;
+  const format = getDebateFormat(config.formatId);
+  const styleDefinition = getDebateStyle(config.style);
+
+  // Validate user participation (AC1, AC3, AC6)
+  console.log('📊 Analyzing debate with transcript:', transcript);
+  const userMessages = transcript.filter(m => m.role === 'user');
+  console.log('👤 User messages found:', userMessages.length, userMessages);
+  
+  // Check if user spoke at all
+  if (userMessages.length === 0) {
+    console.log('⚠️ No user participation detected - no user messages');
+    return null;
+  }
+  
+  // Check if user spoke enough (minimum 5 words - reduced threshold)
+  const totalWords = userMessages.reduce((count, msg) => {
+    const words = msg.text.trim().split(/\s+/).filter(w => w.length > 0);
+    return count + words.length;
+  }, 0);
+  
+  console.log(`📝 Total user words: ${totalWords}`);
+  
+  if (totalWords < 5) {
+    console.log(`⚠️ Insufficient user participation detected - only ${totalWords} words (minimum 5 required)`);
+    return null;
+  }
+
+  const isStructured = format.phases.length > 0;
+  const phaseNames = new Map(format.phases.map(phase => [phase.id, phase.name]));
+  let lastPhaseId: string | undefined;
+
+  // Messages are numbered so fallacies can point back at the message they were made in.
+  // Structured formats: label each block of the transcript with its phase
+  const spokenMessages = transcript.filter(m => m.role !== 'system' && m.text.trim().length > 0);
+  const conversation = spokenMessages
+    .map((m, index) => {
+      const line = `[${index}] ${m.role.toUpperCase()}: ${m.text}`;
+      if (!isStructured || m.phaseId === lastPhaseId) return line;
+      lastPhaseId = m.phaseId;
+      return `\n[PHASE: ${phaseNames.get(m.phaseId ?? '') ?? 'Unknown'}]\n${line}`;
+    })
+    .join('\n');
+
+  // Guidelines after the fixed five depend on the session, so they are numbered as they are added
+  const extraGuidelines: string[] = [];
+  if (isStructured) {
+    extraGuidelines.push(`**Phase Scores**: This was a "${format.name}" debate. For EACH of these phases, score the user's performance 0-100 and give one sentence of feedback in phaseScores, using the exact phaseId values:
+${format.phases.map(phase => `   - ${phase.id} (${phase.name}, ${phase.speaker === 'model' ? 'AI speaks - judge how well the user handled it' : phase.speaker === 'user' ? 'user speaks' : 'exchange'})`).join('\n')}
+ If the user said nothing in a phase where they were expected to speak, score it low and say so.`);
+  }
+
+  const sideNote = side
+    ? `\nThe USER argued the ${side === 'proposition' ? 'PROPOSITION (for the motion)' : 'OPPOSITION (against the motion)'}; the MODEL argued the other side. Judge how well the user defended their assigned side.\n`
+    : '';
+  const persona = config.opponentPersona;
+  const styleNote = persona
+    ? `\nOPPONENT: a custom persona, "${persona.name}", with this tone: ${persona.tone}. Its knowledge focus was: ${persona.knowledgeFocus}. Take the opponent's approach into account when judging the user.\n`
+    : `\nOPPONENT STYLE: ${styleDefinition.label}. ${styleDefinition.analysisEmphasis}\n`;
+
+  const difficultyNote = config.difficulty
+    ? `\nDIFFICULTY: the opponent played at ${config.difficulty.intensity}/100 intensity. Keep scores on the same absolute scale, but acknowledge in feedback when the user held up well against a hard opponent.\n`
+    : '';
+
+  const inputModeNote = config.inputMode === 'text'
+    ? `\nThe user TYPED their side of this debate instead of speaking. Judge their written language for englishProficiency, vocabulary and clarity, and do not comment on pronunciation or vocal delivery.\n`
+    : '';
+
+  // Prep was taken (config.prepSeconds) even if no notes were written - that is feedback too.
+  // Sessions saved before the prep length was kept only have their notes.
+  const tookPrep = Boolean(config.prepSeconds || config.prepNotes);
+  const prepNote = tookPrep
+    ? config.prepNotes
+      ? `\nPREP NOTES the user wrote before the debate:\n---\n${config.prepNotes}\n---\n`
+      : `\nThe user had prep time before the debate but wrote no notes.\n`
+    : '';
+  if (tookPrep) {
+    extraGuidelines.push(`**Prep Feedback**: In prepFeedback, write 2-3 sentences on how well the user used their prep: which prepared points they delivered, which they dropped, and whether they adapted when the debate went off their plan.`);
+  }
+
+  extraGuidelines.push(`**Fallacies**: List every logical fallacy in the USER's messages in fallacies (an empty list if there are none). For each give the type, the messageIndex of the USER message it appears in, a short exact quote of the words where it happens, a one-sentence explanation, and a betterAlternative showing how the user could have made the same point soundly. Use only these types:
+${FALLACY_LIST.map(fallacy => `   - ${fallacy.id}: ${fallacy.description}`).join('\n')}
+ Do not flag the MODEL's messages, and do not flag forceful rhetoric that is not actually fallacious.`);
+
+  const numberedGuidelines = extraGuidelines
+    .map((guideline, index) => `\n\n${6 + index}. ${guideline}`)
+    .join('');
+
+  const rubric = getAnalysisRubric(getAnalysisRubricId(), getCustomRubrics());
+  const rubricSchema = compileRubricSchema(rubric);
+  const criterionKeys = rubric.criteria.map(criterion => criterion.key);
+
+  const prompt = `You are a fair and constructive debate coach analyzing the following debate transcript on the topic "${topic}".
+${sideNote}${styleNote}${difficultyNote}${inputModeNote}${prepNote}
+TRANSCRIPT:
+${conversation}
+
+Generate a detailed JSON analysis of the USER'S performance.
+
+${compileRubricPrompt(rubric)}
+
+EVALUATION GUIDELINES:
+1. **Archetype**: Create an encouraging yet accurate archetype name based on their style
+2. **Wildcard Insight**: Find something specific and interesting about their approach
+3. **Strengths**: List 2-3 genuine strengths they demonstrated
+4. **Weaknesses**: Identify 2-3 areas for improvement in a constructive way
+5. **Suggestions**: Provide 4-6 specific, actionable tips for improvement${numberedGuidelines}`;
+
+  // Panel judges get the same prompt plus their own emphasis, and sum up their decision
+  const requestAnalysis = async (model: string, judge?: JudgeDefinition): Promise<{ analysis: DebateAnalysis; verdict: string }> => {
+    const judgePrompt = judge
+      ? `${prompt}\n\nPANEL JUDGE: You are the ${judge.name}, one of ${JUDGE_PANEL.length} judges scoring this debate independently. ${judge.emphasis} Still score every criterion against the rubric anchors above, and sum up your decision in one sentence in verdict.`
+      : prompt;
+
+    // Listed in the order they should stream in: scores first, then the written feedback
+    const properties = {
+      confidenceLevel: { type: 'string', enum: ["Low", "Medium", "High", "Unstoppable"] },
+      englishProficiency: { type: 'string', enum: ["Beginner", "Intermediate", "Advanced", "Native"] },
+      ...rubricSchema.properties,
+      archetype: { type: 'string', description: "Creative label for the user" },
+      wildcardInsight: { type: 'string', description: "Unique observation" },
+      emotionalState: { type: 'string', description: "e.g. Calm, Agitated" },
+      strengths: { type: 'array', items: { type: 'string' } },
+      weaknesses: { type: 'array', items: { type: 'string' } },
+      suggestions: { type: 'array', items: { type: 'string' } },
+      ...(isStructured && {
+        phaseScores: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              phaseId: { type: 'string', enum: format.phases.map(phase => phase.id) },
+              score: { type: 'number', description: "0-100" },
+              feedback: { type: 'string' }
+            },
+            required: ["phaseId", "score", "feedback"]
+          }
+        }
+      }),
+      ...(tookPrep && {
+        prepFeedback: { type: 'string', description: "How well the prep notes were used" }
+      }),
+      fallacies: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: FALLACY_LIST.map(fallacy => fallacy.id) },
+            messageIndex: { type: 'number' },
+            quote: { type: 'string' },
+            explanation: { type: 'string' },
+            betterAlternative: { type: 'string' }
+          },
+          required: ["type", "messageIndex", "quote", "explanation", "betterAlternative"]
+        }
+      },
+      ...(judge && {
+        verdict: { type: 'string', description: "One-sentence summary of this judge's decision" }
+      })
+    };
+
+    const request: GenerateContentParameters = {
+      model,
+      contents: judgePrompt,
+      config: {
+        abortSignal: options.signal,
+        // Same transcript and rubric should give the same scores
+        temperature: 0,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties,
+          propertyOrdering: Object.keys(properties),
+          required: [
+            "confidenceLevel", "englishProficiency", ...rubricSchema.required, "archetype", "wildcardInsight", "emotionalState", "strengths", "weaknesses", "suggestions",
+            ...(isStructured ? ["phaseScores"] : []),
+            ...(tookPrep ? ["prepFeedback"] : []),
+            "fallacies",
+            ...(judge ? ["verdict"] : [])
+          ]
+        }
+      }
+    };
+
+    // Stream only when someone is watching; panel judges run side by side without progress
+    let text = '';
+    if (options.onProgress && !judge) {
+      options.onProgress({});
+      for await (const chunk of await ai.models.generateContentStream(request)) {
+        text += chunk.text ?? '';
+        const partial = readPartialAnalysis(parsePartialJson(text), criterionKeys);
+        const hasAllScores = criterionKeys.every(key => partial[key] !== undefined);
+        options.onProgress(hasAllScores ? { ...partial, score: computeRubricScore(rubric, partial) } : partial);
+      }
+    } else {
+      text = (await ai.models.generateContent(request)).text ?? '';
+    }
+    if (!text) throw new Error("No analysis generated");
+    // Unusable responses throw so the request is retried
+    const { analysis: validated, warnings, errors } = validateDebateAnalysis(JSON.parse(text), {
+      criteria: criterionKeys,
+      phaseIds: format.phases.map(phase => phase.id),
+      expectPrepFeedback: tookPrep,
+      expectVerdict: Boolean(judge),
+    });
+    if (!validated) throw new Error(`Unusable analysis: ${errors.join('; ')}`);
+    if (warnings.length > 0) console.warn('Analysis response was repaired:', warnings);
+
+    const { fallacies: rawFallacies, verdict, ...parsed } = validated;
+    const analysis: DebateAnalysis = {
+      ...parsed,
+      score: computeRubricScore(rubric, parsed),
+      rubricId: rubric.id,
+      rubricVersion: rubric.version,
+      analysisModel: model,
+      ...(warnings.length > 0 && { validationWarnings: warnings }),
+    };
+
+    // Point fallacies at ChatMessage ids, keeping only ones in the user's own messages
+    analysis.fallacies = rawFallacies.flatMap(raw => {
+      const message = typeof raw.messageIndex === 'number' ? spokenMessages[raw.messageIndex] : undefined;
+      const fallacy = getFallacy(raw.type);
+      if (!message || message.role !== 'user' || !fallacy) return [];
+      return [{
+        type: fallacy.id,
+        messageId: message.id,
+        quote: raw.quote?.trim() ?? '',
+        explanation: raw.explanation ?? '',
+        betterAlternative: raw.betterAlternative ?? '',
+      }];
+    });
+
+    // Attach phase names and keep phases in format order
+    if (isStructured && Array.isArray(analysis.phaseScores)) {
+      analysis.phaseScores = format.phases.flatMap(phase => {
+        const scored = analysis.phaseScores?.find(p => p.phaseId === phase.id);
+        return scored ? [{ ...scored, phaseName: phase.name }] : [];
+      });
+    }
+    return { analysis, verdict: verdict ?? '' };
+  };
+
+  const panelMode = getJudgePanelMode();
+  if (panelMode === 'off') {
+    return (await withAnalysisRetry(model => requestAnalysis(model), { signal: options.signal })).analysis;
+  }
+
+  // Judges run side by side; the panel scores with whoever returned a ballot
+  const selectedModel = getSelectedAnalysisModel();
+  const results = await Promise.allSettled(
+    JUDGE_PANEL.map(async judge => {
+      const firstModel = judge.model === 'alternate' ? getAlternateAnalysisModel(selectedModel) : selectedModel;
+      return { judge, ...(await withAnalysisRetry(model => requestAnalysis(model, judge), { firstModel, signal: options.signal })) };
+    })
+  );
+  options.signal?.throwIfAborted();
+  const judged = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  if (judged.length === 0) {
+    const failure = results.find(result => result.status === 'rejected');
+    throw failure?.reason instanceof Error ? failure.reason : new Error('Analysis failed');
+  }
+  return combineJudgeAnalyses(rubric, panelMode, judged);
+}
+
+/**
+ * Post-session argument mining: segment both speakers' turns into claims,
+ * evidence, rebuttals and concessions, and link each answer to what it answers
+ * @param signal - Cancels the request
+ * @returns null if the transcript is empty, mining failed or was cancelled
+ */
+export async function mineArguments(
+  ai: GoogleGenAI,
+  transcript: ChatMessage[],
+  config: AnalysisConfig,
+  signal?: AbortSignal
+): Promise<ArgumentMap | null> {
+  const messages = transcript.filter(m => m.role !== 'system' && m.text.trim().length > 0);
+  if (!messages.some(m => m.role === 'user')) return null;
+
+  const numbered = messages
+    .map((m, index) => `[${index}] ${m.role.toUpperCase()}: ${m.text.trim()}`)
+    .join('\n');
+
+  const prompt = `You are analyzing the argument structure of a debate on the topic "${config.topic}" between a USER and a MODEL opponent.
+
+TRANSCRIPT (each message is numbered):
+${numbered}
+
+Build an ARGUMENT MAP: segment every message into argumentative units. For each unit give:
+- **id**: a short unique id such as "a1", "a2", ...
+- **type**: one of
+- "claim": a new position or reason put forward
+- "evidence": an example, statistic, source or experience backing up the speaker's own claim
+- "rebuttal": a direct answer attacking a claim, evidence or rebuttal of the OTHER speaker
+- "concession": the speaker admits a point made by the OTHER speaker
+- **summary**: a paraphrase of the unit in at most 15 words
+- **messageIndex**: the number of the message the unit appears in
+- **targetId**: for evidence, the id of the claim it supports; for rebuttals and concessions, the id of the other speaker's earlier unit it answers. Use an empty string for claims, or if nothing specific is answered.
+
+List units in transcript order. Skip greetings, filler and moderator remarks. Do not invent units that were not said.`;
+
+  try {
+    const analysisModel = getSelectedAnalysisModel();
+
+    const result = await ai.models.generateContent({
+      model: analysisModel,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties: {
+            units: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ["claim", "evidence", "rebuttal", "concession"] },
+                  summary: { type: 'string' },
+                  messageIndex: { type: 'number' },
+                  targetId: { type: 'string' }
+                },
+                required: ["id", "type", "summary", "messageIndex", "targetId"]
+              }
+            }
+          },
+          required: ["units"]
+        }
+      }
+    });
+
+    const text = result.text;
+    if (!text) throw new Error("No argument map generated");
+    const parsed = JSON.parse(text) as { units?: RawArgumentUnit[] };
+
+    return normalizeArgumentMap(Array.isArray(parsed.units) ? parsed.units : [], messages);
+  } catch (e) {
+    console.error("Argument mining failed", e);
+    return null;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * IndexedDB database shared by the storage backend and the recording store
+ *
+ * The schema is built by running migrations in order, each one taking the
+ * database to its version. A browser that last opened the app at version N
+ * runs migrations N+1 onwards in a single upgrade transaction, so a failed
+ * migration leaves the database as it was.
+ *
+ * Data saved to localStorage by earlier builds is imported separately, on
+ * every startup rather than once: a tab still running an earlier build can
+ * keep saving there after the schema has been upgraded.
+ */
+
+import type { ChatMessage, SessionHistoryItem } from '../types';
+
+const DB_NAME = 'mindmelee';
+
+/** Object store names */
+export const STORES = {
+  SESSIONS: 'sessions',
+  TRANSCRIPTS: 'transcripts',
+  RECORDINGS: 'recordings',
+  SETTINGS: 'settings',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+/** Session record; the transcript is kept in its own store */
+export type StoredSession = Omit<SessionHistoryItem, 'transcript'>;
+
+export interface StoredTranscript {
+  sessionId: string;
+  messages: ChatMessage[];
+}
+
+/** Raw setting value, stored exactly as it was in localStorage */
+export interface StoredSetting {
+  key: string;
+  value: string;
+}
+
+interface SchemaMigration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * localStorage keys written by builds before the IndexedDB stores, or by this
+ * build while it falls back to localStorage. Kept as literals so the import
+ * stays the same when storageService's keys change.
+ */
+const LEGACY_HISTORY_KEY = 'mindmelee_history';
+const LEGACY_STATS_KEY = 'mindmelee_stats';
+const LEGACY_SETTING_KEYS = [
+  LEGACY_STATS_KEY,
+  'mindmelee_persona',
+  'mindmelee_voice_settings',
+  'mindmelee_record_sessions',
+  'mindmelee_opponent_personas',
+  'mindmelee_live_coaching',
+  'mindmelee_analysis_rubric',
+  'mindmelee_custom_rubrics',
+  'mindmelee_judge_panel',
+  'mindmelee_pending_analyses',
+  'mindmelee_api_key',
+  'mindmelee_live_model',
+  'mindmelee_analysis_model',
+  'mindmelee_live_endpoint',
+  'mindmelee_user_name',
+  'mindmelee_profile_image',
+];
+
+/**
+ * Schema migrations, oldest first. Never edit a released migration; add a new one.
+ */
+const MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Session recordings',
+    migrate: (db) => {
+      db.createObjectStore(STORES.RECORDINGS, { keyPath: 'sessionId' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Sessions, transcripts and settings',
+    migrate: (db) => {
+      db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+      db.createObjectStore(STORES.TRANSCRIPTS, { keyPath: 'sessionId' });
+      db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' });
+    },
+  },
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion) {
+          console.info(`Migrating storage to version ${migration.version}: ${migration.description}`);
+          migration.migrate(db, transaction);
+        }
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let another tab upgrade the schema; the next request reopens
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error('Failed to open database'));
+    // Startup stops waiting after a timeout (see storageBackend); the upgrade still runs once the other tabs close
+    request.onblocked = () => console.warn('Database upgrade is waiting for other MindMelee tabs to close');
+  });
+}
+
+/**
+ * The shared database connection, opened (and migrated) on first use
+ */
+export function getDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch((error: unknown) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs one transaction over the given stores
+ * @param operation - Issues the requests; its return value resolves once the transaction commits
+ */
+export async function runTransaction<T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => () => T
+): Promise<T> {
+  const db = await getDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const getResult = operation(transaction);
+    transaction.oncomplete = () => resolve(getResult());
+    transaction.onerror = () => reject(transaction.error ?? new Error('Storage transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted'));
+  });
+}
+
+/**
+ * Moves whatever earlier builds saved in localStorage into the stores.
+ * Sessions are matched by id, so only ones not stored yet are added; a
+ * setting is only taken if the store has no value for it yet. Each key is
+ * removed afterwards unless it changed while the import was running.
+ *
+ * @returns Sessions added after stats were already stored, whose points are
+ * not in the stored stats yet (saved by a tab running an earlier build)
+ */
+export async function importLegacyLocalStorage(): Promise<SessionHistoryItem[]> {
+  const storedHistory = localStorage.getItem(LEGACY_HISTORY_KEY);
+  const storedSettings = LEGACY_SETTING_KEYS.flatMap((key): StoredSetting[] => {
+    const value = localStorage.getItem(key);
+    return value === null ? [] : [{ key, value }];
+  });
+  if (storedHistory === null && storedSettings.length === 0) {
+    return [];
+  }
+
+  let history: SessionHistoryItem[] | null = [];
+  if (storedHistory) {
+    try {
+      history = JSON.parse(storedHistory) as SessionHistoryItem[];
+    } catch (error) {
+      // Leave unreadable history in localStorage rather than lose it
+      console.error('Error importing history from localStorage:', error);
+      history = null;
+    }
+  }
+
+  const lateSessions = await runTransaction(
+    [STORES.SESSIONS, STORES.TRANSCRIPTS, STORES.SETTINGS],
+    'readwrite',
+    (transaction) => {
+      const sessions = transaction.objectStore(STORES.SESSIONS);
+      const transcripts = transaction.objectStore(STORES.TRANSCRIPTS);
+      const settings = transaction.objectStore(STORES.SETTINGS);
+      const added: SessionHistoryItem[] = [];
+
+      const sessionIds = sessions.getAllKeys();
+      const settingKeys = settings.getAllKeys();
+      // Requests complete in order, so both key lists are ready here
+      settingKeys.onsuccess = () => {
+        const storedIds = new Set(sessionIds.result);
+        const storedKeys = new Set(settingKeys.result);
+
+        for (const item of history ?? []) {
+          if (storedIds.has(item.id)) continue;
+          const { transcript, ...session } = item;
+          sessions.put(session satisfies StoredSession);
+          if (transcript) {
+            transcripts.put({ sessionId: session.id, messages: transcript } satisfies StoredTranscript);
+          }
+          if (storedKeys.has(LEGACY_STATS_KEY)) {
+            added.push(item);
+          }
+        }
+        for (const setting of storedSettings) {
+          if (!storedKeys.has(setting.key)) {
+            settings.put(setting);
+          }
+        }
+      };
+      return () => added;
+    }
+  );
+
+  // Imported and committed; drop each key unless an earlier build wrote to it meanwhile
+  if (history && localStorage.getItem(LEGACY_HISTORY_KEY) === storedHistory) {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  }
+  for (const { key, value } of storedSettings) {
+    if (localStorage.getItem(key) === value) {
+      localStorage.removeItem(key);
+    }
+  }
+  return lateSessions;
+}
+
+/**
+ * Whether an error means the browser refused a write because storage is full
+ */
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
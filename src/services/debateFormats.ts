@@ -0,0 +1,238 @@
+/**
+ * Debate formats - built-in phase structures for live debates
+ *
+ * A format is an ordered list of timed phases. DebateLive advances through
+ * them on its timer and GeminiLiveService tells the model which phase it is
+ * in. Free-form has no phases and runs on the user's chosen duration.
+ */
+
+import type { DebateFormat, DebatePhase } from '../types';
+
+export const FREE_FORM_FORMAT_ID = 'free-form';
+
+/**
+ * Built-in debate formats
+ */
+export const DEBATE_FORMATS: DebateFormat[] = [
+  {
+    id: FREE_FORM_FORMAT_ID,
+    name: 'Free-Form',
+    description: 'Open back-and-forth for as long as you choose.',
+    phases: [],
+  },
+  {
+    id: 'quick-3-round',
+    name: 'Quick 3-Round',
+    description: 'Three short rounds: you make a point, the AI answers.',
+    phases: [
+      {
+        id: 'round-1-user',
+        name: 'Round 1 · Your Case',
+        durationSeconds: 60,
+        speaker: 'user',
+        instruction: 'Listen while the user opens with their main argument. Do not interrupt.',
+      },
+      {
+        id: 'round-1-model',
+        name: 'Round 1 · AI Response',
+        durationSeconds: 60,
+        speaker: 'model',
+        instruction: "Respond to the user's opening with your strongest counter-argument.",
+      },
+      {
+        id: 'round-2-user',
+        name: 'Round 2 · Your Rebuttal',
+        durationSeconds: 60,
+        speaker: 'user',
+        instruction: 'Listen while the user rebuts your response. Do not interrupt.',
+      },
+      {
+        id: 'round-2-model',
+        name: 'Round 2 · AI Rebuttal',
+        durationSeconds: 60,
+        speaker: 'model',
+        instruction: "Rebut the user's latest points and introduce one new line of attack.",
+      },
+      {
+        id: 'round-3-user',
+        name: 'Round 3 · Your Closing',
+        durationSeconds: 60,
+        speaker: 'user',
+        instruction: 'Listen while the user closes. Do not interrupt.',
+      },
+      {
+        id: 'round-3-model',
+        name: 'Round 3 · AI Closing',
+        durationSeconds: 60,
+        speaker: 'model',
+        instruction: 'Give a short closing statement that summarizes why your side holds up. Do not raise new arguments.',
+      },
+    ],
+  },
+  {
+    id: 'lincoln-douglas-lite',
+    name: 'Lincoln-Douglas Lite',
+    description: 'One-on-one values debate with cross-examination, shortened for practice.',
+    phases: [
+      {
+        id: 'affirmative-constructive',
+        name: 'Your Constructive',
+        durationSeconds: 120,
+        speaker: 'user',
+        instruction: 'Listen while the user presents their value, criterion and contentions. Do not interrupt.',
+      },
+      {
+        id: 'cross-examination-by-ai',
+        name: 'AI Cross-Examination',
+        durationSeconds: 60,
+        speaker: 'both',
+        instruction: "Ask the user short, pointed questions that expose gaps in their constructive. Questions only, no speeches.",
+      },
+      {
+        id: 'negative-constructive',
+        name: 'AI Constructive',
+        durationSeconds: 120,
+        speaker: 'model',
+        instruction: 'Present your own value and criterion, then attack the contentions the user made.',
+      },
+      {
+        id: 'cross-examination-by-user',
+        name: 'Your Cross-Examination',
+        durationSeconds: 60,
+        speaker: 'both',
+        instruction: "Answer the user's questions directly and briefly. Do not ask questions back.",
+      },
+      {
+        id: 'affirmative-rebuttal',
+        name: 'Your Rebuttal',
+        durationSeconds: 90,
+        speaker: 'user',
+        instruction: 'Listen while the user rebuts your case. Do not interrupt.',
+      },
+      {
+        id: 'negative-rebuttal',
+        name: 'AI Rebuttal',
+        durationSeconds: 90,
+        speaker: 'model',
+        instruction: 'Rebut the user and explain why your value framework should win the round.',
+      },
+      {
+        id: 'affirmative-closing',
+        name: 'Your Closing',
+        durationSeconds: 60,
+        speaker: 'user',
+        instruction: 'Listen while the user gives the final speech. Do not respond afterwards.',
+      },
+    ],
+  },
+  {
+    id: 'oxford',
+    name: 'Oxford-Style',
+    description: 'Opening statements, rebuttals, open cross-examination and closings.',
+    phases: [
+      {
+        id: 'user-opening',
+        name: 'Your Opening',
+        durationSeconds: 120,
+        speaker: 'user',
+        instruction: 'Listen while the user gives their opening statement. Do not interrupt.',
+      },
+      {
+        id: 'model-opening',
+        name: 'AI Opening',
+        durationSeconds: 120,
+        speaker: 'model',
+        instruction: 'Give your opening statement for the opposing side.',
+      },
+      {
+        id: 'user-rebuttal',
+        name: 'Your Rebuttal',
+        durationSeconds: 90,
+        speaker: 'user',
+        instruction: 'Listen while the user rebuts your opening. Do not interrupt.',
+      },
+      {
+        id: 'model-rebuttal',
+        name: 'AI Rebuttal',
+        durationSeconds: 90,
+        speaker: 'model',
+        instruction: "Rebut the user's opening and rebuttal point by point.",
+      },
+      {
+        id: 'cross-examination',
+        name: 'Cross-Examination',
+        durationSeconds: 120,
+        speaker: 'both',
+        instruction: 'Open exchange: ask and answer questions in short turns. Keep each turn under 20 seconds.',
+      },
+      {
+        id: 'user-closing',
+        name: 'Your Closing',
+        durationSeconds: 60,
+        speaker: 'user',
+        instruction: 'Listen while the user gives their closing statement. Do not interrupt.',
+      },
+      {
+        id: 'model-closing',
+        name: 'AI Closing',
+        durationSeconds: 60,
+        speaker: 'model',
+        instruction: 'Give your closing statement. Summarize, do not introduce new arguments.',
+      },
+    ],
+  },
+];
+
+/**
+ * Position within a format at a given elapsed time
+ */
+export interface PhaseProgress {
+  phase: DebatePhase;
+  index: number;
+  remainingSeconds: number;
+}
+
+/**
+ * Look up a format by id, falling back to free-form
+ */
+export function getDebateFormat(formatId?: string): DebateFormat {
+  return (
+    DEBATE_FORMATS.find(format => format.id === formatId) ??
+    DEBATE_FORMATS.find(format => format.id === FREE_FORM_FORMAT_ID)!
+  );
+}
+
+/**
+ * Whether a format has timed phases
+ */
+export function isStructuredFormat(format: DebateFormat): boolean {
+  return format.phases.length > 0;
+}
+
+/**
+ * Total session length in seconds
+ * @param freeFormMinutes - Duration used when the format has no phases
+ */
+export function getFormatDurationSeconds(format: DebateFormat, freeFormMinutes: number): number {
+  if (!isStructuredFormat(format)) {
+    return freeFormMinutes * 60;
+  }
+  return format.phases.reduce((total, phase) => total + phase.durationSeconds, 0);
+}
+
+/**
+ * Find the phase running at `elapsedSeconds`
+ * @returns null for free-form formats or once the last phase has ended
+ */
+export function getPhaseAt(format: DebateFormat, elapsedSeconds: number): PhaseProgress | null {
+  let phaseStart = 0;
+  for (let index = 0; index < format.phases.length; index++) {
+    const phase = format.phases[index]!;
+    const phaseEnd = phaseStart + phase.durationSeconds;
+    if (elapsedSeconds < phaseEnd) {
+      return { phase, index, remainingSeconds: phaseEnd - elapsedSeconds };
+    }
+    phaseStart = phaseEnd;
+  }
+  return null;
+}
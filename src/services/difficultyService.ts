@@ -0,0 +1,156 @@
+/**
+ * Difficulty levels - how hard the AI opponent pushes
+ *
+ * Fixed levels map to a set intensity. Adaptive reads the user's recent
+ * scores and persona traits and picks an intensity just above where they
+ * are, then tunes argument depth, interruptions and fallacy tolerance
+ * individually from their strongest and weakest traits.
+ */
+
+import {
+  DifficultyLevel,
+  type DifficultyTuning,
+  type InterruptionFrequency,
+  type PersonaTrait,
+  type SessionHistoryItem,
+} from '../types';
+import { PersonaService } from './personaService';
+
+/**
+ * Definition of one difficulty level
+ */
+export interface DifficultyDefinition {
+  id: DifficultyLevel;
+  label: string;
+  description: string;
+  /** Fixed intensity; Adaptive computes its own */
+  intensity: number;
+}
+
+export const DIFFICULTY_LEVELS: DifficultyDefinition[] = [
+  {
+    id: DifficultyLevel.EASY,
+    label: 'Easy',
+    description: 'Simple arguments, no interruptions, forgiving of slips.',
+    intensity: 20,
+  },
+  {
+    id: DifficultyLevel.MEDIUM,
+    label: 'Medium',
+    description: 'Solid counter-arguments and the occasional challenge.',
+    intensity: 50,
+  },
+  {
+    id: DifficultyLevel.HARD,
+    label: 'Hard',
+    description: 'Deep arguments, frequent interruptions, no fallacy goes unnoticed.',
+    intensity: 85,
+  },
+  {
+    id: DifficultyLevel.ADAPTIVE,
+    label: 'Adaptive',
+    description: 'Tuned to your recent scores and debate traits.',
+    intensity: 50,
+  },
+];
+
+/** Number of most recent sessions Adaptive looks at */
+const ADAPTIVE_WINDOW = 5;
+
+/** Intensity used by Adaptive before the user has any history */
+const ADAPTIVE_DEFAULT_INTENSITY = 40;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Look up a difficulty level, falling back to Medium
+ */
+export function getDifficultyLevel(level?: DifficultyLevel | string): DifficultyDefinition {
+  return (
+    DIFFICULTY_LEVELS.find(definition => definition.id === level) ??
+    DIFFICULTY_LEVELS.find(definition => definition.id === DifficultyLevel.MEDIUM)!
+  );
+}
+
+function depthFor(intensity: number): DifficultyTuning['argumentDepth'] {
+  if (intensity < 35) return 'basic';
+  if (intensity < 70) return 'moderate';
+  return 'advanced';
+}
+
+function interruptionsFor(intensity: number): InterruptionFrequency {
+  if (intensity < 25) return 'never';
+  if (intensity < 50) return 'rarely';
+  if (intensity < 75) return 'sometimes';
+  return 'often';
+}
+
+function fallacyToleranceFor(intensity: number): DifficultyTuning['fallacyTolerance'] {
+  if (intensity < 35) return 'lenient';
+  if (intensity < 70) return 'balanced';
+  return 'strict';
+}
+
+function traitValue(traits: PersonaTrait[], name: string, fallback: number): number {
+  return traits.find(trait => trait.name === name)?.value ?? fallback;
+}
+
+/**
+ * Resolve a difficulty level into concrete opponent behaviour
+ * @param sessions - Session history, most recent first (only used by Adaptive)
+ */
+export function resolveDifficulty(level: DifficultyLevel, sessions: SessionHistoryItem[]): DifficultyTuning {
+  if (level !== DifficultyLevel.ADAPTIVE) {
+    const intensity = getDifficultyLevel(level).intensity;
+    return {
+      level,
+      intensity,
+      argumentDepth: depthFor(intensity),
+      interruptionRate: interruptionsFor(intensity),
+      fallacyTolerance: fallacyToleranceFor(intensity),
+    };
+  }
+
+  const recent = sessions.slice(0, ADAPTIVE_WINDOW);
+  if (recent.length === 0) {
+    return {
+      level,
+      intensity: ADAPTIVE_DEFAULT_INTENSITY,
+      argumentDepth: depthFor(ADAPTIVE_DEFAULT_INTENSITY),
+      interruptionRate: interruptionsFor(ADAPTIVE_DEFAULT_INTENSITY),
+      fallacyTolerance: fallacyToleranceFor(ADAPTIVE_DEFAULT_INTENSITY),
+      rationale: 'No history yet, starting a little below medium.',
+    };
+  }
+
+  // Aim slightly above the user's recent average so they are stretched but not crushed
+  const averageScore = recent.reduce((sum, session) => sum + session.score, 0) / recent.length;
+  const intensity = Math.round(clamp((averageScore - 40) * 1.5 + 10, 10, 95));
+
+  // Individual dials lean on the matching persona trait
+  const { traits } = PersonaService.calculatePersona(recent);
+  const confidence = traitValue(traits, 'Confidence', averageScore);
+  const argumentStrength = traitValue(traits, 'Argument Strength', averageScore);
+  const interruptionIntensity = clamp(intensity + (confidence - averageScore) / 2, 0, 100);
+  const fallacyIntensity = clamp(intensity + (argumentStrength - averageScore) / 2, 0, 100);
+
+  return {
+    level,
+    intensity,
+    argumentDepth: depthFor(intensity),
+    interruptionRate: interruptionsFor(interruptionIntensity),
+    fallacyTolerance: fallacyToleranceFor(fallacyIntensity),
+    rationale: `Based on an average score of ${Math.round(averageScore)} over your last ${recent.length} session${recent.length === 1 ? '' : 's'}.`,
+  };
+}
+
+/**
+ * Points multiplier for a session played at the given intensity
+ * Ranges from 0.75x (easiest) to 1.5x (hardest); Medium is 1x.
+ */
+export function getDifficultyMultiplier(intensity?: number): number {
+  if (intensity === undefined) return 1;
+  const safe = clamp(intensity, 0, 100);
+  const multiplier = safe <= 50 ? 0.75 + (safe / 50) * 0.25 : 1 + ((safe - 50) / 50) * 0.5;
+  return Math.round(multiplier * 100) / 100;
+}
@@ -0,0 +1,107 @@
+/**
+ * Logical fallacy registry - the fallacy families the analysis detects
+ *
+ * The ids are sent to the analysis model as an enum, so detected fallacies
+ * can be counted across sessions.
+ */
+
+import { FallacyType } from '../types';
+
+/**
+ * Definition of one fallacy family
+ */
+export interface FallacyDefinition {
+  id: FallacyType;
+  label: string;
+  /** One-line description, also used in the analysis prompt */
+  description: string;
+  /** Tailwind classes for the fallacy's badge (neubrutalist, black text) */
+  badgeClass: string;
+}
+
+export const FALLACIES: Record<FallacyType, FallacyDefinition> = {
+  [FallacyType.AD_HOMINEM]: {
+    id: FallacyType.AD_HOMINEM,
+    label: 'Ad Hominem',
+    description: 'Attacking the person instead of their argument.',
+    badgeClass: 'bg-red-400',
+  },
+  [FallacyType.STRAW_MAN]: {
+    id: FallacyType.STRAW_MAN,
+    label: 'Straw Man',
+    description: 'Misrepresenting the opposing argument to make it easier to attack.',
+    badgeClass: 'bg-orange-400',
+  },
+  [FallacyType.FALSE_DILEMMA]: {
+    id: FallacyType.FALSE_DILEMMA,
+    label: 'False Dilemma',
+    description: 'Presenting two options as the only possibilities when more exist.',
+    badgeClass: 'bg-amber-400',
+  },
+  [FallacyType.SLIPPERY_SLOPE]: {
+    id: FallacyType.SLIPPERY_SLOPE,
+    label: 'Slippery Slope',
+    description: 'Claiming one step will inevitably lead to extreme consequences without showing how.',
+    badgeClass: 'bg-nav-yellow',
+  },
+  [FallacyType.HASTY_GENERALIZATION]: {
+    id: FallacyType.HASTY_GENERALIZATION,
+    label: 'Hasty Generalization',
+    description: 'Drawing a broad conclusion from too few or unrepresentative examples.',
+    badgeClass: 'bg-lime-400',
+  },
+  [FallacyType.FALSE_CAUSE]: {
+    id: FallacyType.FALSE_CAUSE,
+    label: 'False Cause',
+    description: 'Assuming that because two things happen together, one causes the other.',
+    badgeClass: 'bg-emerald-400',
+  },
+  [FallacyType.APPEAL_TO_AUTHORITY]: {
+    id: FallacyType.APPEAL_TO_AUTHORITY,
+    label: 'Appeal to Authority',
+    description: 'Treating a claim as true only because an authority or celebrity said it.',
+    badgeClass: 'bg-teal-400',
+  },
+  [FallacyType.APPEAL_TO_EMOTION]: {
+    id: FallacyType.APPEAL_TO_EMOTION,
+    label: 'Appeal to Emotion',
+    description: 'Using feelings such as fear or pity in place of reasons.',
+    badgeClass: 'bg-sky-400',
+  },
+  [FallacyType.BANDWAGON]: {
+    id: FallacyType.BANDWAGON,
+    label: 'Bandwagon',
+    description: 'Arguing something is right because many people believe or do it.',
+    badgeClass: 'bg-blue-400',
+  },
+  [FallacyType.CIRCULAR_REASONING]: {
+    id: FallacyType.CIRCULAR_REASONING,
+    label: 'Circular Reasoning',
+    description: 'Using the conclusion as one of the premises.',
+    badgeClass: 'bg-violet-400',
+  },
+  [FallacyType.RED_HERRING]: {
+    id: FallacyType.RED_HERRING,
+    label: 'Red Herring',
+    description: 'Changing the subject to avoid the point being discussed.',
+    badgeClass: 'bg-purple-400',
+  },
+  [FallacyType.WHATABOUTISM]: {
+    id: FallacyType.WHATABOUTISM,
+    label: 'Whataboutism',
+    description: 'Deflecting criticism by pointing at someone else\'s wrongdoing.',
+    badgeClass: 'bg-pink-300',
+  },
+};
+
+/**
+ * All fallacies in display order
+ */
+export const FALLACY_LIST: FallacyDefinition[] = Object.values(FALLACIES);
+
+/**
+ * Look up a fallacy, or undefined for ids the registry doesn't know
+ */
+export function getFallacy(type?: FallacyType | string): FallacyDefinition | undefined {
+  return FALLACIES[type as FallacyType];
+}
@@ -1,6 +1,30 @@
 import { GoogleGenAI } from '@google/genai';
-import { type ChatMessage, type DebateAnalysis, DebateStyle } from '../types';
+import {
+  type ArgumentMap,
+  type ChatMessage,
+  type DebateAnalysis,
+  type DebateConfig,
+  type DebateFormat,
+  type DebatePhase,
+  type DebateSide,
+  type DifficultyTuning,
+  type InterruptionFrequency,
+  type OpponentPersona,
+  DebateStyle,
+} from '../types';
 import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, decode, decodeAudioData } from '../utils/audioUtils';
+import { type LiveTransport, createLiveTransport, isLiveServerMessage } from './liveTransport';
+import {
+  type SpeechActivityEvent,
+  type VoiceSettings,
+  DEFAULT_VOICE_SETTINGS,
+  VoiceActivityDetector,
+} from '../utils/voiceActivity';
+import type { SessionRecorder } from './sessionRecorder';
+import { getDebateFormat } from './debateFormats';
+import { getDebateStyle } from './debateStyles';
+import { type AnalysisRequestOptions, analyzeDebate, mineArguments } from './analysisService';
+import { type SpeechSegment, SpeechSegmentTracker } from '../utils/deliveryMetrics';
 
 /**
  * Callback function types for service events
@@ -9,25 +33,61 @@ type TranscriptCallback = (text: string, isUser: boolean, isFinal: boolean) => v
 type StatusChangeCallback = (isConnected: boolean) => void;
 type AudioLevelCallback = (level: number) => void;
 type ErrorCallback = (error: Error) => void;
+type ReconnectCallback = (state: ReconnectState, attempt: number) => void;
+type SpeechActivityCallback = (event: SpeechActivityEvent) => void;
 
-// Constants for Gemini Live API
-const HOST = "generativelanguage.googleapis.com";
-const API_VERSION = "v1alpha";
+/**
+ * Lifecycle of an automatic reconnection after the live socket drops
+ */
+export type ReconnectState = 'reconnecting' | 'reconnected' | 'failed';
+
+// Reconnection backoff: 1s, 2s, 4s, 8s, 16s
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+
+// Recap re-sent to the model after reconnecting
+const RECAP_MAX_TURNS = 12;
+const RECAP_MAX_CHARS_PER_TURN = 300;
+
+// Samples per microphone chunk posted by the capture worklet (~85ms at 24kHz)
+const WORKLET_CHUNK_SIZE = 2048;
+
+/**
+ * Optional collaborators for GeminiLiveService
+ */
+export interface GeminiLiveServiceOptions {
+  /** Channel to the live model; defaults to Google's BidiGenerateContent WebSocket */
+  transport?: LiveTransport;
+  /** Base URL for analysis requests (e.g. a local mock server); defaults to Google */
+  apiBaseUrl?: string;
+  /** Notified while the service re-establishes a dropped live socket */
+  onReconnectStateChange?: ReconnectCallback;
+  /** Transcript so far, condensed into a recap when resuming after a reconnect */
+  getTranscript?: () => ChatMessage[];
+  /** Client-side VAD / push-to-talk gating of microphone frames */
+  voiceSettings?: VoiceSettings;
+  /** Fired when the user starts or stops speaking (VAD or push-to-talk) */
+  onSpeechActivity?: SpeechActivityCallback;
+  /** Receives both sides of the conversation when the session is being recorded */
+  recorder?: SessionRecorder;
+}
 
 /**
  * GeminiLiveService class
  * 
  * Handles real-time audio streaming, transcription, and debate analysis
- * using Google's Gemini Live API via raw WebSockets.
+ * using Google's Gemini Live API over a pluggable LiveTransport.
  */
 export class GeminiLiveService {
   private ai: GoogleGenAI;
-  private ws: WebSocket | null = null;
+  private transport: LiveTransport;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private inputSource: MediaStreamAudioSourceNode | null = null;
   private processor: ScriptProcessorNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
   private outputNode: GainNode | null = null;
   private outputAnalyser: AnalyserNode | null = null;
   private inputAnalyser: AnalyserNode | null = null;
@@ -38,14 +98,27 @@ export class GeminiLiveService {
   private isConnected: boolean = false;
   private isConnecting: boolean = false;
   private isDisconnecting: boolean = false;
-  private apiKey: string;
+  private isReconnecting: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: number | null = null;
   private model: string;
+  private config: DebateConfig | null = null;
+  private format: DebateFormat = getDebateFormat();
+  private phaseIndex: number = -1;
+  private getTranscript: () => ChatMessage[];
+  private voiceSettings: VoiceSettings;
+  private vad: VoiceActivityDetector;
+  private isPushToTalkActive: boolean = false;
+  private recorder: SessionRecorder | null;
+  private speechTracker: SpeechSegmentTracker;
 
   // Callback properties
   public onTranscript: TranscriptCallback;
   public onStatusChange: StatusChangeCallback;
   public onAudioLevel: AudioLevelCallback;
   public onError: ErrorCallback;
+  public onReconnectStateChange: ReconnectCallback;
+  public onSpeechActivity: SpeechActivityCallback;
 
   constructor(
     apiKey: string,
@@ -53,15 +126,26 @@ export class GeminiLiveService {
     onTranscript: TranscriptCallback,
     onStatusChange: StatusChangeCallback,
     onAudioLevel: AudioLevelCallback,
-    onError: ErrorCallback
+    onError: ErrorCallback,
+    options: GeminiLiveServiceOptions = {}
   ) {
-    this.apiKey = apiKey;
     this.model = model;
-    this.ai = new GoogleGenAI({ apiKey });
+    this.ai = new GoogleGenAI({
+      apiKey,
+      httpOptions: options.apiBaseUrl ? { baseUrl: options.apiBaseUrl } : undefined,
+    });
+    this.transport = options.transport ?? createLiveTransport(apiKey);
     this.onTranscript = onTranscript;
     this.onStatusChange = onStatusChange;
     this.onAudioLevel = onAudioLevel;
     this.onError = onError;
+    this.onReconnectStateChange = options.onReconnectStateChange ?? (() => {});
+    this.getTranscript = options.getTranscript ?? (() => []);
+    this.voiceSettings = options.voiceSettings ?? { ...DEFAULT_VOICE_SETTINGS };
+    this.vad = new VoiceActivityDetector(this.voiceSettings, INPUT_SAMPLE_RATE);
+    this.onSpeechActivity = options.onSpeechActivity ?? (() => {});
+    this.recorder = options.recorder ?? null;
+    this.speechTracker = new SpeechSegmentTracker(this.voiceSettings.energyThreshold, this.voiceSettings.hangoverMs);
   }
 
   /**
@@ -78,7 +162,7 @@ export class GeminiLiveService {
     return this.inputAnalyser;
   }
 
-  async connect(topic: string, style: DebateStyle) {
+  async connect(config: DebateConfig) {
     // Prevent multiple simultaneous connections
     if (this.isConnected || this.isConnecting || this.isDisconnecting) {
       console.log('⚠️ Connection already in progress or active, skipping...');
@@ -86,6 +170,27 @@ export class GeminiLiveService {
     }
     
     this.isConnecting = true;
+    this.config = config;
+    this.format = getDebateFormat(config.formatId);
+    this.phaseIndex = this.format.phases.length > 0 ? 0 : -1;
+    this.reconnectAttempts = 0;
+    this.speechTracker.reset();
+
+    // Text mode: typed turns, no microphone; replies are only played if requested
+    if (this.isTextMode()) {
+      try {
+        if (this.config.speakReplies) {
+          this.setupOutputAudio();
+        }
+        this.transport.onMessage(this.handleMessage);
+        this.openTransport();
+      } catch (e) {
+        console.error("Connection initialization failed", e);
+        this.isConnecting = false;
+        this.onError(e instanceof Error ? e : new Error("Failed to initialize connection"));
+      }
+      return;
+    }
 
     if (!navigator.mediaDevices?.getUserMedia) {
       this.isConnecting = false;
@@ -105,17 +210,7 @@ export class GeminiLiveService {
 
       // Initialize Audio Contexts
       this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: INPUT_SAMPLE_RATE });
-      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
-
-      // Create analyser for output (AI) visualization
-      this.outputAnalyser = this.outputAudioContext.createAnalyser();
-      this.outputAnalyser.fftSize = 2048; // High resolution for liquid visualizer
-      this.outputAnalyser.smoothingTimeConstant = 0.7; // Slightly more responsive
-      console.log('🎛️ Created output analyser:', {
-        fftSize: this.outputAnalyser.fftSize,
-        frequencyBinCount: this.outputAnalyser.frequencyBinCount,
-        smoothing: this.outputAnalyser.smoothingTimeConstant
-      });
+      this.setupOutputAudio();
 
       // Create analyser for input (user) visualization
       this.inputAnalyser = this.inputAudioContext.createAnalyser();
@@ -127,86 +222,218 @@ export class GeminiLiveService {
         smoothing: this.inputAnalyser.smoothingTimeConstant
       });
 
-      // Create gain node and connect: source -> analyser -> gain -> destination
-      this.outputNode = this.outputAudioContext.createGain();
-      this.outputAnalyser.connect(this.outputNode);
-      this.outputNode.connect(this.outputAudioContext.destination);
-      console.log('🔗 Output audio chain connected: source -> analyser -> gain -> destination');
+      this.transport.onMessage(this.handleMessage);
+      this.openTransport();
 
-      // Construct WebSocket URI
-      const uri = `wss://${HOST}/ws/google.ai.generativelanguage.${API_VERSION}.GenerativeService.BidiGenerateContent?key=${this.apiKey}`;
+    } catch (e) {
+      console.error("Connection initialization failed", e);
+      this.isConnecting = false;
+      this.onError(e instanceof Error ? e : new Error("Failed to initialize connection"));
+    }
+  }
 
-      this.ws = new WebSocket(uri);
+  /**
+   * Create the output audio context and chain for the model's voice
+   */
+  private setupOutputAudio() {
+    this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+
+    // Create analyser for output (AI) visualization
+    this.outputAnalyser = this.outputAudioContext.createAnalyser();
+    this.outputAnalyser.fftSize = 2048; // High resolution for liquid visualizer
+    this.outputAnalyser.smoothingTimeConstant = 0.7; // Slightly more responsive
+    console.log('🎛️ Created output analyser:', {
+      fftSize: this.outputAnalyser.fftSize,
+      frequencyBinCount: this.outputAnalyser.frequencyBinCount,
+      smoothing: this.outputAnalyser.smoothingTimeConstant
+    });
 
-      this.ws.onopen = () => {
-        // RACE CONDITION FIX: Check if we were disconnected while connecting
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN || this.isDisconnecting) {
-          console.log("⚠️ Connection opened but service was disconnected/closed");
-          return;
-        }
+    // Create gain node and connect: source -> analyser -> gain -> destination
+    this.outputNode = this.outputAudioContext.createGain();
+    this.outputAnalyser.connect(this.outputNode);
+    this.outputNode.connect(this.outputAudioContext.destination);
+    console.log('🔗 Output audio chain connected: source -> analyser -> gain -> destination');
+  }
 
-        console.log("✅ Connected to Gemini");
-        this.isConnected = true;
-        this.isConnecting = false;
-        this.onStatusChange(true);
-
-        // Generate System Instruction
-        const systemInstruction = this.generateSystemInstruction(topic, style);
-        const voiceName = style === DebateStyle.AGGRESSIVE ? 'Fenrir' : 'Puck';
-
-        // Send Setup Message with transcription enabled
-        const setupMessage = {
-          setup: {
-            model: `models/${this.model}`,
-            generation_config: {
-              response_modalities: ["AUDIO"],
-              speech_config: {
-                voice_config: {
-                  prebuilt_voice_config: {
-                    voice_name: voiceName
-                  }
-                }
+  /**
+   * Whether the user is typing instead of speaking
+   */
+  private isTextMode(): boolean {
+    return this.config?.inputMode === 'text';
+  }
+
+  /**
+   * Send a typed turn from the user (text mode)
+   * @returns false if the session is not live
+   */
+  sendText(text: string): boolean {
+    const message = text.trim();
+    if (!message || !this.isConnected || !this.transport.isOpen()) return false;
+
+    this.transport.send({
+      client_content: {
+        turns: [{
+          role: 'user',
+          parts: [{ text: message }]
+        }],
+        turn_complete: true
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Open (or re-open) the live transport with the service's lifecycle handlers
+   */
+  private openTransport() {
+    this.transport.connect({
+      onOpen: this.handleTransportOpen,
+      onClose: (code, reason) => {
+        console.log(`❌ Disconnected: ${code} - ${reason}`);
+        this.handleTransportLost(null);
+      },
+      onError: (error) => {
+        this.handleTransportLost(error);
+      },
+    });
+  }
+
+  /**
+   * Transport opened - send the setup message and start streaming the microphone
+   */
+  private handleTransportOpen = () => {
+    // RACE CONDITION FIX: Check if we were disconnected while connecting
+    if (!this.transport.isOpen() || this.isDisconnecting) {
+      console.log("⚠️ Connection opened but service was disconnected/closed");
+      return;
+    }
+
+    const isResuming = this.isReconnecting;
+    console.log(isResuming ? "✅ Reconnected to Gemini" : "✅ Connected to Gemini");
+    this.isConnected = true;
+    this.isConnecting = false;
+    this.isReconnecting = false;
+    this.onStatusChange(true);
+
+    // Generate System Instruction (with a recap of the debate so far when resuming)
+    const style = this.config?.style ?? DebateStyle.COACH;
+    const persona = this.config?.opponentPersona;
+    let systemInstruction = persona
+      ? this.generatePersonaInstruction(this.config?.topic ?? '', persona)
+      : this.generateSystemInstruction(this.config?.topic ?? '', style);
+    systemInstruction += this.generateSideInstruction(this.config?.side ?? 'proposition');
+    if (this.config?.difficulty) {
+      systemInstruction += this.generateDifficultyInstruction(this.config.difficulty, Boolean(persona));
+    }
+    systemInstruction += this.generateFormatInstruction(this.format, this.getCurrentPhase());
+    if (this.isTextMode()) {
+      systemInstruction += this.generateTextModeInstruction();
+    }
+    if (isResuming) {
+      systemInstruction += this.generateRecap(this.getTranscript());
+    }
+    const voiceName = persona?.voiceName ?? getDebateStyle(style).voiceName;
+
+    // Send Setup Message with transcription enabled. Replies are always AUDIO, since
+    // native-audio models don't accept TEXT; in text mode the output transcript is
+    // the reply and the audio is simply not played unless speakReplies is set.
+    const setupMessage = {
+      setup: {
+        model: `models/${this.model}`,
+        generation_config: {
+          response_modalities: ["AUDIO"],
+          speech_config: {
+            voice_config: {
+              prebuilt_voice_config: {
+                voice_name: voiceName
               }
-            },
-            system_instruction: {
-              parts: [{ text: systemInstruction }]
-            },
-            // Enable transcription for both input and output
-            input_audio_transcription: {},
-            output_audio_transcription: {}
+            }
+          }
+        },
+        system_instruction: {
+          parts: [{ text: systemInstruction }]
+        },
+        // Transcribe whichever sides are spoken
+        ...(!this.isTextMode() && { input_audio_transcription: {} }),
+        output_audio_transcription: {},
+        // Client decides when the user is speaking (VAD / push-to-talk)
+        ...(!this.isTextMode() && this.isClientGated() && {
+          realtime_input_config: {
+            automatic_activity_detection: { disabled: true }
           }
-        };
+        })
+      }
+    };
 
-        this.ws?.send(JSON.stringify(setupMessage));
-        if (this.mediaStream) {
-          this.handleOpen(this.mediaStream);
-        }
-      };
+    this.transport.send(setupMessage);
 
-      this.ws.onmessage = async (event) => {
-        try {
-          const response = JSON.parse(await event.data.text());
-          this.handleMessage(response);
-        } catch (e) {
-          console.error("Error parsing message", e);
-        }
-      };
+    if (isResuming) {
+      // Audio input chain survived the drop - just resume streaming
+      this.vad.reset();
+      if (this.isPushToTalkActive) {
+        this.transport.send({ realtime_input: { activity_start: {} } });
+      }
+      this.onReconnectStateChange('reconnected', this.reconnectAttempts);
+      this.reconnectAttempts = 0;
+    } else if (this.mediaStream) {
+      this.recorder?.start();
+      this.handleOpen(this.mediaStream);
+    }
+  };
+
+  /**
+   * Transport closed or errored - reconnect if a session was live, otherwise give up
+   */
+  private handleTransportLost(error: Error | null) {
+    if (this.isDisconnecting) return;
 
-      this.ws.onclose = (event) => {
-        console.log(`❌ Disconnected: ${event.code} - ${event.reason}`);
-        this.handleClose();
-      };
+    const wasLive = this.isConnected || this.isReconnecting;
+    if (wasLive && this.reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+      this.scheduleReconnect();
+      return;
+    }
 
-      this.ws.onerror = (error) => {
-        console.error("WebSocket Error:", error);
-        this.handleClose();
-        this.onError(new Error("WebSocket connection failed"));
-      };
+    this.isReconnecting = false;
+    this.handleClose();
 
-    } catch (e) {
-      console.error("Connection initialization failed", e);
-      this.isConnecting = false;
-      this.onError(e instanceof Error ? e : new Error("Failed to initialize connection"));
+    if (wasLive) {
+      this.onReconnectStateChange('failed', this.reconnectAttempts);
+      this.onError(new Error("Connection lost. Could not reconnect to the live session."));
+    } else if (error) {
+      this.onError(error);
+    }
+  }
+
+  /**
+   * Retry the transport with exponential backoff, keeping audio contexts and the microphone alive
+   */
+  private scheduleReconnect() {
+    this.isConnected = false;
+    this.isReconnecting = true;
+    this.reconnectAttempts++;
+
+    // Drop any queued model audio - the model will resume from the recap
+    this.stopAllAudio();
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempts - 1),
+      RECONNECT_MAX_DELAY_MS
+    );
+    console.log(`🔄 Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})`);
+    this.onReconnectStateChange('reconnecting', this.reconnectAttempts);
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.isDisconnecting || !this.isReconnecting) return;
+      this.openTransport();
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
   }
 
@@ -215,21 +442,69 @@ export class GeminiLiveService {
     if (!this.inputAudioContext) return;
 
     this.inputSource = this.inputAudioContext.createMediaStreamSource(stream);
-    this.processor = this.inputAudioContext.createScriptProcessor(512, 1, 1);
 
-    // Connect input audio chain: source -> analyser -> processor -> destination
+    // Connect input audio chain: source -> analyser -> capture node
+    const captureInput: AudioNode = this.inputAnalyser ?? this.inputSource;
     if (this.inputAnalyser) {
       this.inputSource.connect(this.inputAnalyser);
-      this.inputAnalyser.connect(this.processor);
-      console.log('🔗 Input audio chain: source -> analyser -> processor -> destination');
-    } else {
-      this.inputSource.connect(this.processor);
     }
 
-    this.processor.onaudioprocess = (e) => {
-      // Guard: Do not process or send if not connected or socket is not open
-      if (!this.isConnected || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    // Prefer the AudioWorklet (off the main thread); fall back to ScriptProcessorNode
+    if (await this.startWorkletCapture(captureInput)) {
+      console.log('🔗 Input audio chain: source -> analyser -> audio worklet');
+      return;
+    }
 
+    if (!this.inputAudioContext || this.isDisconnecting) return;
+    this.startScriptProcessorCapture(captureInput);
+    console.log('🔗 Input audio chain: source -> analyser -> script processor -> destination');
+  };
+
+  /**
+   * Capture microphone audio with the AudioWorklet in public/audio-processor.js.
+   * PCM16 conversion and chunk batching happen on the audio thread.
+   * @returns false when worklets are unavailable or the module fails to load
+   */
+  private async startWorkletCapture(captureInput: AudioNode): Promise<boolean> {
+    const context = this.inputAudioContext;
+    if (!context?.audioWorklet || typeof AudioWorkletNode === 'undefined') {
+      console.log('⚠️ AudioWorklet not supported, using ScriptProcessorNode');
+      return false;
+    }
+
+    try {
+      await context.audioWorklet.addModule(`${import.meta.env.BASE_URL}audio-processor.js`);
+    } catch (e) {
+      console.warn('⚠️ Failed to load audio worklet, using ScriptProcessorNode', e);
+      return false;
+    }
+
+    // Session may have ended while the module was loading
+    if (this.inputAudioContext !== context || this.isDisconnecting) return true;
+
+    this.workletNode = new AudioWorkletNode(context, 'audio-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: { chunkSize: WORKLET_CHUNK_SIZE },
+    });
+    this.workletNode.port.onmessage = (event: MessageEvent<{ pcm: ArrayBuffer; rms: number }>) => {
+      this.handleInputChunk(event.data.pcm, event.data.rms);
+    };
+    captureInput.connect(this.workletNode);
+    return true;
+  }
+
+  /**
+   * Legacy main-thread capture for browsers without AudioWorklet support
+   */
+  private startScriptProcessorCapture(captureInput: AudioNode) {
+    if (!this.inputAudioContext) return;
+
+    this.processor = this.inputAudioContext.createScriptProcessor(512, 1, 1);
+    captureInput.connect(this.processor);
+
+    this.processor.onaudioprocess = (e) => {
       const inputData = e.inputBuffer.getChannelData(0);
 
       // Simple volume meter
@@ -239,45 +514,150 @@ export class GeminiLiveService {
         sum += sample * sample;
       }
       const rms = Math.sqrt(sum / inputData.length);
-      this.onAudioLevel(rms * 50);
 
       // Convert Float32 (Browser) -> Int16 PCM (Gemini)
-      const pcm16 = this.floatTo16BitPCM(inputData);
-
-      // Convert to Base64
-      const base64Data = this.arrayBufferToBase64(pcm16);
-
-      // Send Realtime Input
-      const msg = {
-        realtime_input: {
-          media_chunks: [{
-            mime_type: "audio/pcm",
-            data: base64Data
-          }]
-        }
-      };
-
-      this.ws?.send(JSON.stringify(msg));
+      this.handleInputChunk(this.floatTo16BitPCM(inputData), rms);
     };
 
-    // Connect processor to destination (source->analyser->processor is already connected above)
+    // ScriptProcessorNode only runs while connected to the destination
     this.processor.connect(this.inputAudioContext.destination);
-  };
+  }
+
+  /**
+   * Stream one chunk of PCM16 microphone audio to the model
+   */
+  private handleInputChunk(pcm16: ArrayBuffer, rms: number) {
+    // Keep recording through reconnects, even while nothing is streamed
+    if (this.isConnected || this.isReconnecting) {
+      this.recorder?.addInput(pcm16);
+    }
 
-  private handleMessage = async (response: any) => {
+    // Guard: Do not process or send if not connected or socket is not open
+    if (!this.isConnected || !this.transport.isOpen()) return;
+
+    this.onAudioLevel(rms * 50);
+
+    // Delivery metrics only count what the model can hear
+    if (!this.voiceSettings.pushToTalk || this.isPushToTalkActive) {
+      this.speechTracker.addLevel(rms);
+    }
+
+    // Push-to-talk: stream only while the key is held
+    if (this.voiceSettings.pushToTalk) {
+      if (this.isPushToTalkActive) {
+        this.sendAudioChunk(pcm16);
+      }
+      return;
+    }
+
+    if (!this.voiceSettings.vadEnabled) {
+      this.sendAudioChunk(pcm16);
+      return;
+    }
+
+    // VAD: stream speech frames only, bracketed by activity markers
+    const { chunks, event } = this.vad.process(pcm16);
+    if (event === 'speech-start') {
+      this.transport.send({ realtime_input: { activity_start: {} } });
+      this.onSpeechActivity(event);
+    }
+    chunks.forEach(chunk => this.sendAudioChunk(chunk));
+    if (event === 'speech-end') {
+      this.transport.send({ realtime_input: { activity_end: {} } });
+      this.onSpeechActivity(event);
+    }
+  }
+
+  private sendAudioChunk(pcm16: ArrayBuffer) {
+    // Send Realtime Input
+    const msg = {
+      realtime_input: {
+        media_chunks: [{
+          mime_type: "audio/pcm",
+          data: this.arrayBufferToBase64(pcm16)
+        }]
+      }
+    };
+
+    this.transport.send(msg);
+  }
+
+  /**
+   * Whether microphone frames are gated on the client instead of the server's VAD
+   */
+  private isClientGated(): boolean {
+    return this.voiceSettings.pushToTalk || this.voiceSettings.vadEnabled;
+  }
+
+  /**
+   * Press / release the push-to-talk key (no-op unless push-to-talk is enabled)
+   */
+  setPushToTalk(active: boolean) {
+    if (!this.voiceSettings.pushToTalk || this.isPushToTalkActive === active) return;
+    this.isPushToTalkActive = active;
+
+    if (this.isConnected && this.transport.isOpen()) {
+      this.transport.send({ realtime_input: active ? { activity_start: {} } : { activity_end: {} } });
+    }
+    this.onSpeechActivity(active ? 'speech-start' : 'speech-end');
+  }
+
+  /**
+   * Stretches of the session where the microphone picked up the user speaking
+   */
+  getSpeechSegments(): SpeechSegment[] {
+    return this.speechTracker.getSegments();
+  }
+
+  /**
+   * Current phase of a structured format, or null for free-form
+   */
+  getCurrentPhase(): DebatePhase | null {
+    return this.format.phases[this.phaseIndex] ?? null;
+  }
+
+  /**
+   * Move to another phase of the debate format and announce it to the model
+   * as a moderator message. The model only takes the turn when it holds the floor.
+   */
+  setPhase(index: number) {
+    const phase = this.format.phases[index];
+    if (!phase || index === this.phaseIndex) return;
+    this.phaseIndex = index;
+
+    if (!this.isConnected || !this.transport.isOpen()) return;
+
+    console.log(`📣 Phase ${index + 1}/${this.format.phases.length}: ${phase.name}`);
+    this.transport.send({
+      client_content: {
+        turns: [{
+          role: 'user',
+          parts: [{ text: this.generatePhaseAnnouncement(phase, index) }]
+        }],
+        turn_complete: phase.speaker !== 'user'
+      }
+    });
+  }
+
+  private handleMessage = async (message: unknown) => {
     // Ignore messages if we're disconnected or disconnecting
     if (!this.isConnected || this.isDisconnecting) {
       console.log("⚠️ Ignoring message - already disconnected");
       return;
     }
 
-    // 1. Handle Audio Output
+    if (!isLiveServerMessage(message)) {
+      console.warn("Ignoring malformed server message", message);
+      return;
+    }
+    const response = message;
+
+    // 1. Handle Audio Output (not played in text mode unless replies are spoken)
     if (response.serverContent?.modelTurn?.parts) {
       const parts = response.serverContent.modelTurn.parts;
       for (const part of parts) {
-        if (part.inlineData && part.inlineData.mimeType.startsWith("audio/")) {
-          const base64Audio = part.inlineData.data;
-          this.playAudioChunk(base64Audio);
+        if (part.inlineData?.data && part.inlineData.mimeType?.startsWith("audio/")) {
+          this.playAudioChunk(part.inlineData.data);
         }
       }
     }
@@ -341,6 +721,10 @@ export class GeminiLiveService {
       });
 
       source.start(this.nextStartTime);
+      this.recorder?.addOutput(
+        audioBuffer.getChannelData(0),
+        this.nextStartTime - this.outputAudioContext.currentTime
+      );
       this.nextStartTime += audioBuffer.duration;
       this.sources.add(source);
     } catch (e) {
@@ -360,6 +744,9 @@ export class GeminiLiveService {
     });
     this.sources.clear();
     this.nextStartTime = 0;
+
+    // Queued audio that never played should not end up in the recording
+    this.recorder?.truncateOutput();
   }
 
   private handleClose = () => {
@@ -368,6 +755,10 @@ export class GeminiLiveService {
     this.onStatusChange(false);
 
     // Stop audio processing
+    if (this.workletNode) {
+      this.workletNode.disconnect();
+      this.workletNode.port.onmessage = null;
+    }
     if (this.processor) {
       this.processor.disconnect();
       this.processor.onaudioprocess = null;
@@ -379,11 +770,7 @@ export class GeminiLiveService {
     // Stop all audio playback
     this.stopAllAudio();
 
-    // Don't close WebSocket here - it's already closing
-    // Just clear the reference
-    if (this.ws) {
-      this.ws = null;
-    }
+    // Don't close the transport here - it's already closing
   }
 
   // Helper functions
@@ -398,137 +785,30 @@ export class GeminiLiveService {
   }
 
   private arrayBufferToBase64(buffer: ArrayBuffer) {
-    let binary = "";
+    // Build the binary string in blocks rather than one character at a time
     const bytes = new Uint8Array(buffer);
-    for (let i = 0; i < bytes.byteLength; i++) {
-      const byte = bytes[i] ?? 0;
-      binary += String.fromCharCode(byte);
+    const blockSize = 0x8000;
+    let binary = "";
+    for (let i = 0; i < bytes.byteLength; i += blockSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + blockSize));
     }
     return window.btoa(binary);
   }
 
-  async analyzeDebate(transcript: ChatMessage[], topic: string): Promise<DebateAnalysis | null> {
-    // Validate user participation (AC1, AC3, AC6)
-    console.log('📊 Analyzing debate with transcript:', transcript);
-    const userMessages = transcript.filter(m => m.role === 'user');
-    console.log('👤 User messages found:', userMessages.length, userMessages);
-    
-    // Check if user spoke at all
-    if (userMessages.length === 0) {
-      console.log('⚠️ No user participation detected - no user messages');
-      return null;
-    }
-    
-    // Check if user spoke enough (minimum 5 words - reduced threshold)
-    const totalWords = userMessages.reduce((count, msg) => {
-      const words = msg.text.trim().split(/\s+/).filter(w => w.length > 0);
-      return count + words.length;
-    }, 0);
-    
-    console.log(`📝 Total user words: ${totalWords}`);
-    
-    if (totalWords < 5) {
-      console.log(`⚠️ Insufficient user participation detected - only ${totalWords} words (minimum 5 required)`);
-      return null;
-    }
-
-    const conversation = transcript
-      .filter(m => m.role !== 'system')
-      .map(m => `${m.role.toUpperCase()}: ${m.text}`)
-      .join('\n');
-
-    const prompt = `You are a fair and constructive debate coach analyzing the following debate transcript on the topic "${topic}".
-
-TRANSCRIPT:
-${conversation}
-
-Generate a detailed JSON analysis of the USER'S performance.
-
-EVALUATION GUIDELINES:
-1. **Be Fair and Balanced**: Recognize effort and engagement while providing constructive feedback.
-
-2. **Score Distribution**:
-   - 0-20: Minimal participation or completely off-topic
-   - 21-40: Basic participation but needs significant improvement
-   - 41-60: Decent effort with clear room for growth
-   - 61-80: Good performance with strong arguments and clarity
-   - 81-100: Excellent debating skills, persuasive and articulate
-
-3. **Baseline Scoring**: Anyone who participates and engages in the debate should receive AT MINIMUM:
-   - Overall Score: 40-50 (for basic participation)
-   - Individual metrics: 40-60 (for attempting to engage)
-
-4. **Scoring Criteria**:
-   - **Vocabulary**: 40-60 for basic conversation, 60-80 for good vocabulary, 80+ for advanced
-   - **Clarity**: 50-70 for understandable speech, 70-85 for clear communication, 85+ for excellent
-   - **Argument Strength**: 45-65 for basic arguments, 65-80 for solid reasoning, 80+ for exceptional
-   - **Persuasion**: 45-65 for engaged participation, 65-80 for convincing delivery, 80+ for compelling
-   - **Adaptability**: 45-65 for responsive dialogue, 65-80 for good adaptation, 80+ for excellent
-
-5. **Important**: If the user is clearly trying to debate and responding to the AI, they should score 35-55 range minimum. Only give scores below 35 if there's truly minimal participation or completely off-topic responses. Like overall U have to check the User speaking level as well as U have to check If a user can deliver its point successfully to opponent.
-
-6. **Archetype**: Create an encouraging yet accurate archetype name based on their style
-7. **Wildcard Insight**: Find something specific and interesting about their approach
-8. **Strengths**: List 2-3 genuine strengths they demonstrated
-9. **Weaknesses**: Identify 2-3 areas for improvement in a constructive way
-10. **Suggestions**: Provide 4-6 specific, actionable tips for improvement
-
-CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and trying to debate, they deserve 50-70 range. Reserve low scores (below 40) ONLY for cases of no participation or completely incoherent responses. Recognize effort and engagement with appropriate scores.`;
-
-    try {
-      // Get analysis model from localStorage
-      const analysisModel = localStorage.getItem('mindmelee_analysis_model') || 'gemini-2.5-flash';
-      
-      const result = await this.ai.models.generateContent({
-        model: analysisModel,
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: 'object',
-            properties: {
-              score: { type: 'number', description: "Overall score 0-100" },
-              confidenceLevel: { type: 'string', enum: ["Low", "Medium", "High", "Unstoppable"] },
-              englishProficiency: { type: 'string', enum: ["Beginner", "Intermediate", "Advanced", "Native"] },
-              vocabularyScore: { type: 'number', description: "0-100" },
-              clarityScore: { type: 'number', description: "0-100" },
-              argumentStrength: { type: 'number', description: "0-100" },
-              persuasionScore: { type: 'number', description: "0-100" },
-              strategicAdaptability: { type: 'number', description: "0-100" },
-              archetype: { type: 'string', description: "Creative label for the user" },
-              wildcardInsight: { type: 'string', description: "Unique observation" },
-              emotionalState: { type: 'string', description: "e.g. Calm, Agitated" },
-              strengths: { type: 'array', items: { type: 'string' } },
-              weaknesses: { type: 'array', items: { type: 'string' } },
-              suggestions: { type: 'array', items: { type: 'string' } }
-            },
-            required: ["score", "confidenceLevel", "englishProficiency", "vocabularyScore", "clarityScore", "argumentStrength", "persuasionScore", "strategicAdaptability", "archetype", "wildcardInsight", "emotionalState", "strengths", "weaknesses", "suggestions"]
-          }
-        }
-      });
+  /**
+   * Post-session analysis of the user's performance (see analysisService)
+   * @returns null if the user didn't participate enough to analyze
+   */
+  analyzeDebate(transcript: ChatMessage[], config: DebateConfig, options?: AnalysisRequestOptions): Promise<DebateAnalysis | null> {
+    return analyzeDebate(this.ai, transcript, config, options);
+  }
 
-      const text = result.text;
-      if (!text) throw new Error("No analysis generated");
-      return JSON.parse(text) as DebateAnalysis;
-    } catch (e) {
-      console.error("Analysis failed", e);
-      return {
-        score: 0,
-        confidenceLevel: 'Low',
-        englishProficiency: 'Beginner',
-        vocabularyScore: 0,
-        clarityScore: 0,
-        argumentStrength: 0,
-        persuasionScore: 0,
-        strategicAdaptability: 0,
-        archetype: 'The Unknown',
-        wildcardInsight: 'Data unavailable due to error.',
-        emotionalState: 'Unknown',
-        strengths: ['Analysis failed'],
-        weaknesses: ['Could not process transcript'],
-        suggestions: ['Try again']
-      };
-    }
+  /**
+   * Post-session argument mining (see analysisService)
+   * @returns null if the transcript is empty, mining failed or was cancelled
+   */
+  mineArguments(transcript: ChatMessage[], config: DebateConfig, signal?: AbortSignal): Promise<ArgumentMap | null> {
+    return mineArguments(this.ai, transcript, config, signal);
   }
 
   async disconnect() {
@@ -544,8 +824,22 @@ CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and
     // Immediately mark as disconnected to stop audio processing
     this.isConnected = false;
     this.isConnecting = false;
+    this.isReconnecting = false;
+    this.clearReconnectTimer();
+    this.isPushToTalkActive = false;
+    this.vad.reset();
 
     // Stop audio processing FIRST (this prevents new audio from being sent/received)
+    if (this.workletNode) {
+      try {
+        this.workletNode.disconnect();
+        this.workletNode.port.onmessage = null;
+      } catch (e) {
+        console.error("Error disconnecting audio worklet:", e);
+      }
+      this.workletNode = null;
+    }
+
     if (this.processor) {
       try {
         this.processor.disconnect();
@@ -568,24 +862,8 @@ CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and
     // Stop all playing audio immediately
     this.stopAllAudio();
 
-    // Close WebSocket connection
-    if (this.ws) {
-      const currentWs = this.ws;
-      this.ws = null; // Clear reference immediately to prevent reuse
-
-      // Remove event handlers to prevent any more messages
-      currentWs.onmessage = null;
-      currentWs.onerror = null;
-      currentWs.onclose = null;
-
-      if (currentWs.readyState === WebSocket.OPEN || currentWs.readyState === WebSocket.CONNECTING) {
-        try {
-          currentWs.close(1000, 'User ended session');
-        } catch (e) {
-          console.error("Error closing WebSocket:", e);
-        }
-      }
-    }
+    // Close the live transport (detaches its handlers first)
+    this.transport.close(1000, 'User ended session');
 
     // Stop all media tracks to release microphone
     if (this.mediaStream) {
@@ -629,34 +907,161 @@ CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and
 
   private generateSystemInstruction(topic: string, style: DebateStyle): string {
     const baseInstruction = `You are participating in a debate about: "${topic}".`;
+    return `${baseInstruction}
+
+${getDebateStyle(style).instruction}`;
+  }
+
+  /**
+   * Compile a user-authored opponent persona into the system instruction.
+   * Replaces the built-in style block entirely.
+   */
+  private generatePersonaInstruction(topic: string, persona: OpponentPersona): string {
+    const interruptionRules: Record<InterruptionFrequency, string> = {
+      never: 'Never interrupt the user. Always wait until they have finished speaking.',
+      rarely: 'Only interrupt the user if they make a serious factual error or ramble for a long time.',
+      sometimes: 'Interrupt the user occasionally when you hear a weak or evasive point.',
+      often: 'Interrupt the user frequently to challenge weak reasoning and keep up the pressure.',
+    };
+    const forbidden = persona.forbiddenTactics.length > 0
+      ? `
+
+You must NEVER use any of these tactics:
+${persona.forbiddenTactics.map(tactic => `- ${tactic}`).join('\n')}`
+      : '';
+
+    return `You are participating in a debate about: "${topic}".
+
+You are playing a custom opponent called "${persona.name}". Stay in character for the whole debate.
+Tone: ${persona.tone}
+Knowledge focus: draw your arguments and examples mainly from ${persona.knowledgeFocus}.
+Interruptions: ${interruptionRules[persona.interruptionFrequency]}${forbidden}`;
+  }
+
+  /**
+   * Tune argument depth, interruptions and fallacy tolerance for the chosen difficulty
+   * @param keepPersonaInterruptions - A custom persona already sets its own interruption rate
+   */
+  private generateDifficultyInstruction(tuning: DifficultyTuning, keepPersonaInterruptions: boolean): string {
+    const depth: Record<DifficultyTuning['argumentDepth'], string> = {
+      basic: 'Keep your arguments simple and concrete: one clear point at a time, everyday examples, no jargon.',
+      moderate: 'Make well-reasoned arguments with supporting examples, and address the main points the user raises.',
+      advanced: 'Make layered, sophisticated arguments: anticipate rebuttals, use evidence and second-order effects, and attack the weakest link in the user\'s reasoning.',
+    };
+    const interruptions: Record<InterruptionFrequency, string> = {
+      never: 'Never interrupt the user.',
+      rarely: 'Rarely interrupt the user; let them finish their points.',
+      sometimes: 'Interrupt the user now and then when they ramble or dodge a question.',
+      often: 'Interrupt the user often when their reasoning is weak, and keep the pressure high.',
+    };
+    const fallacies: Record<DifficultyTuning['fallacyTolerance'], string> = {
+      lenient: 'Let minor logical slips go; only point out a fallacy if it is central to their argument, and do it gently.',
+      balanced: 'Point out clear logical fallacies when they matter to the debate.',
+      strict: 'Call out every logical fallacy, unsupported claim and vague term immediately and by name.',
+    };
+
+    const lines = [depth[tuning.argumentDepth], fallacies[tuning.fallacyTolerance]];
+    if (!keepPersonaInterruptions) {
+      lines.splice(1, 0, interruptions[tuning.interruptionRate]);
+    }
+
+    return `
+
+DIFFICULTY (${tuning.intensity}/100):
+${lines.map(line => `- ${line}`).join('\n')}`;
+  }
+
+  /**
+   * The user types their turns; keep replies readable as chat messages
+   */
+  private generateTextModeInstruction(): string {
+    return `
+
+The user is typing their arguments instead of speaking. Reply in short paragraphs of a few sentences, the way you would in a chat. Do not use markdown headings or bullet lists.`;
+  }
+
+  /**
+   * Assign the model the side opposite to the user's
+   */
+  private generateSideInstruction(userSide: DebateSide): string {
+    const userPosition = userSide === 'proposition'
+      ? 'the PROPOSITION (arguing FOR the motion)'
+      : 'the OPPOSITION (arguing AGAINST the motion)';
+    const modelPosition = userSide === 'proposition'
+      ? 'the OPPOSITION: argue AGAINST the motion'
+      : 'the PROPOSITION: argue FOR the motion';
+
+    return `
+
+SIDES: The user is ${userPosition}. You are ${modelPosition}. Hold this position for the whole debate, even if you personally find the other side more convincing. Never switch sides or argue the user's case for them.`;
+  }
+
+  /**
+   * Describe a structured format and the current phase for the system instruction
+   */
+  private generateFormatInstruction(format: DebateFormat, currentPhase: DebatePhase | null): string {
+    if (format.phases.length === 0) return '';
+
+    const phaseList = format.phases
+      .map((phase, index) => {
+        const minutes = Math.round((phase.durationSeconds / 60) * 10) / 10;
+        const floor = phase.speaker === 'user' ? 'user speaks' : phase.speaker === 'model' ? 'you speak' : 'exchange';
+        return `${index + 1}. ${phase.name} (${minutes} min, ${floor}): ${phase.instruction}`;
+      })
+      .join('\n');
+
+    let instruction = `
 
-    if (style === DebateStyle.COACH) {
-      return `${baseInstruction}
-
-You are a supportive debate coach helping the user improve their argumentation skills. 
-Your role is to:
-- Provide constructive counter-arguments that challenge their thinking
-- Point out logical fallacies or weak points in a helpful manner
-- Encourage critical thinking and deeper analysis
-- Maintain a respectful and educational tone
-- Help them develop stronger debate techniques
-
-Use the "Puck" voice configuration for a friendly, approachable tone.`;
-    } else {
-      return `${baseInstruction}
-
-You are an aggressive debate opponent who challenges the user fiercely.
-Your role is to:
-- Present strong counter-arguments with conviction
-- Use forceful language and rhetorical techniques
-- Interrupt when you detect weak reasoning
-- Push back hard on their positions
-- Create a high-pressure debate environment
-- Be relentless in exposing flaws in their arguments
-
-Use the "Fenrir" voice configuration for a powerful, assertive tone.
-Feel free to use strong language and interrupt frequently to maintain pressure.`;
+This debate follows the "${format.name}" format:
+${phaseList}
+
+A moderator message starting with [MODERATOR] announces each new phase. Follow the phase rules strictly: stay silent during the user's phases and keep to the purpose of each phase.`;
+
+    if (currentPhase) {
+      instruction += `
+
+CURRENT PHASE: ${currentPhase.name}. ${currentPhase.instruction}`;
+    }
+    return instruction;
+  }
+
+  private generatePhaseAnnouncement(phase: DebatePhase, index: number): string {
+    const position = `Phase ${index + 1} of ${this.format.phases.length}`;
+    const floor = phase.speaker === 'user'
+      ? 'The user has the floor. Stay silent until the next phase.'
+      : phase.speaker === 'model'
+        ? 'You have the floor. Begin now.'
+        : 'Open exchange. Keep your turns short.';
+    return `[MODERATOR] ${position}: ${phase.name}. ${phase.instruction} ${floor}`;
+  }
+
+  /**
+   * Condense the transcript so far into a recap appended to the system instruction on resume
+   */
+  private generateRecap(transcript: ChatMessage[]): string {
+    const turns = transcript
+      .filter(m => m.role !== 'system' && m.text.trim().length > 0)
+      .slice(-RECAP_MAX_TURNS)
+      .map(m => {
+        const text = m.text.trim();
+        const clipped = text.length > RECAP_MAX_CHARS_PER_TURN
+          ? `${text.slice(0, RECAP_MAX_CHARS_PER_TURN)}...`
+          : text;
+        return `${m.role === 'user' ? 'USER' : 'YOU'}: ${clipped}`;
+      });
+
+    if (turns.length === 0) {
+      return `
+
+The connection was briefly interrupted before anything was said. Start the debate now.`;
     }
+
+    return `
+
+The connection was briefly interrupted. Recap of the debate so far (most recent last):
+${turns.join('\n')}
+
+Continue the debate from where it left off. Do not greet the user again or restart the debate.`;
   }
 
   getConnectionStatus(): boolean {
@@ -0,0 +1,149 @@
+/**
+ * Judge panel - optional multi-judge scoring for post-session analysis
+ *
+ * Each judge scores the transcript independently against the selected rubric,
+ * with its own emphasis and, for some judges, the other analysis model. The
+ * criterion scores are combined per criterion and the overall score is the
+ * rubric's weighted average of the combined scores. Written feedback comes
+ * from the judge whose ballot is closest to that score.
+ */
+
+import type {
+  AnalysisRubric,
+  DebateAnalysis,
+  JudgeBallot,
+  JudgeDefinition,
+  JudgePanelMode,
+} from '../types';
+import { computeRubricScore } from './analysisRubrics';
+
+/** Share of ballots dropped from each end before averaging in trimmed-mean mode */
+const TRIM_FRACTION = 0.2;
+
+/** Agreement can't be measured from fewer ballots than this */
+const MIN_BALLOTS_FOR_AGREEMENT = 2;
+
+/**
+ * Panel judges, in the order their ballots are shown
+ */
+export const JUDGE_PANEL: JudgeDefinition[] = [
+  {
+    id: 'chair',
+    name: 'Chair',
+    model: 'selected',
+    emphasis: 'Weigh every criterion evenly and judge the debate as a whole.',
+  },
+  {
+    id: 'logician',
+    name: 'Logician',
+    model: 'selected',
+    emphasis: 'Focus on the reasoning: whether claims were supported, whether rebuttals actually answered the opponent, and whether anything was left unanswered.',
+  },
+  {
+    id: 'audience',
+    name: 'Audience Judge',
+    model: 'alternate',
+    emphasis: 'Judge as an intelligent lay listener with no debate training: who would you have believed, and how easy was the user to follow?',
+  },
+  {
+    id: 'language',
+    name: 'Language Coach',
+    model: 'selected',
+    emphasis: 'Pay particular attention to how the user expressed their points: word choice, sentence structure and clarity, without ignoring the substance.',
+  },
+  {
+    id: 'skeptic',
+    name: 'Skeptic',
+    model: 'alternate',
+    emphasis: 'Be the hardest judge on the panel: give no credit for assertions without support and none for rhetoric that hides a weak argument.',
+  },
+];
+
+/** Display names for the aggregation modes */
+export const PANEL_AGGREGATION_LABELS: Record<Exclude<JudgePanelMode, 'off'>, string> = {
+  median: 'Median',
+  trimmedMean: 'Trimmed mean',
+};
+
+/**
+ * Median of the values (the mean of the middle two for an even count)
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+}
+
+/**
+ * Mean after dropping TRIM_FRACTION of the values from each end
+ */
+function trimmedMean(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.floor(sorted.length * TRIM_FRACTION);
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+}
+
+/**
+ * Combine the panel's analyses into one
+ * @param judged - At least one judge's analysis; each analysis score is that judge's rubric score
+ */
+export function combineJudgeAnalyses(
+  rubric: AnalysisRubric,
+  aggregation: Exclude<JudgePanelMode, 'off'>,
+  judged: { judge: JudgeDefinition; analysis: DebateAnalysis; verdict: string }[]
+): DebateAnalysis {
+  const aggregate = aggregation === 'median' ? median : trimmedMean;
+
+  const ballots: JudgeBallot[] = judged.map(({ judge, analysis, verdict }) => ({
+    judgeId: judge.id,
+    judgeName: judge.name,
+    model: analysis.analysisModel ?? '',
+    score: analysis.score,
+    vocabularyScore: analysis.vocabularyScore,
+    clarityScore: analysis.clarityScore,
+    argumentStrength: analysis.argumentStrength,
+    persuasionScore: analysis.persuasionScore,
+    strategicAdaptability: analysis.strategicAdaptability,
+    verdict,
+  }));
+
+  // A ballot missing a criterion is left out of that criterion rather than counted as 0
+  const criteria = Object.fromEntries(
+    rubric.criteria.flatMap(criterion => {
+      const scores = ballots.flatMap(ballot => ballot[criterion.key] ?? []);
+      return scores.length > 0 ? [[criterion.key, Math.round(aggregate(scores))]] : [];
+    })
+  );
+
+  const score = computeRubricScore(rubric, { ...judged[0]!.analysis, ...criteria });
+  const ballotScores = ballots.map(ballot => ballot.score);
+
+  // Feedback should read consistently with the panel score, so take it from the closest ballot
+  const lead = judged.reduce((closest, candidate) =>
+    Math.abs(candidate.analysis.score - score) < Math.abs(closest.analysis.score - score) ? candidate : closest
+  );
+
+  return {
+    ...lead.analysis,
+    ...criteria,
+    score,
+    judgePanel: {
+      aggregation,
+      ballots,
+      panelSize: JUDGE_PANEL.length,
+      spread: ballots.length < MIN_BALLOTS_FOR_AGREEMENT ? null : Math.max(...ballotScores) - Math.min(...ballotScores),
+    },
+  };
+}
+
+/**
+ * How far the panel agreed, from the spread between the highest and lowest ballot
+ * @returns 'insufficient' when too few judges returned a ballot to compare
+ */
+export function getPanelAgreement(spread: number | null): 'strong' | 'moderate' | 'split' | 'insufficient' {
+  if (spread === null) return 'insufficient';
+  if (spread <= 5) return 'strong';
+  if (spread <= 12) return 'moderate';
+  return 'split';
+}
@@ -0,0 +1,186 @@
+/**
+ * Live session transports
+ *
+ * GeminiLiveService speaks the BidiGenerateContent JSON protocol (setup,
+ * realtime_input, serverContent) over a LiveTransport. The default transport
+ * talks straight to Google's WebSocket endpoint; any other WebSocket URL that
+ * speaks the same protocol (a self-hosted proxy, a local stand-in server) can
+ * be plugged in instead.
+ */
+
+// Constants for Gemini Live API
+const HOST = "generativelanguage.googleapis.com";
+const API_VERSION = "v1alpha";
+
+/**
+ * Lifecycle callbacks registered when a transport connects
+ */
+export interface LiveTransportHandlers {
+  onOpen: () => void;
+  onClose: (code: number, reason: string) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * The parts of a server message GeminiLiveService reads. Other message types
+ * (setupComplete, toolCall, ...) are received but ignored.
+ */
+export interface LiveServerMessage {
+  serverContent?: {
+    modelTurn?: {
+      parts?: Array<{ inlineData?: { mimeType?: string; data?: string } }>;
+    };
+    outputTranscription?: { text?: string };
+    inputTranscription?: { text?: string };
+    interrupted?: boolean;
+    turnComplete?: boolean;
+  };
+}
+
+/**
+ * Receives every parsed JSON message from the server, unchecked
+ */
+export type LiveMessageHandler = (message: unknown) => void;
+
+/**
+ * Whether a parsed message can be read as a LiveServerMessage
+ */
+export function isLiveServerMessage(message: unknown): message is LiveServerMessage {
+  if (!message || typeof message !== "object") {
+    return false;
+  }
+  const { serverContent } = message as { serverContent?: unknown };
+  return serverContent === undefined || (serverContent !== null && typeof serverContent === "object");
+}
+
+/**
+ * Minimal duplex channel used by GeminiLiveService
+ */
+export interface LiveTransport {
+  /** Open the channel. Calling connect again replaces the previous channel. */
+  connect(handlers: LiveTransportHandlers): void;
+  /** Serialize and send a protocol message */
+  send(message: object): void;
+  /** Register the handler for incoming protocol messages */
+  onMessage(handler: LiveMessageHandler): void;
+  /** Close the channel without firing onClose/onError */
+  close(code?: number, reason?: string): void;
+  /** Whether messages can currently be sent */
+  isOpen(): boolean;
+}
+
+/**
+ * WebSocket transport for any endpoint speaking the Live JSON protocol
+ */
+export class WebSocketTransport implements LiveTransport {
+  private ws: WebSocket | null = null;
+  private messageHandler: LiveMessageHandler | null = null;
+  private readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  connect(handlers: LiveTransportHandlers): void {
+    // Drop any previous socket silently before opening a new one
+    this.close();
+
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      // Ignore sockets that were replaced or closed while connecting
+      if (this.ws !== ws) return;
+      handlers.onOpen();
+    };
+
+    ws.onmessage = async (event) => {
+      if (this.ws !== ws) return;
+      try {
+        const response = JSON.parse(await readMessageData(event.data));
+        this.messageHandler?.(response);
+      } catch (e) {
+        console.error("Error parsing message", e);
+      }
+    };
+
+    ws.onclose = (event) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      handlers.onClose(event.code, event.reason);
+    };
+
+    ws.onerror = (error) => {
+      if (this.ws !== ws) return;
+      console.error("WebSocket Error:", error);
+      this.ws = null;
+      handlers.onError(new Error("WebSocket connection failed"));
+    };
+  }
+
+  send(message: object): void {
+    if (!this.isOpen()) return;
+    this.ws?.send(JSON.stringify(message));
+  }
+
+  onMessage(handler: LiveMessageHandler): void {
+    this.messageHandler = handler;
+  }
+
+  close(code: number = 1000, reason?: string): void {
+    if (!this.ws) return;
+
+    const currentWs = this.ws;
+    this.ws = null; // Clear reference immediately to prevent reuse
+
+    // Remove event handlers to prevent any more messages
+    currentWs.onopen = null;
+    currentWs.onmessage = null;
+    currentWs.onerror = null;
+    currentWs.onclose = null;
+
+    if (currentWs.readyState === WebSocket.OPEN || currentWs.readyState === WebSocket.CONNECTING) {
+      try {
+        currentWs.close(code, reason);
+      } catch (e) {
+        console.error("Error closing WebSocket:", e);
+      }
+    }
+  }
+
+  isOpen(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+}
+
+/**
+ * Google's hosted BidiGenerateContent endpoint
+ */
+export class GeminiWebSocketTransport extends WebSocketTransport {
+  constructor(apiKey: string) {
+    super(`wss://${HOST}/ws/google.ai.generativelanguage.${API_VERSION}.GenerativeService.BidiGenerateContent?key=${apiKey}`);
+  }
+}
+
+/**
+ * Create the transport for a live session
+ * @param apiKey - Gemini API key, used when no custom endpoint is given
+ * @param endpoint - Optional ws:// or wss:// URL of a proxy or stand-in server
+ */
+export function createLiveTransport(apiKey: string, endpoint?: string): LiveTransport {
+  const customEndpoint = endpoint?.trim();
+  if (customEndpoint) {
+    return new WebSocketTransport(customEndpoint);
+  }
+  return new GeminiWebSocketTransport(apiKey);
+}
+
+/**
+ * Google sends Blob frames, proxies commonly send text frames
+ */
+async function readMessageData(data: unknown): Promise<string> {
+  if (typeof data === 'string') return data;
+  if (data instanceof Blob) return data.text();
+  if (data instanceof ArrayBuffer) return new TextDecoder().decode(data);
+  return String(data);
+}
@@ -0,0 +1,99 @@
+/**
+ * Prep service - research brief for the optional prep phase before a debate
+ *
+ * Uses the analysis model (not the live model) since the brief is a single
+ * structured request rather than a conversation.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type { DebateSide, PrepBrief } from '../types';
+import { getAnalysisModel } from './storageService';
+
+/** Prep countdown options offered on the Dashboard, in seconds (0 = skip prep) */
+export const PREP_DURATIONS = [0, 60, 120, 180, 300];
+
+/**
+ * Generate a research brief for a topic
+ * @param apiBaseUrl - Optional analysis endpoint (e.g. the local mock server)
+ * @returns null if the brief could not be generated
+ */
+export async function generatePrepBrief(
+  topic: string,
+  side: DebateSide,
+  apiKey: string,
+  apiBaseUrl?: string
+): Promise<PrepBrief | null> {
+  const ai = new GoogleGenAI({
+    apiKey,
+    httpOptions: apiBaseUrl ? { baseUrl: apiBaseUrl } : undefined,
+  });
+
+  const userSide = side === 'proposition' ? 'PROPOSITION (for the motion)' : 'OPPOSITION (against the motion)';
+
+  const prompt = `You are a debate coach preparing a student for a short live debate on the motion "${topic}".
+The student will argue the ${userSide}.
+
+Write a PREP BRIEF as JSON:
+1. **definitions**: 2-4 key terms in the motion that should be defined up front, each with a one-sentence neutral definition.
+2. **argumentsFor**: the 3-4 strongest arguments FOR the motion, one sentence each.
+3. **argumentsAgainst**: the 3-4 strongest arguments AGAINST the motion, one sentence each.
+4. **likelyRebuttals**: 3 rebuttals the opponent is likely to raise against the student's side, each with a one-sentence suggested response.
+
+Keep everything short and concrete so it can be read in a couple of minutes. Do not invent statistics.`;
+
+  try {
+    const analysisModel = getAnalysisModel() || 'gemini-2.5-flash';
+
+    const result = await ai.models.generateContent({
+      model: analysisModel,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties: {
+            definitions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  term: { type: 'string' },
+                  definition: { type: 'string' }
+                },
+                required: ["term", "definition"]
+              }
+            },
+            argumentsFor: { type: 'array', items: { type: 'string' } },
+            argumentsAgainst: { type: 'array', items: { type: 'string' } },
+            likelyRebuttals: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  rebuttal: { type: 'string' },
+                  response: { type: 'string' }
+                },
+                required: ["rebuttal", "response"]
+              }
+            }
+          },
+          required: ["definitions", "argumentsFor", "argumentsAgainst", "likelyRebuttals"]
+        }
+      }
+    });
+
+    const text = result.text;
+    if (!text) throw new Error("No prep brief generated");
+    const brief = JSON.parse(text) as Partial<PrepBrief>;
+
+    return {
+      definitions: Array.isArray(brief.definitions) ? brief.definitions : [],
+      argumentsFor: Array.isArray(brief.argumentsFor) ? brief.argumentsFor : [],
+      argumentsAgainst: Array.isArray(brief.argumentsAgainst) ? brief.argumentsAgainst : [],
+      likelyRebuttals: Array.isArray(brief.likelyRebuttals) ? brief.likelyRebuttals : [],
+    };
+  } catch (e) {
+    console.error("Prep brief generation failed", e);
+    return null;
+  }
+}
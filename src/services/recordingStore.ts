@@ -0,0 +1,84 @@
+/**
+ * IndexedDB storage for session recordings
+ *
+ * Audio is far too large for localStorage, so recordings live in their own
+ * object store keyed by SessionHistoryItem.id.
+ */
+
+import type { SessionRecording } from '../types';
+import { STORES, runTransaction } from './database';
+import { reportStorageError } from './storageBackend';
+
+interface StoredRecording extends SessionRecording {
+  sessionId: string;
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return runTransaction(STORES.RECORDINGS, mode, (transaction) => {
+    const request = operation(transaction.objectStore(STORES.RECORDINGS));
+    return () => request.result;
+  });
+}
+
+/**
+ * Save the recording for a session
+ * @returns false if the recording could not be stored (e.g. quota exceeded)
+ */
+export async function saveRecording(sessionId: string, recording: SessionRecording): Promise<boolean> {
+  try {
+    const record: StoredRecording = { sessionId, ...recording };
+    await runRequest('readwrite', store => store.put(record));
+    return true;
+  } catch (e) {
+    reportStorageError(e, 'saving recording');
+    return false;
+  }
+}
+
+/**
+ * Load the recording for a session, or null if none was saved
+ */
+export async function getRecording(sessionId: string): Promise<SessionRecording | null> {
+  try {
+    const record = await runRequest<StoredRecording | undefined>('readonly', store => store.get(sessionId));
+    if (!record) return null;
+    const { sessionId: _sessionId, ...recording } = record;
+    return recording;
+  } catch (e) {
+    console.error('Failed to load recording', e);
+    return null;
+  }
+}
+
+/**
+ * Delete the recording for a session
+ */
+export async function deleteRecording(sessionId: string): Promise<void> {
+  try {
+    await runRequest('readwrite', store => store.delete(sessionId));
+  } catch (e) {
+    console.error('Failed to delete recording', e);
+  }
+}
+
+/**
+ * Trigger a browser download of a session's recording as a WAV file
+ * @returns false if no recording exists for the session
+ */
+export async function downloadRecording(sessionId: string, fileName: string): Promise<boolean> {
+  const recording = await getRecording(sessionId);
+  if (!recording) return false;
+
+  const url = URL.createObjectURL(recording.wav);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.wav') ? fileName : `${fileName}.wav`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return true;
+}
@@ -0,0 +1,145 @@
+/**
+ * Session recorder
+ *
+ * GeminiLiveService tees microphone PCM and decoded model audio into the
+ * recorder while a debate is live. Both sides are placed on one timeline
+ * (wall-clock ms since start) and mixed down to a mono WAV when the session ends.
+ */
+
+import type { SessionRecording } from '../types';
+import { encodeWav } from '../utils/audioUtils';
+
+interface ModelSegment {
+  offset: number; // sample offset on the session timeline
+  samples: Float32Array;
+}
+
+export class SessionRecorder {
+  private readonly sampleRate: number;
+  private startedAt: number | null = null;
+  private inputOffset: number | null = null;
+  private inputChunks: Int16Array[] = [];
+  private inputLength = 0;
+  private modelSegments: ModelSegment[] = [];
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Start the session timeline. Chunks added before start are ignored.
+   */
+  start() {
+    this.startedAt = Date.now();
+    this.inputOffset = null;
+    this.inputChunks = [];
+    this.inputLength = 0;
+    this.modelSegments = [];
+  }
+
+  isRecording(): boolean {
+    return this.startedAt !== null;
+  }
+
+  /**
+   * Append a microphone chunk. Chunks are laid end to end from the first
+   * chunk's arrival so capture jitter does not introduce gaps.
+   */
+  addInput(pcm16: ArrayBuffer) {
+    if (this.startedAt === null) return;
+
+    const chunk = new Int16Array(pcm16.slice(0));
+    if (this.inputOffset === null) {
+      this.inputOffset = Math.max(0, this.nowOffset() - chunk.length);
+    }
+    this.inputChunks.push(chunk);
+    this.inputLength += chunk.length;
+  }
+
+  /**
+   * Add decoded model audio that will start playing after `delaySeconds`
+   */
+  addOutput(samples: Float32Array, delaySeconds: number) {
+    if (this.startedAt === null) return;
+
+    this.modelSegments.push({
+      offset: this.nowOffset() + Math.round(Math.max(0, delaySeconds) * this.sampleRate),
+      samples: new Float32Array(samples),
+    });
+  }
+
+  /**
+   * Drop model audio that was queued but never played (interruption)
+   */
+  truncateOutput() {
+    if (this.startedAt === null) return;
+
+    const cutoff = this.nowOffset();
+    this.modelSegments = this.modelSegments
+      .filter(segment => segment.offset < cutoff)
+      .map(segment => {
+        const playable = cutoff - segment.offset;
+        return playable < segment.samples.length
+          ? { offset: segment.offset, samples: segment.samples.subarray(0, playable) }
+          : segment;
+      });
+  }
+
+  /**
+   * Stop recording and mix both sides down to a WAV file
+   * @returns null when nothing was recorded
+   */
+  finish(): SessionRecording | null {
+    if (this.startedAt === null) return null;
+
+    const startedAt = this.startedAt;
+    this.startedAt = null;
+
+    const inputOffset = this.inputOffset ?? 0;
+    const inputEnd = this.inputLength > 0 ? inputOffset + this.inputLength : 0;
+    const modelEnd = this.modelSegments.reduce(
+      (end, segment) => Math.max(end, segment.offset + segment.samples.length),
+      0
+    );
+    const length = Math.max(inputEnd, modelEnd);
+    if (length === 0) return null;
+
+    const mix = new Float32Array(length);
+
+    let position = inputOffset;
+    for (const chunk of this.inputChunks) {
+      for (let i = 0; i < chunk.length; i++) {
+        mix[position + i] = (chunk[i] ?? 0) / 32768;
+      }
+      position += chunk.length;
+    }
+
+    for (const segment of this.modelSegments) {
+      for (let i = 0; i < segment.samples.length; i++) {
+        const index = segment.offset + i;
+        mix[index] = (mix[index] ?? 0) + (segment.samples[i] ?? 0);
+      }
+    }
+
+    // Clamp the sum of both sides back into 16-bit range
+    const pcm = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+      const s = Math.max(-1, Math.min(1, mix[i] ?? 0));
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+
+    this.inputChunks = [];
+    this.modelSegments = [];
+
+    return {
+      wav: encodeWav(pcm, this.sampleRate),
+      sampleRate: this.sampleRate,
+      durationSeconds: length / this.sampleRate,
+      startedAt,
+    };
+  }
+
+  private nowOffset(): number {
+    return Math.round(((Date.now() - (this.startedAt ?? Date.now())) / 1000) * this.sampleRate);
+  }
+}
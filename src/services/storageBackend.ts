@@ -0,0 +1,276 @@
+/**
+ * Storage backends for sessions and settings
+ *
+ * storageService keeps its data in memory and writes each change through to a
+ * backend. The IndexedDB backend stores one record per session and transcript,
+ * so saving a session no longer rewrites the whole history. localStorage is
+ * the fallback for browsers where IndexedDB can't be opened.
+ */
+
+import type { SessionHistoryItem } from '../types';
+import {
+  STORES,
+  type StoredSession,
+  type StoredSetting,
+  type StoredTranscript,
+  getDatabase,
+  importLegacyLocalStorage,
+  isQuotaError,
+  runTransaction,
+} from './database';
+
+/**
+ * Everything storageService reads at startup
+ */
+export interface StoredData {
+  sessions: SessionHistoryItem[]; // Most recent first
+  settings: Record<string, string>; // Raw values by storage key
+}
+
+export interface StorageBackend {
+  readonly kind: 'indexedDB' | 'localStorage';
+  load(): Promise<StoredData>;
+  /** Store a new session along with its transcript */
+  addSession(session: SessionHistoryItem): Promise<void>;
+  /** Store changes to a session; its transcript never changes after it is added */
+  updateSession(session: SessionHistoryItem): Promise<void>;
+  putSetting(key: string, value: string): Promise<void>;
+  /**
+   * Read-modify-write of one setting in a single step, so changes made by
+   * another tab since this one loaded aren't overwritten
+   * @returns The value written
+   */
+  updateSetting(key: string, update: (current: string | null) => string): Promise<string>;
+}
+
+/**
+ * localStorage keys used by the fallback backend
+ */
+export interface LocalStorageKeys {
+  history: string;
+  settings: readonly string[];
+}
+
+/**
+ * Storage problem shown to the user until dismissed
+ */
+export interface StorageWarning {
+  kind: 'quota' | 'outdated' | 'blocked'; // Storage full, a newer build took over the database, or an upgrade is waiting on other tabs
+  message: string;
+  occurredAt: string;
+}
+
+function createIndexedDbBackend(): StorageBackend {
+  return {
+    kind: 'indexedDB',
+
+    load: () =>
+      runTransaction([STORES.SESSIONS, STORES.TRANSCRIPTS, STORES.SETTINGS], 'readonly', (transaction) => {
+        const sessions = transaction.objectStore(STORES.SESSIONS).getAll() as IDBRequest<StoredSession[]>;
+        const transcripts = transaction.objectStore(STORES.TRANSCRIPTS).getAll() as IDBRequest<StoredTranscript[]>;
+        const settings = transaction.objectStore(STORES.SETTINGS).getAll() as IDBRequest<StoredSetting[]>;
+
+        return () => {
+          const messagesById = new Map(transcripts.result.map((t) => [t.sessionId, t.messages]));
+          return {
+            sessions: sessions.result
+              .map((session): SessionHistoryItem => ({ ...session, transcript: messagesById.get(session.id) }))
+              .sort((a, b) => b.date.localeCompare(a.date)),
+            settings: Object.fromEntries(settings.result.map(({ key, value }) => [key, value])),
+          };
+        };
+      }),
+
+    addSession: ({ transcript, ...session }) =>
+      runTransaction([STORES.SESSIONS, STORES.TRANSCRIPTS], 'readwrite', (transaction) => {
+        transaction.objectStore(STORES.SESSIONS).put(session satisfies StoredSession);
+        if (transcript) {
+          transaction
+            .objectStore(STORES.TRANSCRIPTS)
+            .put({ sessionId: session.id, messages: transcript } satisfies StoredTranscript);
+        }
+        return () => undefined;
+      }),
+
+    updateSession: ({ transcript: _transcript, ...session }) =>
+      runTransaction(STORES.SESSIONS, 'readwrite', (transaction) => {
+        transaction.objectStore(STORES.SESSIONS).put(session satisfies StoredSession);
+        return () => undefined;
+      }),
+
+    putSetting: (key, value) =>
+      runTransaction(STORES.SETTINGS, 'readwrite', (transaction) => {
+        transaction.objectStore(STORES.SETTINGS).put({ key, value } satisfies StoredSetting);
+        return () => undefined;
+      }),
+
+    updateSetting: (key, update) =>
+      runTransaction(STORES.SETTINGS, 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.SETTINGS);
+        const request = store.get(key) as IDBRequest<StoredSetting | undefined>;
+        let value = '';
+        request.onsuccess = () => {
+          value = update(request.result?.value ?? null);
+          store.put({ key, value } satisfies StoredSetting);
+        };
+        return () => value;
+      }),
+  };
+}
+
+/**
+ * The previous storage layout: every value under its own key, history as one JSON array
+ */
+function createLocalStorageBackend(keys: LocalStorageKeys): StorageBackend {
+  let history: SessionHistoryItem[] = [];
+
+  const saveHistory = async (updated: SessionHistoryItem[]) => {
+    localStorage.setItem(keys.history, JSON.stringify(updated));
+    history = updated;
+  };
+
+  return {
+    kind: 'localStorage',
+
+    load: async () => {
+      const stored = localStorage.getItem(keys.history);
+      history = stored ? (JSON.parse(stored) as SessionHistoryItem[]) : [];
+      const settings: Record<string, string> = {};
+      for (const key of keys.settings) {
+        const value = localStorage.getItem(key);
+        if (value !== null) settings[key] = value;
+      }
+      return { sessions: history, settings };
+    },
+
+    addSession: (session) => saveHistory([session, ...history]),
+
+    updateSession: (session) => saveHistory(history.map((item) => (item.id === session.id ? session : item))),
+
+    putSetting: async (key, value) => {
+      localStorage.setItem(key, value);
+    },
+
+    updateSetting: async (key, update) => {
+      const value = update(localStorage.getItem(key));
+      localStorage.setItem(key, value);
+      return value;
+    },
+  };
+}
+
+/** How long startup waits for the database (e.g. an upgrade blocked by another tab) before using localStorage */
+const OPEN_TIMEOUT_MS = 5000;
+
+/**
+ * Rejects with a TimeoutError if the database isn't open in time
+ */
+function openDatabaseWithTimeout(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new Error('Timed out opening the database');
+      error.name = 'TimeoutError';
+      reject(error);
+    }, OPEN_TIMEOUT_MS);
+    getDatabase()
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * Opens the IndexedDB backend, running any pending migrations and importing
+ * data earlier builds left in localStorage first
+ * @returns The backend (localStorage if IndexedDB can't be used), and any
+ * imported sessions whose points still need adding to the stats
+ */
+export async function openStorageBackend(
+  fallbackKeys: LocalStorageKeys
+): Promise<{ backend: StorageBackend; lateSessions: SessionHistoryItem[] }> {
+  try {
+    const db = await openDatabaseWithTimeout();
+    // A newer build upgraded the schema in another tab; this tab's copy is out of date
+    db.addEventListener('versionchange', () =>
+      setStorageWarning({
+        kind: 'outdated',
+        message: 'MindMelee was updated in another tab. Reload this tab so your changes keep being saved.',
+        occurredAt: new Date().toISOString(),
+      })
+    );
+    const lateSessions = await importLegacyLocalStorage();
+    return { backend: createIndexedDbBackend(), lateSessions };
+  } catch (error) {
+    console.warn('IndexedDB is unavailable, keeping data in localStorage:', error);
+    if (isQuotaError(error)) {
+      reportStorageError(error, 'moving data to IndexedDB');
+    } else if (error instanceof Error && error.name === 'TimeoutError') {
+      // What this tab saves is moved into IndexedDB on the next start
+      setStorageWarning({
+        kind: 'blocked',
+        message: 'Another MindMelee tab is keeping storage from updating, so this tab saves to temporary storage for now. Close the other tabs and reload.',
+        occurredAt: new Date().toISOString(),
+      });
+    }
+    return { backend: createLocalStorageBackend(fallbackKeys), lateSessions: [] };
+  }
+}
+
+let currentWarning: StorageWarning | null = null;
+const warningListeners = new Set<(warning: StorageWarning | null) => void>();
+
+function setStorageWarning(warning: StorageWarning | null): void {
+  currentWarning = warning;
+  warningListeners.forEach((listener) => listener(warning));
+}
+
+/**
+ * Logs a failed write and, when storage is full, warns the user
+ * @param action - What was being saved, for the log
+ */
+export function reportStorageError(error: unknown, action: string): void {
+  console.error(`Error ${action}:`, error);
+  if (isQuotaError(error)) {
+    setStorageWarning({
+      kind: 'quota',
+      message: 'Your browser storage is full, so recent changes were not saved. Free up space by clearing data for other sites, then try again.',
+      occurredAt: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * The storage warning to show, or null if there is none
+ */
+export function getStorageWarning(): StorageWarning | null {
+  return currentWarning;
+}
+
+export function dismissStorageWarning(): void {
+  setStorageWarning(null);
+}
+
+/**
+ * Calls the listener whenever the storage warning changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToStorageWarning(listener: (warning: StorageWarning | null) => void): () => void {
+  warningListeners.add(listener);
+  return () => {
+    warningListeners.delete(listener);
+  };
+}
+
+/**
+ * Storage used and available to this site, in bytes
+ * @returns null if the browser doesn't report it
+ */
+export async function getStorageUsage(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    const estimate = await navigator.storage?.estimate();
+    if (!estimate?.quota) return null;
+    return { usage: estimate.usage ?? 0, quota: estimate.quota };
+  } catch (error) {
+    console.error('Error reading storage estimate:', error);
+    return null;
+  }
+}
@@ -1,16 +1,181 @@
 /**
- * Storage service for managing persistent data in browser localStorage
+ * Storage service for managing persistent data
+ *
+ * Data is loaded into memory by initStorage() before the app renders, so reads
+ * stay synchronous. Every change is written through to the storage backend
+ * (IndexedDB, or localStorage where that isn't available).
  */
 
-import { UserStats, SessionHistoryItem, DebateAnalysis, UserPersona } from '../types';
+import {
+  UserStats,
+  SessionHistoryItem,
+  DebateAnalysis,
+  UserPersona,
+  ChatMessage,
+  DebateSide,
+  DebateStyle,
+  OpponentPersona,
+  DifficultyTuning,
+  DebateInputMode,
+  DeliveryMetrics,
+  DebateConfig,
+  PendingAnalysis,
+  AnalysisVersion,
+  JudgePanelMode,
+  AnalysisRubric,
+} from '../types';
+import { getDifficultyMultiplier } from './difficultyService';
+import { DEFAULT_RUBRIC_ID } from './analysisRubrics';
+import { validateOpponentPersonas } from '../utils/personaValidation';
+import { validateAnalysisRubrics } from '../utils/rubricValidation';
+import { type VoiceSettings, DEFAULT_VOICE_SETTINGS } from '../utils/voiceActivity';
+import { type StorageBackend, openStorageBackend, reportStorageError } from './storageBackend';
 
 // Storage keys as constants
 const STORAGE_KEYS = {
   STATS: 'mindmelee_stats',
   HISTORY: 'mindmelee_history',
   PERSONA: 'mindmelee_persona',
+  VOICE_SETTINGS: 'mindmelee_voice_settings',
+  RECORD_SESSIONS: 'mindmelee_record_sessions',
+  OPPONENT_PERSONAS: 'mindmelee_opponent_personas',
+  LIVE_COACHING: 'mindmelee_live_coaching',
+  ANALYSIS_RUBRIC: 'mindmelee_analysis_rubric',
+  CUSTOM_RUBRICS: 'mindmelee_custom_rubrics',
+  JUDGE_PANEL: 'mindmelee_judge_panel',
+  PENDING_ANALYSES: 'mindmelee_pending_analyses',
+  API_KEY: 'mindmelee_api_key',
+  LIVE_MODEL: 'mindmelee_live_model',
+  ANALYSIS_MODEL: 'mindmelee_analysis_model',
+  LIVE_ENDPOINT: 'mindmelee_live_endpoint',
+  USER_NAME: 'mindmelee_user_name',
+  PROFILE_IMAGE: 'mindmelee_profile_image',
 } as const;
 
+let backend: StorageBackend | null = null;
+let sessions: SessionHistoryItem[] = [];
+const settings = new Map<string, string>();
+
+// Other tabs are told when this one writes, and reload their copy in memory
+const changeChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('mindmelee_storage') : null;
+const changeListeners = new Set<() => void>();
+let pendingWrites = 0;
+let reloadQueued = false;
+
+/**
+ * Replaces the in-memory copy with what the backend holds
+ */
+async function loadFromBackend(): Promise<void> {
+  if (!backend) return;
+  try {
+    const data = await backend.load();
+    sessions = data.sessions;
+    settings.clear();
+    Object.entries(data.settings).forEach(([key, value]) => settings.set(key, value));
+  } catch (error) {
+    console.error('Error loading data from storage:', error);
+  }
+}
+
+/**
+ * Reloads after another tab wrote, once this tab's own writes have landed
+ * (a reload in between would drop them from memory)
+ */
+async function reloadChangedData(): Promise<void> {
+  if (pendingWrites > 0) {
+    reloadQueued = true;
+    return;
+  }
+  reloadQueued = false;
+  await loadFromBackend();
+  if (reloadQueued) return; // A write started meanwhile; reload again once it lands
+  changeListeners.forEach((listener) => listener());
+}
+
+/**
+ * Opens the storage backend and loads all data into memory.
+ * Must finish before anything else in this module is used.
+ */
+export async function initStorage(): Promise<void> {
+  const { HISTORY, ...settingKeys } = STORAGE_KEYS;
+  const opened = await openStorageBackend({ history: HISTORY, settings: Object.values(settingKeys) });
+  backend = opened.backend;
+
+  // Sessions a tab on an earlier build saved after the move still need their points counted
+  for (const session of opened.lateSessions) {
+    try {
+      await backend.updateSetting(STORAGE_KEYS.STATS, (current) =>
+        JSON.stringify(addSessionToStats(parseStats(current), session.durationSeconds, session.difficultyIntensity))
+      );
+    } catch (error) {
+      reportStorageError(error, 'adding imported session to stats');
+    }
+  }
+
+  await loadFromBackend();
+  if (changeChannel) {
+    changeChannel.onmessage = () => void reloadChangedData();
+  }
+}
+
+/**
+ * Calls the listener when another tab changed the stored data and it has been reloaded
+ * @returns Unsubscribe function
+ */
+export function subscribeToStorageChanges(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Writes a change through to the backend; failures are reported, not thrown
+ */
+function persist(action: string, write: (target: StorageBackend) => Promise<unknown>): void {
+  if (!backend) {
+    console.error(`Error ${action}: storage is not initialized`);
+    return;
+  }
+  pendingWrites++;
+  write(backend)
+    .then(() => changeChannel?.postMessage('changed'))
+    .catch((error: unknown) => reportStorageError(error, action))
+    .finally(() => {
+      pendingWrites--;
+      if (pendingWrites === 0 && reloadQueued) {
+        void reloadChangedData();
+      }
+    });
+}
+
+function readSetting(key: string): string | null {
+  return settings.get(key) ?? null;
+}
+
+function writeSetting(key: string, value: string): void {
+  settings.set(key, value);
+  persist(`saving ${key}`, (b) => b.putSetting(key, value));
+}
+
+/**
+ * Optional session data stored alongside the analysis scores
+ */
+export interface SessionDetails {
+  hasRecording?: boolean;
+  transcript?: ChatMessage[];
+  formatId?: string;
+  side?: DebateSide;
+  style?: DebateStyle;
+  opponentName?: string;
+  opponentPersonaId?: string;
+  difficulty?: DifficultyTuning;
+  inputMode?: DebateInputMode;
+  prepSeconds?: number;
+  prepNotes?: string;
+  deliveryMetrics?: DeliveryMetrics;
+}
+
 /**
  * Default user statistics when none exist
  */
@@ -22,64 +187,44 @@ const DEFAULT_STATS: UserStats = {
 };
 
 /**
- * Retrieves user statistics from localStorage
+ * Parses stored statistics
  * @returns UserStats object, or default stats if none exist
  */
-export function getStats(): UserStats {
+function parseStats(stored: string | null): UserStats {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.STATS);
     if (!stored) {
       return { ...DEFAULT_STATS };
     }
     return JSON.parse(stored) as UserStats;
   } catch (error) {
-    console.error('Error reading stats from localStorage:', error);
+    console.error('Error reading stats from storage:', error);
     return { ...DEFAULT_STATS };
   }
 }
 
 /**
- * Retrieves session history from localStorage
- * @returns Array of SessionHistoryItem, or empty array if none exist
+ * Retrieves user statistics from storage
+ * @returns UserStats object, or default stats if none exist
  */
-export function getHistory(): SessionHistoryItem[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.HISTORY);
-    if (!stored) {
-      return [];
-    }
-    return JSON.parse(stored) as SessionHistoryItem[];
-  } catch (error) {
-    console.error('Error reading history from localStorage:', error);
-    return [];
-  }
+export function getStats(): UserStats {
+  return parseStats(readSetting(STORAGE_KEYS.STATS));
 }
 
 /**
- * Saves a completed session, updating statistics and history
- * @param topic - The debate topic
- * @param durationSeconds - Session duration in seconds
- * @param analysis - Optional debate analysis data
- * @returns Object containing updated stats and the new history item
+ * Statistics after one more session, with any milestone badges it earns
+ * @param difficultyIntensity - Harder opponents earn more points
  */
-export function saveSession(
-  topic: string,
-  durationSeconds: number,
-  analysis?: DebateAnalysis
-): { stats: UserStats; newItem: SessionHistoryItem } {
-  // Get current stats and history
-  const currentStats = getStats();
-  const currentHistory = getHistory();
-
-  // Calculate new statistics
+function addSessionToStats(stats: UserStats, durationSeconds: number, difficultyIntensity?: number): UserStats {
   const durationMinutes = Math.floor(durationSeconds / 60);
-  const sessionPoints = 10 + durationMinutes * 2;
+  // Harder opponents earn more points (Medium is 1x)
+  const difficultyMultiplier = getDifficultyMultiplier(difficultyIntensity);
+  const sessionPoints = Math.round((10 + durationMinutes * 2) * difficultyMultiplier);
 
   const updatedStats: UserStats = {
-    totalSessions: currentStats.totalSessions + 1,
-    totalMinutes: currentStats.totalMinutes + durationMinutes,
-    points: currentStats.points + sessionPoints,
-    badges: [...currentStats.badges],
+    totalSessions: stats.totalSessions + 1,
+    totalMinutes: stats.totalMinutes + durationMinutes,
+    points: stats.points + sessionPoints,
+    badges: [...stats.badges],
   };
 
   // Award badges based on milestones
@@ -93,60 +238,519 @@ export function saveSession(
     updatedStats.badges.push('Century Club');
   }
 
+  return updatedStats;
+}
+
+/**
+ * Retrieves session history from storage
+ * @returns Array of SessionHistoryItem, or empty array if none exist
+ */
+export function getHistory(): SessionHistoryItem[] {
+  return [...sessions];
+}
+
+/** Re-analysis keeps the original analysis plus this many of the most recent ones */
+const MAX_ANALYSIS_VERSIONS = 10;
+
+/**
+ * Fields of a history item that come from an analysis that just finished
+ */
+function getAnalysisVersion(analysis: DebateAnalysis): AnalysisVersion {
+  return {
+    score: analysis.score,
+    confidenceLevel: analysis.confidenceLevel,
+    englishProficiency: analysis.englishProficiency,
+    vocabularyScore: analysis.vocabularyScore,
+    clarityScore: analysis.clarityScore,
+    argumentStrength: analysis.argumentStrength,
+    persuasionScore: analysis.persuasionScore,
+    fallacies: analysis.fallacies,
+    rubricId: analysis.rubricId,
+    rubricVersion: analysis.rubricVersion,
+    analysisModel: analysis.analysisModel,
+    analyzedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The analysis a history item currently shows, as a version
+ */
+function getCurrentAnalysisVersion(session: SessionHistoryItem): AnalysisVersion {
+  return {
+    score: session.score,
+    confidenceLevel: session.confidenceLevel,
+    englishProficiency: session.englishProficiency,
+    vocabularyScore: session.vocabularyScore,
+    clarityScore: session.clarityScore,
+    argumentStrength: session.argumentStrength,
+    persuasionScore: session.persuasionScore,
+    fallacies: session.fallacies,
+    rubricId: session.rubricId,
+    rubricVersion: session.rubricVersion,
+    analysisModel: session.analysisModel,
+    analyzedAt: session.analyzedAt ?? session.date,
+  };
+}
+
+/**
+ * Replaces one history item
+ * @returns The updated item
+ */
+function updateHistoryItem(updated: SessionHistoryItem): SessionHistoryItem {
+  sessions = sessions.map((item) => (item.id === updated.id ? updated : item));
+  persist('saving session', (b) => b.updateSession(updated));
+  return updated;
+}
+
+/**
+ * Saves a completed session, updating statistics and history
+ * @param topic - The debate topic
+ * @param durationSeconds - Session duration in seconds
+ * @param analysis - Debate analysis data; without it the session is marked as analysis pending
+ * @param details - Optional extra session data (recording, transcript, format, side, opponent, difficulty, prep)
+ * @returns Object containing updated stats and the new history item
+ */
+export function saveSession(
+  topic: string,
+  durationSeconds: number,
+  analysis?: DebateAnalysis,
+  details: SessionDetails = {}
+): { stats: UserStats; newItem: SessionHistoryItem } {
+  // Calculate new statistics (shown right away; stored against the latest stats below)
+  const updatedStats = addSessionToStats(getStats(), durationSeconds, details.difficulty?.intensity);
+
   // Create new history item with analysis data if available
   const newItem: SessionHistoryItem = {
     id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     date: new Date().toISOString(),
     topic,
     durationSeconds,
-    score: analysis?.score ?? Math.floor(Math.random() * 41) + 60,
-    confidenceLevel: analysis?.confidenceLevel,
-    englishProficiency: analysis?.englishProficiency,
-    vocabularyScore: analysis?.vocabularyScore,
-    clarityScore: analysis?.clarityScore,
-    argumentStrength: analysis?.argumentStrength,
-    persuasionScore: analysis?.persuasionScore,
+    hasRecording: details.hasRecording || undefined,
+    transcript: details.transcript,
+    formatId: details.formatId,
+    side: details.side,
+    style: details.style,
+    opponentName: details.opponentName,
+    opponentPersonaId: details.opponentPersonaId,
+    difficulty: details.difficulty?.level,
+    difficultyIntensity: details.difficulty?.intensity,
+    inputMode: details.inputMode,
+    prepSeconds: details.prepSeconds || undefined,
+    prepNotes: details.prepNotes || undefined,
+    deliveryMetrics: details.deliveryMetrics,
+    // Without an analysis the session is saved unscored and waits in the pending queue
+    ...(analysis
+      ? { ...getAnalysisVersion(analysis), argumentMap: analysis.argumentMap }
+      : { score: 0, analysisStatus: 'pending' as const }),
   };
 
-  // Add to history (prepend to show most recent first)
-  const updatedHistory = [newItem, ...currentHistory];
+  // Add to history (prepend to show most recent first); only the new session is written
+  sessions = [newItem, ...sessions];
+  persist('saving session', (b) => b.addSession(newItem));
+
+  // Read-modify-write so points another tab added since this one loaded aren't lost
+  settings.set(STORAGE_KEYS.STATS, JSON.stringify(updatedStats));
+  persist('saving stats', async (b) => {
+    const stored = await b.updateSetting(STORAGE_KEYS.STATS, (current) =>
+      JSON.stringify(addSessionToStats(parseStats(current), durationSeconds, details.difficulty?.intensity))
+    );
+    settings.set(STORAGE_KEYS.STATS, stored);
+  });
+
+  return { stats: updatedStats, newItem };
+}
 
-  // Persist to localStorage
+/**
+ * Retrieves sessions queued for analysis from storage
+ * @returns Array of PendingAnalysis, oldest first
+ */
+export function getPendingAnalyses(): PendingAnalysis[] {
   try {
-    localStorage.setItem(STORAGE_KEYS.STATS, JSON.stringify(updatedStats));
-    localStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(updatedHistory));
+    const stored = readSetting(STORAGE_KEYS.PENDING_ANALYSES);
+    if (!stored) {
+      return [];
+    }
+    return JSON.parse(stored) as PendingAnalysis[];
   } catch (error) {
-    console.error('Error saving to localStorage:', error);
+    console.error('Error reading pending analyses from storage:', error);
+    return [];
   }
+}
 
-  return { stats: updatedStats, newItem };
+/**
+ * Saves the pending analysis queue to storage
+ */
+function savePendingAnalyses(pending: PendingAnalysis[]): void {
+  writeSetting(STORAGE_KEYS.PENDING_ANALYSES, JSON.stringify(pending));
+}
+
+/**
+ * Queues a session for analysis once the analysis model is reachable again
+ * @param sessionId - History item saved without an analysis
+ * @param config - The config the debate was started with
+ */
+export function queuePendingAnalysis(sessionId: string, config: DebateConfig): void {
+  const pending = getPendingAnalyses().filter((entry) => entry.sessionId !== sessionId);
+  savePendingAnalyses([...pending, { sessionId, config, queuedAt: new Date().toISOString(), attempts: 0 }]);
+}
+
+/**
+ * Records a failed retry of a queued analysis
+ */
+export function recordPendingAnalysisFailure(sessionId: string, error: string): void {
+  savePendingAnalyses(
+    getPendingAnalyses().map((entry) =>
+      entry.sessionId === sessionId ? { ...entry, attempts: entry.attempts + 1, lastError: error } : entry
+    )
+  );
 }
 
 /**
- * Saves user persona data to localStorage
+ * Stores the analysis of a pending session and removes it from the queue
+ * @returns The updated history item, or null if the session no longer exists
+ */
+export function completePendingAnalysis(sessionId: string, analysis: DebateAnalysis): SessionHistoryItem | null {
+  savePendingAnalyses(getPendingAnalyses().filter((entry) => entry.sessionId !== sessionId));
+
+  const session = getHistory().find((item) => item.id === sessionId);
+  if (!session) {
+    return null;
+  }
+
+  const { analysisStatus: _pending, ...rest } = session;
+  return updateHistoryItem({ ...rest, ...getAnalysisVersion(analysis), argumentMap: analysis.argumentMap });
+}
+
+/**
+ * Stores a re-analysis of a session as its current scores, keeping earlier versions
+ * @returns The updated history item, or null if the session no longer exists
+ */
+export function saveSessionReanalysis(sessionId: string, analysis: DebateAnalysis): SessionHistoryItem | null {
+  const session = getHistory().find((item) => item.id === sessionId);
+  if (!session) {
+    return null;
+  }
+
+  const version = getAnalysisVersion(analysis);
+  const versions = [...(session.analysisVersions ?? [getCurrentAnalysisVersion(session)]), version];
+  // Always keep the original so charts can compare against it
+  const trimmed = versions.length > MAX_ANALYSIS_VERSIONS
+    ? [versions[0]!, ...versions.slice(-(MAX_ANALYSIS_VERSIONS - 1))]
+    : versions;
+
+  return updateHistoryItem({ ...session, ...version, analysisVersions: trimmed });
+}
+
+/**
+ * Saves user persona data to storage
  * @param persona - The UserPersona object to persist
  */
 export function savePersona(persona: UserPersona): void {
-  try {
-    localStorage.setItem(STORAGE_KEYS.PERSONA, JSON.stringify(persona));
-  } catch (error) {
-    console.error('Error saving persona to localStorage:', error);
-  }
+  writeSetting(STORAGE_KEYS.PERSONA, JSON.stringify(persona));
 }
 
 /**
- * Retrieves user persona data from localStorage
+ * Retrieves user persona data from storage
  * @returns UserPersona object, or null if none exists
  */
 export function loadPersona(): UserPersona | null {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.PERSONA);
+    const stored = readSetting(STORAGE_KEYS.PERSONA);
     if (!stored) {
       return null;
     }
     return JSON.parse(stored) as UserPersona;
   } catch (error) {
-    console.error('Error reading persona from localStorage:', error);
+    console.error('Error reading persona from storage:', error);
     return null;
   }
 }
+
+/**
+ * Retrieves voice activity / push-to-talk settings from storage
+ * @returns VoiceSettings merged over defaults
+ */
+export function getVoiceSettings(): VoiceSettings {
+  try {
+    const stored = readSetting(STORAGE_KEYS.VOICE_SETTINGS);
+    if (!stored) {
+      return { ...DEFAULT_VOICE_SETTINGS };
+    }
+    return { ...DEFAULT_VOICE_SETTINGS, ...(JSON.parse(stored) as Partial<VoiceSettings>) };
+  } catch (error) {
+    console.error('Error reading voice settings from storage:', error);
+    return { ...DEFAULT_VOICE_SETTINGS };
+  }
+}
+
+/**
+ * Saves voice activity / push-to-talk settings to storage
+ * @param settings - The VoiceSettings to persist
+ */
+export function saveVoiceSettings(settings: VoiceSettings): void {
+  writeSetting(STORAGE_KEYS.VOICE_SETTINGS, JSON.stringify(settings));
+}
+
+/**
+ * Whether live sessions should be recorded locally (opt-in)
+ * @returns true if the user enabled session recording
+ */
+export function getRecordSessions(): boolean {
+  try {
+    return readSetting(STORAGE_KEYS.RECORD_SESSIONS) === 'true';
+  } catch (error) {
+    console.error('Error reading recording preference from storage:', error);
+    return false;
+  }
+}
+
+/**
+ * Saves the session recording preference to storage
+ * @param enabled - Whether to record live sessions
+ */
+export function saveRecordSessions(enabled: boolean): void {
+  writeSetting(STORAGE_KEYS.RECORD_SESSIONS, String(enabled));
+}
+
+/**
+ * Whether the live coaching overlay is shown during voice debates (opt-in)
+ * @returns true if the user enabled live coaching
+ */
+export function getLiveCoaching(): boolean {
+  try {
+    return readSetting(STORAGE_KEYS.LIVE_COACHING) === 'true';
+  } catch (error) {
+    console.error('Error reading live coaching preference from storage:', error);
+    return false;
+  }
+}
+
+/**
+ * Saves the live coaching preference to storage
+ * @param enabled - Whether to show the live coaching overlay
+ */
+export function saveLiveCoaching(enabled: boolean): void {
+  writeSetting(STORAGE_KEYS.LIVE_COACHING, String(enabled));
+}
+
+/**
+ * Id of the rubric post-session analysis scores against
+ * @returns The saved rubric id, or the standard rubric's id
+ */
+export function getAnalysisRubricId(): string {
+  try {
+    return readSetting(STORAGE_KEYS.ANALYSIS_RUBRIC) || DEFAULT_RUBRIC_ID;
+  } catch (error) {
+    console.error('Error reading analysis rubric from storage:', error);
+    return DEFAULT_RUBRIC_ID;
+  }
+}
+
+/**
+ * Saves the analysis rubric choice to storage
+ * @param rubricId - Id of an AnalysisRubric
+ */
+export function saveAnalysisRubricId(rubricId: string): void {
+  writeSetting(STORAGE_KEYS.ANALYSIS_RUBRIC, rubricId);
+}
+
+/**
+ * Retrieves the user's imported analysis rubrics from storage
+ * @returns Valid rubrics, in the order they were imported
+ */
+export function getCustomRubrics(): AnalysisRubric[] {
+  try {
+    const stored = readSetting(STORAGE_KEYS.CUSTOM_RUBRICS);
+    if (!stored) {
+      return [];
+    }
+    const { valid, errors } = validateAnalysisRubrics(JSON.parse(stored));
+    if (errors.length > 0) {
+      console.warn('Skipping invalid analysis rubrics:', errors);
+    }
+    return valid;
+  } catch (error) {
+    console.error('Error reading analysis rubrics from storage:', error);
+    return [];
+  }
+}
+
+/**
+ * Creates or replaces a custom analysis rubric (matched by id)
+ * @returns The updated rubric list
+ */
+export function saveCustomRubric(rubric: AnalysisRubric): AnalysisRubric[] {
+  const existing = getCustomRubrics();
+  const rubrics = existing.some((r) => r.id === rubric.id)
+    ? existing.map((r) => (r.id === rubric.id ? rubric : r))
+    : [...existing, rubric];
+  writeSetting(STORAGE_KEYS.CUSTOM_RUBRICS, JSON.stringify(rubrics));
+  return rubrics;
+}
+
+/**
+ * Deletes a custom analysis rubric. Sessions scored under it keep their
+ * rubric id; if it was selected, analysis falls back to the standard rubric.
+ * @returns The updated rubric list
+ */
+export function deleteCustomRubric(rubricId: string): AnalysisRubric[] {
+  const rubrics = getCustomRubrics().filter((r) => r.id !== rubricId);
+  writeSetting(STORAGE_KEYS.CUSTOM_RUBRICS, JSON.stringify(rubrics));
+  if (getAnalysisRubricId() === rubricId) {
+    saveAnalysisRubricId(DEFAULT_RUBRIC_ID);
+  }
+  return rubrics;
+}
+
+/**
+ * Retrieves the judge panel mode from storage
+ * @returns 'off' (single judge) unless a panel was chosen
+ */
+export function getJudgePanelMode(): JudgePanelMode {
+  try {
+    const stored = readSetting(STORAGE_KEYS.JUDGE_PANEL);
+    return stored === 'median' || stored === 'trimmedMean' ? stored : 'off';
+  } catch (error) {
+    console.error('Error reading judge panel mode from storage:', error);
+    return 'off';
+  }
+}
+
+/**
+ * Saves the judge panel mode to storage
+ * @param mode - Single judge, or how panel scores are combined
+ */
+export function saveJudgePanelMode(mode: JudgePanelMode): void {
+  writeSetting(STORAGE_KEYS.JUDGE_PANEL, mode);
+}
+
+/**
+ * Gemini API key saved in Settings
+ * @returns The key, or an empty string if none was saved
+ */
+export function getApiKey(): string {
+  return readSetting(STORAGE_KEYS.API_KEY) ?? '';
+}
+
+/**
+ * Saves the Gemini API key
+ */
+export function saveApiKey(apiKey: string): void {
+  writeSetting(STORAGE_KEYS.API_KEY, apiKey);
+}
+
+/**
+ * Live (voice) model chosen in Settings
+ * @returns The model, or an empty string if none was chosen
+ */
+export function getLiveModel(): string {
+  return readSetting(STORAGE_KEYS.LIVE_MODEL) ?? '';
+}
+
+/**
+ * Saves the live (voice) model
+ */
+export function saveLiveModel(model: string): void {
+  writeSetting(STORAGE_KEYS.LIVE_MODEL, model);
+}
+
+/**
+ * Analysis model chosen in Settings
+ * @returns The model, or an empty string if none was chosen
+ */
+export function getAnalysisModel(): string {
+  return readSetting(STORAGE_KEYS.ANALYSIS_MODEL) ?? '';
+}
+
+/**
+ * Saves the analysis model
+ */
+export function saveAnalysisModel(model: string): void {
+  writeSetting(STORAGE_KEYS.ANALYSIS_MODEL, model);
+}
+
+/**
+ * Live endpoint override (proxy or mock server)
+ * @returns The endpoint, or an empty string to connect to Gemini directly
+ */
+export function getLiveEndpoint(): string {
+  return readSetting(STORAGE_KEYS.LIVE_ENDPOINT) ?? '';
+}
+
+/**
+ * Saves the live endpoint override; an empty string clears it
+ */
+export function saveLiveEndpoint(endpoint: string): void {
+  writeSetting(STORAGE_KEYS.LIVE_ENDPOINT, endpoint);
+}
+
+/**
+ * Display name shown in the sidebar
+ * @returns The saved name, or null if none was saved
+ */
+export function getUserName(): string | null {
+  return readSetting(STORAGE_KEYS.USER_NAME);
+}
+
+/**
+ * Saves the display name
+ */
+export function saveUserName(name: string): void {
+  writeSetting(STORAGE_KEYS.USER_NAME, name);
+}
+
+/**
+ * Profile image as a data URL
+ * @returns The image, or an empty string if none was uploaded
+ */
+export function getProfileImage(): string {
+  return readSetting(STORAGE_KEYS.PROFILE_IMAGE) ?? '';
+}
+
+/**
+ * Saves the profile image (a data URL); a quota error shows the storage warning
+ */
+export function saveProfileImage(imageData: string): void {
+  writeSetting(STORAGE_KEYS.PROFILE_IMAGE, imageData);
+}
+
+/**
+ * Retrieves the user's custom opponent personas from storage
+ * @returns Valid personas, most recently updated first
+ */
+export function getOpponentPersonas(): OpponentPersona[] {
+  try {
+    const stored = readSetting(STORAGE_KEYS.OPPONENT_PERSONAS);
+    if (!stored) {
+      return [];
+    }
+    const { valid, errors } = validateOpponentPersonas(JSON.parse(stored));
+    if (errors.length > 0) {
+      console.warn('Skipping invalid opponent personas:', errors);
+    }
+    return valid.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error('Error reading opponent personas from storage:', error);
+    return [];
+  }
+}
+
+/**
+ * Creates or updates a custom opponent persona (matched by id)
+ * @returns The updated persona list
+ */
+export function saveOpponentPersona(persona: OpponentPersona): OpponentPersona[] {
+  const personas = [persona, ...getOpponentPersonas().filter((p) => p.id !== persona.id)];
+  writeSetting(STORAGE_KEYS.OPPONENT_PERSONAS, JSON.stringify(personas));
+  return personas;
+}
+
+/**
+ * Deletes a custom opponent persona
+ * @returns The updated persona list
+ */
+export function deleteOpponentPersona(personaId: string): OpponentPersona[] {
+  const personas = getOpponentPersonas().filter((p) => p.id !== personaId);
+  writeSetting(STORAGE_KEYS.OPPONENT_PERSONAS, JSON.stringify(personas));
+  return personas;
+}
@@ -10,7 +10,9 @@ export interface ChatMessage {
   role: 'user' | 'model' | 'system';
   text: string;
   timestamp: number;
+  endTimestamp?: number; // When the last text of the message arrived
   isFinal?: boolean;
+  phaseId?: string; // Debate format phase the message was spoken in
 }
 
 /**
@@ -38,6 +40,88 @@ export interface SessionHistoryItem {
   clarityScore?: number;
   argumentStrength?: number;
   persuasionScore?: number;
+  hasRecording?: boolean; // Audio saved in IndexedDB under this session id
+  transcript?: ChatMessage[]; // Turn-by-turn transcript for replay
+  formatId?: string; // DebateFormat id (free-form when absent)
+  side?: DebateSide; // Side the user argued
+  style?: DebateStyle; // AI opponent style
+  opponentName?: string; // Custom opponent persona, when one was used instead of a style
+  opponentPersonaId?: string; // Id of that persona; absent for sessions saved before ids were kept
+  difficulty?: DifficultyLevel; // Level the user picked
+  difficultyIntensity?: number; // 0-100, resolved intensity the opponent played at
+  inputMode?: DebateInputMode; // Voice when absent
+  prepSeconds?: number; // Prep countdown taken before the debate
+  prepNotes?: string; // Notes written during the prep phase
+  argumentMap?: ArgumentMap; // Mined claims and rebuttals
+  fallacies?: DetectedFallacy[]; // Fallacies detected in the user's turns
+  deliveryMetrics?: DeliveryMetrics; // Voice sessions only
+  rubricId?: string; // Absent for sessions scored before rubrics were versioned
+  rubricVersion?: number;
+  analysisStatus?: 'pending'; // Analysis failed and is queued; scores are not set yet
+  analysisModel?: string; // Model that produced the current scores
+  analyzedAt?: string; // ISO string, when the current scores were produced (the session date when absent)
+  analysisVersions?: AnalysisVersion[]; // Every analysis run, oldest first; only set once re-analyzed
+}
+
+/**
+ * Scores from one analysis run of a session, kept when the session is re-analyzed
+ */
+export type AnalysisVersion = Pick<
+  SessionHistoryItem,
+  | 'score'
+  | 'confidenceLevel'
+  | 'englishProficiency'
+  | 'vocabularyScore'
+  | 'clarityScore'
+  | 'argumentStrength'
+  | 'persuasionScore'
+  | 'fallacies'
+  | 'rubricId'
+  | 'rubricVersion'
+  | 'analysisModel'
+> & { analyzedAt: string };
+
+/**
+ * A session waiting to be analyzed after the analysis request failed
+ */
+export interface PendingAnalysis {
+  sessionId: string;
+  config: DebateConfig; // What the debate was started with, needed to rebuild the analysis prompt
+  queuedAt: string; // ISO string
+  attempts: number; // Retries since it was queued
+  lastError?: string;
+}
+
+/**
+ * Speaking delivery of the user, computed locally from the transcript and mic levels
+ */
+export interface DeliveryMetrics {
+  wordsPerMinute: number;
+  fillerWords: number;
+  fillerRate: number; // Fillers per 100 words
+  averagePauseSeconds: number; // Silences within the user's own turns
+  talkTimeRatio: number; // 0-1, user's share of the total speaking time
+  longestTurnSeconds: number;
+  lexicalDiversity: number; // 0-1, type-token ratio of the user's words
+}
+
+/**
+ * Mixed audio of both sides of a debate
+ */
+export interface SessionRecording {
+  wav: Blob;
+  sampleRate: number;
+  durationSeconds: number;
+  startedAt: number; // epoch ms when recording started (aligns with ChatMessage timestamps)
+}
+
+/**
+ * Extra data captured during a live session, handed to the app alongside the analysis
+ */
+export interface DebateSessionResult {
+  transcript: ChatMessage[];
+  recording: SessionRecording | null;
+  deliveryMetrics: DeliveryMetrics | null; // Null in text mode or when the user said nothing
 }
 
 /**
@@ -47,17 +131,171 @@ export interface DebateAnalysis {
   score: number; // 0-100
   confidenceLevel: 'Low' | 'Medium' | 'High' | 'Unstoppable';
   englishProficiency: 'Beginner' | 'Intermediate' | 'Advanced' | 'Native';
-  vocabularyScore: number; // 0-100
-  clarityScore: number; // 0-100
-  argumentStrength: number; // 0-100
-  persuasionScore: number; // 0-100
-  strategicAdaptability: number; // 0-100
+  // Rubric criteria, 0-100; absent when the rubric scored under doesn't include them
+  vocabularyScore?: number;
+  clarityScore?: number;
+  argumentStrength?: number;
+  persuasionScore?: number;
+  strategicAdaptability?: number;
   archetype: string;
   wildcardInsight: string;
   emotionalState: string;
   strengths: string[];
   weaknesses: string[];
   suggestions: string[];
+  phaseScores?: PhaseScore[]; // Only for structured debate formats
+  prepFeedback?: string; // Only when the user took prep time: how well the prep notes were used
+  argumentMap?: ArgumentMap; // Post-session argument mining, absent if it failed
+  fallacies?: DetectedFallacy[]; // Logical fallacies in the user's turns
+  rubricId?: string; // AnalysisRubric the scores were given under
+  rubricVersion?: number;
+  analysisModel?: string; // Model that produced the analysis (may be the fallback model)
+  judgePanel?: JudgePanelResult; // Only when scored by a judge panel
+  validationWarnings?: string[]; // Problems in the model's response that were repaired
+}
+
+/**
+ * Logical fallacy families the analysis can detect
+ */
+export enum FallacyType {
+  AD_HOMINEM = 'AD_HOMINEM',
+  STRAW_MAN = 'STRAW_MAN',
+  FALSE_DILEMMA = 'FALSE_DILEMMA',
+  SLIPPERY_SLOPE = 'SLIPPERY_SLOPE',
+  HASTY_GENERALIZATION = 'HASTY_GENERALIZATION',
+  FALSE_CAUSE = 'FALSE_CAUSE',
+  APPEAL_TO_AUTHORITY = 'APPEAL_TO_AUTHORITY',
+  APPEAL_TO_EMOTION = 'APPEAL_TO_EMOTION',
+  BANDWAGON = 'BANDWAGON',
+  CIRCULAR_REASONING = 'CIRCULAR_REASONING',
+  RED_HERRING = 'RED_HERRING',
+  WHATABOUTISM = 'WHATABOUTISM',
+}
+
+/**
+ * A fallacy found in one of the user's messages
+ */
+export interface DetectedFallacy {
+  type: FallacyType;
+  messageId: string; // ChatMessage the fallacy was made in
+  quote: string; // Words from that message where it happens
+  explanation: string;
+  betterAlternative: string; // How the point could have been made soundly
+}
+
+/**
+ * Kind of argumentative move found in the transcript
+ */
+export type ArgumentUnitType = 'claim' | 'evidence' | 'rebuttal' | 'concession';
+
+/**
+ * One argumentative move made by either speaker
+ */
+export interface ArgumentUnit {
+  id: string;
+  speaker: 'user' | 'model';
+  type: ArgumentUnitType;
+  summary: string; // Short paraphrase of the move
+  messageId: string; // ChatMessage it was made in
+  targetId?: string; // Evidence: claim it supports. Rebuttal/concession: claim or rebuttal it answers
+}
+
+/**
+ * Claims, evidence, rebuttals and concessions of a debate and how they link up
+ */
+export interface ArgumentMap {
+  units: ArgumentUnit[];
+}
+
+/**
+ * Score for one phase of a structured debate
+ */
+export interface PhaseScore {
+  phaseId: string;
+  phaseName: string;
+  score: number; // 0-100
+  feedback: string;
+}
+
+/**
+ * Sub-scores of DebateAnalysis that an analysis rubric defines
+ */
+export type RubricCriterionKey =
+  | 'vocabularyScore'
+  | 'clarityScore'
+  | 'argumentStrength'
+  | 'persuasionScore'
+  | 'strategicAdaptability';
+
+/**
+ * What a score range means for one criterion
+ */
+export interface RubricBand {
+  min: number; // 0-100, inclusive
+  max: number; // 0-100, inclusive
+  anchor: string;
+}
+
+/**
+ * One scored criterion of an analysis rubric
+ */
+export interface RubricCriterion {
+  key: RubricCriterionKey;
+  label: string;
+  description: string;
+  weight: number; // Share of the overall score; weights of a rubric sum to 1
+  bands: RubricBand[]; // Lowest band first, together covering 0-100
+}
+
+/**
+ * A versioned scoring rubric for post-session analysis.
+ * Bump the version whenever criteria, weights or anchors change, so sessions
+ * scored under different definitions are never compared as equals.
+ */
+export interface AnalysisRubric {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  guidance: string[]; // General scoring rules given to the judge before the criteria
+  criteria: RubricCriterion[];
+}
+
+/**
+ * How the analysis is scored: by a single judge, or by a panel whose criterion
+ * scores are combined with a median or a trimmed mean
+ */
+export type JudgePanelMode = 'off' | 'median' | 'trimmedMean';
+
+/**
+ * One judge on the analysis panel, prompted independently of the others
+ */
+export interface JudgeDefinition {
+  id: string;
+  name: string;
+  model: 'selected' | 'alternate'; // The analysis model chosen in Settings, or the other one
+  emphasis: string; // Extra judging instructions that set this judge apart
+}
+
+/**
+ * Scores one panel judge gave
+ */
+export interface JudgeBallot extends Pick<DebateAnalysis, RubricCriterionKey> {
+  judgeId: string;
+  judgeName: string;
+  model: string; // Model that actually produced the ballot
+  score: number; // 0-100, the rubric's weighted average of this ballot
+  verdict: string; // One-sentence summary of the judge's decision
+}
+
+/**
+ * Panel scoring details kept with the analysis
+ */
+export interface JudgePanelResult {
+  aggregation: Exclude<JudgePanelMode, 'off'>;
+  ballots: JudgeBallot[];
+  panelSize: number; // Judges asked; ballots can be fewer if some failed
+  spread: number | null; // Highest minus lowest ballot score; null with fewer than two ballots
 }
 
 /**
@@ -65,6 +303,7 @@ export interface DebateAnalysis {
  */
 export enum AppView {
   DASHBOARD = 'DASHBOARD',
+  DEBATE_PREP = 'DEBATE_PREP',
   DEBATE_LIVE = 'DEBATE_LIVE',
   SUMMARY = 'SUMMARY',
   SETTINGS = 'SETTINGS',
@@ -79,6 +318,132 @@ export enum AppView {
 export enum DebateStyle {
   COACH = 'COACH',
   AGGRESSIVE = 'AGGRESSIVE',
+  SOCRATIC = 'SOCRATIC',
+  DEVILS_ADVOCATE = 'DEVILS_ADVOCATE',
+  ACADEMIC_JUDGE = 'ACADEMIC_JUDGE',
+  SKEPTICAL_INTERVIEWER = 'SKEPTICAL_INTERVIEWER',
+  BEGINNER_FRIENDLY = 'BEGINNER_FRIENDLY',
+}
+
+/**
+ * Side of the motion the user argues; the AI takes the other one
+ */
+export type DebateSide = 'proposition' | 'opposition';
+
+/**
+ * Who holds the floor during a debate phase
+ */
+export type PhaseSpeaker = 'user' | 'model' | 'both';
+
+/**
+ * One timed segment of a structured debate (opening, rebuttal, ...)
+ */
+export interface DebatePhase {
+  id: string;
+  name: string;
+  durationSeconds: number;
+  speaker: PhaseSpeaker;
+  instruction: string; // What the AI should do during this phase
+}
+
+/**
+ * A debate format: an ordered list of phases. Free-form has no phases.
+ */
+export interface DebateFormat {
+  id: string;
+  name: string;
+  description: string;
+  phases: DebatePhase[];
+}
+
+/**
+ * Everything chosen on the Dashboard to start a debate
+ */
+export interface DebateConfig {
+  topic: string;
+  style: DebateStyle;
+  durationMinutes: number; // Used by free-form; structured formats use their phase durations
+  formatId: string;
+  side: DebateSide; // Already resolved when the user picked "assign randomly"
+  opponentPersona?: OpponentPersona; // Replaces the style's voice and instruction when set
+  difficulty?: DifficultyTuning; // Already resolved (Adaptive is computed from history at start)
+  inputMode?: DebateInputMode; // Defaults to voice
+  speakReplies?: boolean; // Text mode only: the opponent also answers out loud
+  prepSeconds?: number; // Prep countdown before the debate; 0 or absent skips prep
+  prepNotes?: string; // Filled in by the prep phase
+}
+
+/**
+ * What post-session analysis needs to know about a debate. A DebateConfig
+ * satisfies it; past sessions rebuild it from their history item.
+ */
+export interface AnalysisConfig {
+  topic: string;
+  style?: DebateStyle;
+  formatId?: string;
+  side?: DebateSide; // Absent for sessions from before sides were assigned
+  opponentPersona?: OpponentPersona;
+  difficulty?: Pick<DifficultyTuning, 'intensity'>;
+  inputMode?: DebateInputMode;
+  prepSeconds?: number;
+  prepNotes?: string;
+}
+
+/**
+ * Research brief generated for the prep phase
+ */
+export interface PrepBrief {
+  definitions: { term: string; definition: string }[];
+  argumentsFor: string[]; // Proposition
+  argumentsAgainst: string[]; // Opposition
+  likelyRebuttals: { rebuttal: string; response: string }[]; // Against the user's side
+}
+
+/**
+ * How the user takes part in a debate
+ */
+export type DebateInputMode = 'voice' | 'text';
+
+/**
+ * How often a custom opponent cuts in while the user is speaking
+ */
+export type InterruptionFrequency = 'never' | 'rarely' | 'sometimes' | 'often';
+
+/**
+ * User-authored AI opponent (e.g. "Hostile journalist", "Board member")
+ */
+export interface OpponentPersona {
+  id: string;
+  name: string;
+  voiceName: string; // Prebuilt Gemini Live voice
+  tone: string;
+  knowledgeFocus: string;
+  interruptionFrequency: InterruptionFrequency;
+  forbiddenTactics: string[];
+  createdAt: string; // ISO date
+  updatedAt: string; // ISO date
+}
+
+/**
+ * Opponent difficulty chosen on the Dashboard
+ */
+export enum DifficultyLevel {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+  ADAPTIVE = 'ADAPTIVE',
+}
+
+/**
+ * Concrete opponent behaviour for a difficulty level
+ */
+export interface DifficultyTuning {
+  level: DifficultyLevel;
+  intensity: number; // 0-100
+  argumentDepth: 'basic' | 'moderate' | 'advanced';
+  interruptionRate: InterruptionFrequency;
+  fallacyTolerance: 'lenient' | 'balanced' | 'strict';
+  rationale?: string; // Adaptive only: why this intensity was chosen
 }
 
 /**
@@ -0,0 +1,259 @@
+/**
+ * Analysis Validation Utilities
+ * Validates the analysis model's JSON response before it is scored and stored.
+ * Fixable problems are repaired and reported as warnings; responses that can't
+ * be scored are rejected so the request is retried.
+ */
+
+import type { DebateAnalysis, PhaseScore, RubricCriterionKey } from '@/types';
+
+/**
+ * Fallacy as returned by the analysis model, pointing at a message by index
+ */
+export interface RawFallacy {
+  type?: string;
+  messageIndex?: number;
+  quote?: string;
+  explanation?: string;
+  betterAlternative?: string;
+}
+
+/**
+ * Analysis response after validation, before scoring and fallacy mapping
+ */
+export type ValidatedAnalysis = Omit<
+  DebateAnalysis,
+  'score' | 'fallacies' | 'argumentMap' | 'rubricId' | 'rubricVersion' | 'analysisModel' | 'judgePanel' | 'validationWarnings'
+> & {
+  fallacies: RawFallacy[];
+  verdict?: string;
+};
+
+/**
+ * What the response is expected to contain for this session
+ */
+export interface AnalysisExpectations {
+  criteria: RubricCriterionKey[]; // Scored criteria of the rubric in use
+  phaseIds: string[]; // Empty for free-form debates
+  expectPrepFeedback: boolean;
+  expectVerdict: boolean; // Panel judges only
+}
+
+const CONFIDENCE_LEVELS: DebateAnalysis['confidenceLevel'][] = ['Low', 'Medium', 'High', 'Unstoppable'];
+const PROFICIENCY_LEVELS: DebateAnalysis['englishProficiency'][] = ['Beginner', 'Intermediate', 'Advanced', 'Native'];
+
+/** Longest lists kept, matching what the prompt asks for */
+const MAX_LIST_LENGTHS = {
+  strengths: 3,
+  weaknesses: 3,
+  suggestions: 6,
+} as const;
+
+/**
+ * Reads a 0-100 score, accepting numeric strings and clamping out-of-range values
+ * @returns null if there is no usable number
+ */
+function readScore(value: unknown, field: string, warnings: string[]): number | null {
+  const score = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    return null;
+  }
+  if (typeof value === 'string') {
+    warnings.push(`${field} was a string and was converted to a number`);
+  }
+  if (score < 0 || score > 100) {
+    warnings.push(`${field} was ${score} and was clamped to 0-100`);
+  }
+  return Math.round(Math.min(100, Math.max(0, score)));
+}
+
+function readText(value: unknown, field: string, fallback: string, warnings: string[]): string {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+  warnings.push(`${field} was missing and was replaced with a default`);
+  return fallback;
+}
+
+function readEnum<T extends string>(value: unknown, field: string, allowed: T[], fallback: T, warnings: string[]): T {
+  if (allowed.includes(value as T)) {
+    return value as T;
+  }
+  warnings.push(`${field} "${String(value)}" is not one of ${allowed.join(', ')} and was set to ${fallback}`);
+  return fallback;
+}
+
+function readList(value: unknown, field: keyof typeof MAX_LIST_LENGTHS, warnings: string[]): string[] {
+  if (!Array.isArray(value)) {
+    warnings.push(`${field} was not a list`);
+    return [];
+  }
+  const items = value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim());
+  if (items.length < value.length) {
+    warnings.push(`${value.length - items.length} empty or invalid ${field} were removed`);
+  }
+  if (items.length > MAX_LIST_LENGTHS[field]) {
+    warnings.push(`${field} had ${items.length} entries and was cut to ${MAX_LIST_LENGTHS[field]}`);
+  }
+  return items.slice(0, MAX_LIST_LENGTHS[field]);
+}
+
+function readPhaseScores(value: unknown, phaseIds: string[], warnings: string[]): PhaseScore[] {
+  if (!Array.isArray(value)) {
+    warnings.push('phaseScores was not a list');
+    return [];
+  }
+  const phases = value.flatMap((item): PhaseScore[] => {
+    const p = (item ?? {}) as Partial<PhaseScore>;
+    if (typeof p.phaseId !== 'string' || !phaseIds.includes(p.phaseId)) {
+      return [];
+    }
+    const score = readScore(p.score, `phaseScores.${p.phaseId}`, warnings);
+    if (score === null) {
+      return [];
+    }
+    // phaseName is filled in from the debate format afterwards
+    return [{ phaseId: p.phaseId, phaseName: '', score, feedback: typeof p.feedback === 'string' ? p.feedback.trim() : '' }];
+  });
+  if (phases.length < value.length) {
+    warnings.push(`${value.length - phases.length} phase score(s) with an unknown phase or no score were removed`);
+  }
+  return phases;
+}
+
+function readFallacies(value: unknown, warnings: string[]): RawFallacy[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    warnings.push('fallacies was not a list');
+    return [];
+  }
+  const fallacies = value.flatMap((item): RawFallacy[] => {
+    const f = (item ?? {}) as RawFallacy;
+    if (typeof f.type !== 'string' || typeof f.messageIndex !== 'number' || !Number.isInteger(f.messageIndex)) {
+      return [];
+    }
+    return [{
+      type: f.type,
+      messageIndex: f.messageIndex,
+      quote: typeof f.quote === 'string' ? f.quote : '',
+      explanation: typeof f.explanation === 'string' ? f.explanation : '',
+      betterAlternative: typeof f.betterAlternative === 'string' ? f.betterAlternative : '',
+    }];
+  });
+  if (fallacies.length < value.length) {
+    warnings.push(`${value.length - fallacies.length} fallacy entries without a type or message were removed`);
+  }
+  return fallacies;
+}
+
+/**
+ * Validates and repairs an analysis response
+ * Returns the repaired analysis, or null with errors if it can't be used
+ */
+export function validateDebateAnalysis(response: unknown, expected: AnalysisExpectations): {
+  analysis: ValidatedAnalysis | null;
+  warnings: string[];
+  errors: string[];
+} {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  if (!response || typeof response !== 'object' || Array.isArray(response)) {
+    errors.push('Analysis must be an object');
+    return { analysis: null, warnings, errors };
+  }
+
+  const r = response as Record<string, unknown>;
+
+  // The overall score is computed from these, so a missing criterion can't be repaired
+  const criteria: Partial<Record<RubricCriterionKey, number>> = {};
+  for (const key of expected.criteria) {
+    const score = readScore(r[key], key, warnings);
+    if (score === null) {
+      errors.push(`${key} is missing or not a number`);
+    } else {
+      criteria[key] = score;
+    }
+  }
+
+  const strengths = readList(r.strengths, 'strengths', warnings);
+  const weaknesses = readList(r.weaknesses, 'weaknesses', warnings);
+  const suggestions = readList(r.suggestions, 'suggestions', warnings);
+  if (strengths.length === 0 && weaknesses.length === 0 && suggestions.length === 0) {
+    errors.push('Analysis has no strengths, weaknesses or suggestions');
+  }
+
+  if (errors.length > 0) {
+    return { analysis: null, warnings, errors };
+  }
+
+  const analysis: ValidatedAnalysis = {
+    confidenceLevel: readEnum(r.confidenceLevel, 'confidenceLevel', CONFIDENCE_LEVELS, 'Medium', warnings),
+    englishProficiency: readEnum(r.englishProficiency, 'englishProficiency', PROFICIENCY_LEVELS, 'Intermediate', warnings),
+    // Criteria outside the rubric weren't scored; leave them out rather than store a 0
+    vocabularyScore: criteria.vocabularyScore,
+    clarityScore: criteria.clarityScore,
+    argumentStrength: criteria.argumentStrength,
+    persuasionScore: criteria.persuasionScore,
+    strategicAdaptability: criteria.strategicAdaptability,
+    archetype: readText(r.archetype, 'archetype', 'The Debater', warnings),
+    wildcardInsight: readText(r.wildcardInsight, 'wildcardInsight', '', warnings),
+    emotionalState: readText(r.emotionalState, 'emotionalState', 'Neutral', warnings),
+    strengths,
+    weaknesses,
+    suggestions,
+    fallacies: readFallacies(r.fallacies, warnings),
+  };
+
+  if (expected.phaseIds.length > 0) {
+    analysis.phaseScores = readPhaseScores(r.phaseScores, expected.phaseIds, warnings);
+  }
+  if (expected.expectPrepFeedback) {
+    analysis.prepFeedback = readText(r.prepFeedback, 'prepFeedback', '', warnings) || undefined;
+  }
+  if (expected.expectVerdict) {
+    analysis.verdict = readText(r.verdict, 'verdict', '', warnings);
+  }
+
+  return { analysis, warnings, errors };
+}
+
+/**
+ * Reads whatever is already usable from a response that is still streaming in.
+ * Nothing is repaired or reported; incomplete or invalid fields are left out
+ * until the full response is validated.
+ */
+export function readPartialAnalysis(response: unknown, criteria: RubricCriterionKey[]): Partial<DebateAnalysis> {
+  if (!response || typeof response !== 'object' || Array.isArray(response)) {
+    return {};
+  }
+
+  const r = response as Record<string, unknown>;
+  const ignored: string[] = [];
+  const partial: Partial<DebateAnalysis> = {};
+
+  for (const key of criteria) {
+    const score = readScore(r[key], key, ignored);
+    if (score !== null) partial[key] = score;
+  }
+  if (CONFIDENCE_LEVELS.includes(r.confidenceLevel as DebateAnalysis['confidenceLevel'])) {
+    partial.confidenceLevel = r.confidenceLevel as DebateAnalysis['confidenceLevel'];
+  }
+  if (PROFICIENCY_LEVELS.includes(r.englishProficiency as DebateAnalysis['englishProficiency'])) {
+    partial.englishProficiency = r.englishProficiency as DebateAnalysis['englishProficiency'];
+  }
+
+  const textFields = ['archetype', 'wildcardInsight', 'emotionalState', 'prepFeedback'] as const;
+  for (const field of textFields) {
+    if (typeof r[field] === 'string' && r[field].trim() !== '') partial[field] = r[field].trim();
+  }
+
+  const listFields = ['strengths', 'weaknesses', 'suggestions'] as const;
+  for (const field of listFields) {
+    if (Array.isArray(r[field])) partial[field] = readList(r[field], field, ignored);
+  }
+
+  return partial;
+}
@@ -0,0 +1,87 @@
+/**
+ * Argument map helpers - clean up mined argument units and query the links
+ * between claims, evidence, rebuttals and concessions
+ */
+
+import type { ArgumentMap, ArgumentUnit, ArgumentUnitType, ChatMessage } from '../types';
+
+const UNIT_TYPES: ArgumentUnitType[] = ['claim', 'evidence', 'rebuttal', 'concession'];
+
+/**
+ * Argument unit as returned by the model, pointing at messages by index
+ */
+export interface RawArgumentUnit {
+  id?: unknown;
+  type?: unknown;
+  summary?: unknown;
+  messageIndex?: unknown;
+  targetId?: unknown;
+}
+
+/**
+ * Turn raw model output into a consistent argument map
+ *
+ * The speaker always comes from the referenced message, and links that make
+ * no sense (evidence for the other side, rebuttals of your own claim, answers
+ * to something said later, unknown targets) are dropped rather than trusted.
+ * Since links only point backwards, the map never contains cycles.
+ *
+ * @param messages - The spoken messages, in the order they were numbered in the prompt
+ */
+export function normalizeArgumentMap(rawUnits: RawArgumentUnit[], messages: ChatMessage[]): ArgumentMap {
+  const units: ArgumentUnit[] = [];
+  const rawTargets = new Map<string, string>();
+
+  rawUnits.forEach(raw => {
+    const message = typeof raw.messageIndex === 'number' ? messages[raw.messageIndex] : undefined;
+    const type = UNIT_TYPES.find(t => t === raw.type);
+    const summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+    const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : `a${units.length + 1}`;
+
+    if (!message || message.role === 'system' || !type || !summary) return;
+    if (units.some(unit => unit.id === id)) return;
+
+    units.push({ id, speaker: message.role, type, summary, messageId: message.id });
+    if (typeof raw.targetId === 'string' && raw.targetId.trim()) {
+      rawTargets.set(id, raw.targetId.trim());
+    }
+  });
+
+  units.forEach((unit, index) => {
+    const targetIndex = units.findIndex(candidate => candidate.id === rawTargets.get(unit.id));
+    const target = units[targetIndex];
+    if (!target || targetIndex >= index) return;
+
+    const isValid = unit.type === 'evidence'
+      ? target.speaker === unit.speaker && (target.type === 'claim' || target.type === 'rebuttal')
+      : unit.type !== 'claim' && target.speaker !== unit.speaker && target.type !== 'concession';
+    if (isValid) unit.targetId = target.id;
+  });
+
+  return { units };
+}
+
+/**
+ * Rebuttals and concessions that answer a unit
+ */
+export function getResponses(map: ArgumentMap, unitId: string): ArgumentUnit[] {
+  return map.units.filter(unit => unit.targetId === unitId && (unit.type === 'rebuttal' || unit.type === 'concession'));
+}
+
+/**
+ * Evidence offered in support of a unit
+ */
+export function getEvidence(map: ArgumentMap, unitId: string): ArgumentUnit[] {
+  return map.units.filter(unit => unit.targetId === unitId && unit.type === 'evidence');
+}
+
+/**
+ * Claims the other side never rebutted or conceded
+ */
+export function getUnansweredClaims(map: ArgumentMap, speaker?: ArgumentUnit['speaker']): ArgumentUnit[] {
+  return map.units.filter(unit =>
+    unit.type === 'claim' &&
+    (speaker === undefined || unit.speaker === speaker) &&
+    getResponses(map, unit.id).length === 0
+  );
+}
@@ -84,3 +84,38 @@ export async function decodeAudioData(
 
   return audioBuffer;
 }
+
+/**
+ * Encodes mono Int16 PCM samples as a 16-bit WAV file
+ *
+ * @param samples - Int16 PCM samples
+ * @param sampleRate - Sample rate of the samples
+ * @returns Blob with a RIFF/WAVE header followed by the PCM data
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Blob {
+  const headerSize = 44;
+  const dataSize = samples.length * 2;
+  const header = new DataView(new ArrayBuffer(headerSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);             // PCM chunk size
+  header.setUint16(20, 1, true);              // Audio format: PCM
+  header.setUint16(22, 1, true);              // Channels: mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true);              // Block align
+  header.setUint16(34, 16, true);             // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  return new Blob([header.buffer, samples as Int16Array<ArrayBuffer>], { type: 'audio/wav' });
+}
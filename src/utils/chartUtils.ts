@@ -1,4 +1,4 @@
-import { SessionHistoryItem } from '../types';
+import { DeliveryMetrics, SessionHistoryItem } from '../types';
 
 /**
  * Transform session data into chart data points for score trend visualization
@@ -27,6 +27,33 @@ export function transformSessionsToScoreData(sessions: SessionHistoryItem[]): Sc
     .sort((a, b) => a.dateValue - b.dateValue);
 }
 
+/**
+ * Delivery metrics of one session, for the delivery trend chart
+ */
+export interface DeliveryChartDataPoint extends DeliveryMetrics {
+  date: string;
+  topic: string;
+  dateValue: number;
+}
+
+export function transformSessionsToDeliveryData(sessions: SessionHistoryItem[]): DeliveryChartDataPoint[] {
+  return sessions
+    .flatMap(session => {
+      if (!session.deliveryMetrics) return [];
+      const sessionDate = new Date(session.date);
+      return [{
+        ...session.deliveryMetrics,
+        date: sessionDate.toLocaleDateString('en-US', { 
+          month: 'short', 
+          day: 'numeric' 
+        }),
+        topic: session.topic,
+        dateValue: sessionDate.getTime()
+      }];
+    })
+    .sort((a, b) => a.dateValue - b.dateValue);
+}
+
 /**
  * Group sessions into duration ranges for distribution chart
  */
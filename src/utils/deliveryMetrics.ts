@@ -0,0 +1,135 @@
+/**
+ * Delivery metrics - how the user spoke, computed locally without the LLM
+ *
+ * Speaking time comes from the microphone level (SpeechSegmentTracker), word
+ * counts and turn lengths from the transcript. When no mic segments were
+ * captured, message timestamps stand in for speaking time.
+ */
+
+import type { ChatMessage, DeliveryMetrics } from '../types';
+
+/**
+ * A stretch of time the microphone picked up speech (epoch ms)
+ */
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+// Single-word fillers, and multi-word ones matched as phrases. "Like" is only
+// a filler when quoting ("I was like"), not as a verb ("I like this policy").
+const FILLER_WORDS = ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'basically', 'literally'];
+const FILLER_PHRASES = [
+  'you know', 'i mean', 'sort of', 'kind of',
+  'was like', 'were like', "i'm like", "he's like", "she's like", "they're like", "we're like",
+];
+
+/**
+ * Lowercase words of a text, without punctuation
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+/**
+ * Number of filler words and phrases in a list of words
+ */
+export function countFillers(words: string[]): number {
+  const joined = ` ${words.join(' ')} `;
+  const phraseCount = FILLER_PHRASES.reduce((count, phrase) => count + (joined.split(` ${phrase} `).length - 1), 0);
+  return phraseCount + words.filter(word => FILLER_WORDS.includes(word)).length;
+}
+
+/**
+ * Turns microphone levels into speech segments
+ * A segment ends once the level has stayed below the threshold for the hangover time.
+ */
+export class SpeechSegmentTracker {
+  private segments: SpeechSegment[] = [];
+  private current: SpeechSegment | null = null;
+  private lastSpeechAt = 0;
+
+  constructor(private threshold: number, private hangoverMs: number) {}
+
+  /**
+   * Feed the RMS level (0-1) of one microphone chunk
+   */
+  addLevel(rms: number, now: number = Date.now()) {
+    if (rms >= this.threshold) {
+      this.lastSpeechAt = now;
+      if (!this.current) this.current = { start: now, end: now };
+      this.current.end = now;
+      return;
+    }
+    if (this.current && now - this.lastSpeechAt > this.hangoverMs) {
+      this.segments.push(this.current);
+      this.current = null;
+    }
+  }
+
+  /**
+   * All segments so far, including one still in progress
+   */
+  getSegments(): SpeechSegment[] {
+    return this.current ? [...this.segments, { ...this.current }] : [...this.segments];
+  }
+
+  reset() {
+    this.segments = [];
+    this.current = null;
+    this.lastSpeechAt = 0;
+  }
+}
+
+const messageSpan = (message: ChatMessage) => Math.max(0, (message.endTimestamp ?? message.timestamp) - message.timestamp);
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Compute delivery metrics for the user's side of a voice debate
+ * @returns null if the user said nothing
+ */
+export function computeDeliveryMetrics(transcript: ChatMessage[], segments: SpeechSegment[]): DeliveryMetrics | null {
+  const userMessages = transcript.filter(m => m.role === 'user' && m.text.trim().length > 0);
+  const modelMessages = transcript.filter(m => m.role === 'model' && m.text.trim().length > 0);
+  const words = userMessages.flatMap(m => tokenizeWords(m.text));
+  if (words.length === 0) return null;
+
+  // Group mic segments into turns: a new turn starts whenever the opponent spoke in between
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  const turns: SpeechSegment[][] = [];
+  sorted.forEach((segment, index) => {
+    const previous = sorted[index - 1];
+    const opponentSpoke = previous !== undefined && modelMessages.some(m => m.timestamp >= previous.end && m.timestamp <= segment.start);
+    const currentTurn = turns[turns.length - 1];
+    if (!currentTurn || opponentSpoke) {
+      turns.push([segment]);
+    } else {
+      currentTurn.push(segment);
+    }
+  });
+
+  const pauses = turns.flatMap(turn => turn.slice(1).map((segment, index) => segment.start - turn[index]!.end));
+  const turnSpans = turns.length > 0
+    ? turns.map(turn => turn[turn.length - 1]!.end - turn[0]!.start)
+    : userMessages.map(messageSpan);
+
+  const userSpeakingMs = sorted.length > 0
+    ? sorted.reduce((total, segment) => total + (segment.end - segment.start), 0)
+    : userMessages.reduce((total, message) => total + messageSpan(message), 0);
+  const modelSpeakingMs = modelMessages.reduce((total, message) => total + messageSpan(message), 0);
+  const fillerWords = countFillers(words);
+
+  return {
+    wordsPerMinute: userSpeakingMs > 0 ? Math.round(words.length / (userSpeakingMs / 60000)) : 0,
+    fillerWords,
+    fillerRate: round((fillerWords / words.length) * 100, 1),
+    averagePauseSeconds: pauses.length > 0 ? round(pauses.reduce((a, b) => a + b, 0) / pauses.length / 1000, 1) : 0,
+    talkTimeRatio: userSpeakingMs + modelSpeakingMs > 0 ? round(userSpeakingMs / (userSpeakingMs + modelSpeakingMs), 2) : 0,
+    longestTurnSeconds: round(Math.max(0, ...turnSpans) / 1000, 1),
+    lexicalDiversity: round(new Set(words).size / words.length, 2),
+  };
+}
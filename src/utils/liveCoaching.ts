@@ -0,0 +1,101 @@
+/**
+ * Live coaching - rolling delivery indicators shown while the debate runs
+ *
+ * Reuses the post-session delivery metrics over a recent window so the
+ * numbers react to how the user is speaking now, not over the whole session.
+ */
+
+import type { ChatMessage } from '../types';
+import { type SpeechSegment, computeDeliveryMetrics, countFillers, tokenizeWords } from './deliveryMetrics';
+
+/** Pace and talk share look at this much recent history */
+const ROLLING_WINDOW_MS = 2 * 60 * 1000;
+
+/** A turn still counts as ongoing if speech was heard this recently */
+const ONGOING_TURN_GRACE_MS = 2000;
+
+/** Talking this long without handing over earns a nudge */
+export const LONG_TURN_SECONDS = 90;
+
+/**
+ * Current live indicators
+ */
+export interface LiveCoachingSnapshot {
+  wordsPerMinute: number; // Rolling, 0 until the user has spoken
+  fillerWords: number; // Whole session so far
+  fillerRate: number; // Rolling, per 100 words
+  talkTimeRatio: number; // Rolling, 0-1
+  talkingForSeconds: number; // Current uninterrupted turn, 0 when not talking
+  userWords: number; // Whole session so far
+}
+
+export const EMPTY_COACHING_SNAPSHOT: LiveCoachingSnapshot = {
+  wordsPerMinute: 0,
+  fillerWords: 0,
+  fillerRate: 0,
+  talkTimeRatio: 0,
+  talkingForSeconds: 0,
+  userWords: 0,
+};
+
+/**
+ * Compute the live indicators at a point in time
+ * @param segments - Mic speech segments so far (from GeminiLiveService.getSpeechSegments)
+ */
+export function computeLiveCoaching(
+  transcript: ChatMessage[],
+  segments: SpeechSegment[],
+  now: number = Date.now()
+): LiveCoachingSnapshot {
+  const windowStart = now - ROLLING_WINDOW_MS;
+  const recentMessages = transcript.filter(m => (m.endTimestamp ?? m.timestamp) >= windowStart);
+  const recentSegments = segments.filter(segment => segment.end >= windowStart);
+  const rolling = computeDeliveryMetrics(recentMessages, recentSegments);
+
+  const userWords = transcript
+    .filter(m => m.role === 'user')
+    .flatMap(m => tokenizeWords(m.text));
+
+  // The current turn started at the first segment after the opponent last spoke
+  const lastModelTimestamp = Math.max(0, ...transcript.filter(m => m.role === 'model').map(m => m.endTimestamp ?? m.timestamp));
+  const turnSegments = segments.filter(segment => segment.start > lastModelTimestamp);
+  const firstSegment = turnSegments[0];
+  const lastSegment = turnSegments[turnSegments.length - 1];
+  const isTalking = lastSegment !== undefined && now - lastSegment.end <= ONGOING_TURN_GRACE_MS;
+
+  return {
+    wordsPerMinute: rolling?.wordsPerMinute ?? 0,
+    fillerWords: countFillers(userWords),
+    fillerRate: rolling?.fillerRate ?? 0,
+    talkTimeRatio: rolling?.talkTimeRatio ?? 0,
+    talkingForSeconds: isTalking && firstSegment ? Math.round((now - firstSegment.start) / 1000) : 0,
+    userWords: userWords.length,
+  };
+}
+
+/**
+ * The one gentle nudge worth showing right now, most urgent first
+ * @param elapsedSeconds - Time since the debate started
+ * @returns null when there is nothing to say
+ */
+export function getCoachingNudge(snapshot: LiveCoachingSnapshot, elapsedSeconds: number): string | null {
+  if (snapshot.talkingForSeconds >= LONG_TURN_SECONDS) {
+    return `You've been talking for ${snapshot.talkingForSeconds}s. Land your point and let your opponent respond.`;
+  }
+  // Rolling numbers are noisy until there is something to measure
+  if (snapshot.userWords < 40) return null;
+
+  if (snapshot.wordsPerMinute > 180) {
+    return 'You\'re speaking quickly. Slow down a little so each point lands.';
+  }
+  if (snapshot.fillerRate > 6) {
+    return 'Lots of fillers lately. Try a short pause instead of "um" or "like".';
+  }
+  if (elapsedSeconds >= 120 && snapshot.talkTimeRatio < 0.3) {
+    return 'Your opponent has most of the floor. Jump in with your next point.';
+  }
+  if (snapshot.wordsPerMinute > 0 && snapshot.wordsPerMinute < 100) {
+    return 'Nice and measured. You can pick up the pace a bit to keep energy up.';
+  }
+  return null;
+}
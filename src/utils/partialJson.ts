@@ -0,0 +1,70 @@
+/**
+ * Partial JSON Utilities
+ * Parses the prefix of a JSON document that is still streaming in
+ */
+
+/**
+ * Parses incomplete JSON by closing whatever is still open.
+ * An unfinished string is kept as far as it has arrived, but an unfinished
+ * number or literal, or an object key without its value, is dropped, since
+ * it could still change.
+ *
+ * @param text - JSON text received so far
+ * @returns The parsed value, or undefined if nothing usable has arrived yet
+ */
+export function parsePartialJson(text: string): unknown {
+  const stack: ('{' | '[')[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    }
+  }
+
+  let completed = text;
+  if (inString) {
+    // Drop a half-received escape sequence before closing the string
+    completed = completed.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '') + '"';
+  }
+
+  // A number or literal at the very end may still be growing
+  completed = completed
+    .trimEnd()
+    .replace(/(?:-?[\d.eE+-]+|\b(?:t|tr|tru|true|f|fa|fal|fals|false|n|nu|nul|null))$/, '');
+
+  // Then trim separators and keys left without a value until nothing changes
+  const inObject = stack[stack.length - 1] === '{';
+  let previous: string;
+  do {
+    previous = completed;
+    completed = completed
+      .trimEnd()
+      .replace(/,$/, '')
+      .replace(/"(?:[^"\\]|\\.)*"\s*:$/, '');
+    if (inObject) {
+      // A string straight after "{" or "," is a key still waiting for its value
+      completed = completed.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1');
+    }
+  } while (completed !== previous);
+
+  const closers = stack.reverse().map((open) => (open === '{' ? '}' : ']')).join('');
+  try {
+    return JSON.parse(completed + closers);
+  } catch {
+    return undefined;
+  }
+}
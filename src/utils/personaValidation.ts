@@ -3,7 +3,13 @@
  * Validates session history data and archetype objects before processing
  */
 
-import type { SessionHistoryItem, PersonaArchetype, PersonaTrait } from '@/types';
+import type {
+  SessionHistoryItem,
+  PersonaArchetype,
+  PersonaTrait,
+  OpponentPersona,
+  InterruptionFrequency,
+} from '@/types';
 
 /**
  * Validates a single session history item
@@ -222,3 +228,66 @@ export function sanitizeSessionHistory(sessions: unknown): {
     warning: null,
   };
 }
+
+const INTERRUPTION_FREQUENCIES: InterruptionFrequency[] = ['never', 'rarely', 'sometimes', 'often'];
+
+/**
+ * Validates a user-authored opponent persona (e.g. from an imported JSON file)
+ */
+export function validateOpponentPersona(persona: unknown): persona is OpponentPersona {
+  if (!persona || typeof persona !== 'object') {
+    return false;
+  }
+
+  const p = persona as Partial<OpponentPersona>;
+
+  // Required string fields
+  const stringFields = ['id', 'name', 'voiceName', 'tone', 'knowledgeFocus'] as const;
+  for (const field of stringFields) {
+    if (typeof p[field] !== 'string' || p[field]!.trim() === '') {
+      return false;
+    }
+  }
+
+  if (!p.interruptionFrequency || !INTERRUPTION_FREQUENCIES.includes(p.interruptionFrequency)) {
+    return false;
+  }
+
+  if (!Array.isArray(p.forbiddenTactics) || !p.forbiddenTactics.every((t) => typeof t === 'string')) {
+    return false;
+  }
+
+  if (typeof p.createdAt !== 'string' || typeof p.updatedAt !== 'string') {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validates an array of opponent personas
+ * Returns validated personas and error messages for invalid ones
+ */
+export function validateOpponentPersonas(personas: unknown): {
+  valid: OpponentPersona[];
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const valid: OpponentPersona[] = [];
+
+  if (!Array.isArray(personas)) {
+    errors.push('Opponent personas must be an array');
+    return { valid, errors };
+  }
+
+  personas.forEach((persona, index) => {
+    if (validateOpponentPersona(persona)) {
+      valid.push(persona);
+    } else {
+      const name = (persona as Partial<OpponentPersona> | null)?.name;
+      errors.push(`Invalid opponent persona at index ${index}${typeof name === 'string' ? ` (${name})` : ''}`);
+    }
+  });
+
+  return { valid, errors };
+}
@@ -0,0 +1,150 @@
+/**
+ * Rubric Validation Utilities
+ * Validates user-authored analysis rubrics before they are stored or scored against
+ */
+
+import type { AnalysisRubric, RubricBand, RubricCriterion, RubricCriterionKey } from '@/types';
+import { ANALYSIS_RUBRICS } from '../services/analysisRubrics';
+
+const RUBRIC_CRITERION_KEYS: RubricCriterionKey[] = [
+  'vocabularyScore',
+  'clarityScore',
+  'argumentStrength',
+  'persuasionScore',
+  'strategicAdaptability',
+];
+
+// Weights are entered by hand, so allow for rounding (e.g. three weights of 0.333)
+const WEIGHT_SUM_TOLERANCE = 0.01;
+
+/**
+ * Validates a rubric band's range and anchor
+ */
+function validateRubricBand(band: unknown): band is RubricBand {
+  if (!band || typeof band !== 'object') {
+    return false;
+  }
+
+  const b = band as Partial<RubricBand>;
+
+  if (!Number.isInteger(b.min) || !Number.isInteger(b.max) || b.min! < 0 || b.max! > 100 || b.min! > b.max!) {
+    return false;
+  }
+
+  return typeof b.anchor === 'string' && b.anchor.trim() !== '';
+}
+
+/**
+ * Validates a rubric criterion; its bands must run lowest first and cover 0-100 without gaps
+ */
+export function validateRubricCriterion(criterion: unknown): criterion is RubricCriterion {
+  if (!criterion || typeof criterion !== 'object') {
+    return false;
+  }
+
+  const c = criterion as Partial<RubricCriterion>;
+
+  if (!c.key || !RUBRIC_CRITERION_KEYS.includes(c.key)) {
+    return false;
+  }
+
+  if (typeof c.label !== 'string' || c.label.trim() === '') {
+    return false;
+  }
+
+  if (typeof c.description !== 'string' || c.description.trim() === '') {
+    return false;
+  }
+
+  if (typeof c.weight !== 'number' || !(c.weight > 0) || c.weight > 1) {
+    return false;
+  }
+
+  if (!Array.isArray(c.bands) || c.bands.length === 0 || !c.bands.every(validateRubricBand)) {
+    return false;
+  }
+
+  const bands = c.bands;
+  if (bands[0]!.min !== 0 || bands[bands.length - 1]!.max !== 100) {
+    return false;
+  }
+
+  return bands.every((band, index) => index === 0 || band.min === bands[index - 1]!.max + 1);
+}
+
+/**
+ * Validates a user-authored analysis rubric (e.g. from an imported JSON file).
+ * Built-in rubric ids are reserved so a custom rubric can't replace one.
+ */
+export function validateAnalysisRubric(rubric: unknown): rubric is AnalysisRubric {
+  if (!rubric || typeof rubric !== 'object') {
+    return false;
+  }
+
+  const r = rubric as Partial<AnalysisRubric>;
+
+  if (typeof r.id !== 'string' || r.id.trim() === '') {
+    return false;
+  }
+
+  if (ANALYSIS_RUBRICS.some((builtIn) => builtIn.id === r.id)) {
+    return false;
+  }
+
+  if (!Number.isInteger(r.version) || r.version! < 1) {
+    return false;
+  }
+
+  if (typeof r.name !== 'string' || r.name.trim() === '') {
+    return false;
+  }
+
+  if (typeof r.description !== 'string') {
+    return false;
+  }
+
+  if (!Array.isArray(r.guidance) || !r.guidance.every((rule) => typeof rule === 'string')) {
+    return false;
+  }
+
+  if (!Array.isArray(r.criteria) || r.criteria.length === 0 || !r.criteria.every(validateRubricCriterion)) {
+    return false;
+  }
+
+  // Each sub-score can only be weighted once
+  const keys = new Set(r.criteria.map((criterion) => criterion.key));
+  if (keys.size !== r.criteria.length) {
+    return false;
+  }
+
+  const totalWeight = r.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  return Math.abs(totalWeight - 1) <= WEIGHT_SUM_TOLERANCE;
+}
+
+/**
+ * Validates an array of analysis rubrics
+ * Returns validated rubrics and error messages for invalid ones
+ */
+export function validateAnalysisRubrics(rubrics: unknown): {
+  valid: AnalysisRubric[];
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const valid: AnalysisRubric[] = [];
+
+  if (!Array.isArray(rubrics)) {
+    errors.push('Analysis rubrics must be an array');
+    return { valid, errors };
+  }
+
+  rubrics.forEach((rubric, index) => {
+    if (validateAnalysisRubric(rubric)) {
+      valid.push(rubric);
+    } else {
+      const name = (rubric as Partial<AnalysisRubric> | null)?.name;
+      errors.push(`Invalid analysis rubric at index ${index}${typeof name === 'string' ? ` (${name})` : ''}`);
+    }
+  });
+
+  return { valid, errors };
+}
@@ -3,7 +3,41 @@
  * Requirements: 5.1, 5.2, 5.3, 5.4
  */
 
-import { SessionHistoryItem } from '../types';
+import { DebateSide, DebateStyle, FallacyType, SessionHistoryItem } from '../types';
+
+/**
+ * Sessions that have scores: pending sessions are saved with a placeholder
+ * score of 0 and must stay out of averages, charts and personas
+ * @param sessions - Array of session history items
+ * @returns Sessions whose analysis has completed
+ */
+export function getScoredSessions(sessions: SessionHistoryItem[]): SessionHistoryItem[] {
+  return sessions.filter((session) => session.analysisStatus !== 'pending');
+}
+
+/**
+ * Which analysis of a re-analyzed session the charts show
+ */
+export type AnalysisVersionChoice = 'latest' | 'original';
+
+/**
+ * Show each session's scores from the chosen analysis version
+ * @param sessions - Array of session history items
+ * @param choice - 'original' swaps in the first analysis of re-analyzed sessions
+ * @returns Sessions with their score fields taken from that version
+ */
+export function selectAnalysisVersion(
+  sessions: SessionHistoryItem[],
+  choice: AnalysisVersionChoice
+): SessionHistoryItem[] {
+  if (choice === 'latest') {
+    return sessions;
+  }
+  return sessions.map((session) => {
+    const original = session.analysisVersions?.[0];
+    return original ? { ...session, ...original } : session;
+  });
+}
 
 /**
  * Calculate total number of sessions
@@ -149,3 +183,132 @@ export function getTopPerformers(sessions: SessionHistoryItem[]): SessionHistory
   // Return top 3 or fewer
   return sorted.slice(0, 3);
 }
+
+/**
+ * Score at or above which a session counts as a win
+ */
+export const WIN_SCORE_THRESHOLD = 60;
+
+/**
+ * Aggregated results for one side of the motion
+ */
+export interface SideBreakdown {
+  side: DebateSide;
+  sessions: number;
+  wins: number;
+  winRate: number; // 0-100
+  averageScore: number; // 0-100
+}
+
+/**
+ * Break down results by the side the user argued
+ * 
+ * Sessions saved before side selection existed have no side and are skipped.
+ * A session is a win when its score reaches the win threshold.
+ * 
+ * @param sessions - Array of session history items
+ * @param winThreshold - Minimum score that counts as a win
+ * @returns Breakdown for proposition and opposition, in that order
+ */
+export function calculateSideBreakdown(
+  sessions: SessionHistoryItem[],
+  winThreshold: number = WIN_SCORE_THRESHOLD
+): SideBreakdown[] {
+  const sides: DebateSide[] = ['proposition', 'opposition'];
+
+  return sides.map(side => {
+    const sideSessions = sessions.filter(session => session.side === side);
+    const wins = sideSessions.filter(session => session.score >= winThreshold).length;
+
+    return {
+      side,
+      sessions: sideSessions.length,
+      wins,
+      winRate: sideSessions.length > 0 ? Math.round((wins / sideSessions.length) * 100) : 0,
+      averageScore: calculateAverageScore(sideSessions),
+    };
+  });
+}
+
+/**
+ * Aggregated results against one AI opponent style
+ */
+export interface StyleBreakdown {
+  style: DebateStyle;
+  sessions: number;
+  averageScore: number; // 0-100
+  bestScore: number; // 0-100
+}
+
+/**
+ * Break down results by AI opponent style
+ * 
+ * Sessions saved before the style was recorded are skipped.
+ * 
+ * @param sessions - Array of session history items
+ * @returns One entry per style that has sessions, sorted by average score descending
+ */
+export function calculateStyleBreakdown(sessions: SessionHistoryItem[]): StyleBreakdown[] {
+  const grouped = new Map<DebateStyle, SessionHistoryItem[]>();
+  for (const session of sessions) {
+    if (!session.style) continue;
+    const group = grouped.get(session.style) ?? [];
+    group.push(session);
+    grouped.set(session.style, group);
+  }
+
+  return Array.from(grouped.entries())
+    .map(([style, styleSessions]) => ({
+      style,
+      sessions: styleSessions.length,
+      averageScore: calculateAverageScore(styleSessions),
+      bestScore: Math.max(...styleSessions.map(session => session.score)),
+    }))
+    .sort((a, b) => b.averageScore - a.averageScore);
+}
+
+/**
+ * How often one fallacy showed up across sessions
+ */
+export interface FallacyBreakdown {
+  type: FallacyType;
+  count: number; // Total times detected
+  sessions: number; // Sessions it appeared in
+}
+
+/**
+ * Break down detected fallacies by type
+ * 
+ * Sessions analyzed before fallacy detection existed have no fallacy list and are skipped.
+ * 
+ * @param sessions - Array of session history items
+ * @returns Breakdown with one entry per detected type, most common first, and the number of checked sessions
+ */
+export function calculateFallacyBreakdown(sessions: SessionHistoryItem[]): {
+  breakdown: FallacyBreakdown[];
+  checkedSessions: number;
+} {
+  const counts = new Map<FallacyType, FallacyBreakdown>();
+  let checkedSessions = 0;
+
+  for (const session of sessions) {
+    if (!session.fallacies) continue;
+    checkedSessions++;
+
+    const seenInSession = new Set<FallacyType>();
+    for (const fallacy of session.fallacies) {
+      const entry = counts.get(fallacy.type) ?? { type: fallacy.type, count: 0, sessions: 0 };
+      entry.count++;
+      if (!seenInSession.has(fallacy.type)) {
+        entry.sessions++;
+        seenInSession.add(fallacy.type);
+      }
+      counts.set(fallacy.type, entry);
+    }
+  }
+
+  return {
+    breakdown: Array.from(counts.values()).sort((a, b) => b.count - a.count || b.sessions - a.sessions),
+    checkedSessions,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Client-side voice activity detection for the live microphone stream
+ *
+ * Classifies PCM16 chunks as speech using short-term energy (RMS) and
+ * zero-crossing rate, with an onset delay, a hangover period and a short
+ * pre-roll so word onsets are not clipped.
+ */
+
+/**
+ * User-tunable VAD settings (persisted by storageService)
+ */
+export interface VoiceSettings {
+  vadEnabled: boolean;
+  /** RMS level (0-1) a chunk must reach to count as speech */
+  energyThreshold: number;
+  /** Chunks with a higher zero-crossing rate (0-1) are treated as hiss/noise */
+  maxZeroCrossingRate: number;
+  /** How long speech continues after the level drops, in ms */
+  hangoverMs: number;
+  /** Hold-to-talk instead of automatic detection */
+  pushToTalk: boolean;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  vadEnabled: false,
+  energyThreshold: 0.015,
+  maxZeroCrossingRate: 0.35,
+  hangoverMs: 600,
+  pushToTalk: false,
+};
+
+export type SpeechActivityEvent = 'speech-start' | 'speech-end';
+
+/**
+ * Result of feeding one chunk to the detector
+ */
+export interface VadResult {
+  /** Chunks that should be streamed now (pre-roll + current chunk while speaking) */
+  chunks: ArrayBuffer[];
+  /** Transition that happened on this chunk, if any */
+  event: SpeechActivityEvent | null;
+}
+
+// Speech must persist this long before speech-start fires
+const MIN_SPEECH_MS = 120;
+// Audio kept from before speech-start and sent with it
+const PRE_ROLL_MS = 250;
+
+/**
+ * Energy + zero-crossing rate of a PCM16 chunk
+ */
+export function analyzeChunk(pcm: Int16Array): { rms: number; zeroCrossingRate: number } {
+  if (pcm.length === 0) {
+    return { rms: 0, zeroCrossingRate: 0 };
+  }
+
+  let sumSquares = 0;
+  let crossings = 0;
+  let previous = pcm[0] ?? 0;
+
+  for (let i = 0; i < pcm.length; i++) {
+    const sample = pcm[i] ?? 0;
+    const normalized = sample / 32768;
+    sumSquares += normalized * normalized;
+    if ((sample >= 0) !== (previous >= 0)) {
+      crossings++;
+    }
+    previous = sample;
+  }
+
+  return {
+    rms: Math.sqrt(sumSquares / pcm.length),
+    zeroCrossingRate: crossings / pcm.length,
+  };
+}
+
+/**
+ * Stateful detector fed with consecutive PCM16 chunks
+ */
+export class VoiceActivityDetector {
+  private settings: VoiceSettings;
+  private sampleRate: number;
+  private isSpeaking = false;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private preRoll: { chunk: ArrayBuffer; ms: number }[] = [];
+
+  constructor(settings: VoiceSettings, sampleRate: number) {
+    this.settings = settings;
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Whether the detector is currently inside a speech segment
+   */
+  getIsSpeaking(): boolean {
+    return this.isSpeaking;
+  }
+
+  process(chunk: ArrayBuffer): VadResult {
+    const pcm = new Int16Array(chunk);
+    const chunkMs = (pcm.length / this.sampleRate) * 1000;
+    const { rms, zeroCrossingRate } = analyzeChunk(pcm);
+    const isSpeechFrame =
+      rms >= this.settings.energyThreshold &&
+      zeroCrossingRate <= this.settings.maxZeroCrossingRate;
+
+    if (this.isSpeaking) {
+      this.silenceMs = isSpeechFrame ? 0 : this.silenceMs + chunkMs;
+
+      if (this.silenceMs >= this.settings.hangoverMs) {
+        this.isSpeaking = false;
+        this.speechMs = 0;
+        this.silenceMs = 0;
+        return { chunks: [chunk], event: 'speech-end' };
+      }
+      return { chunks: [chunk], event: null };
+    }
+
+    this.speechMs = isSpeechFrame ? this.speechMs + chunkMs : 0;
+
+    if (this.speechMs >= MIN_SPEECH_MS) {
+      this.isSpeaking = true;
+      this.silenceMs = 0;
+      const chunks = [...this.preRoll.map(p => p.chunk), chunk];
+      this.preRoll = [];
+      return { chunks, event: 'speech-start' };
+    }
+
+    // Not speaking yet - remember recent audio for the pre-roll
+    this.preRoll.push({ chunk, ms: chunkMs });
+    let preRollMs = this.preRoll.reduce((sum, p) => sum + p.ms, 0);
+    while (preRollMs > PRE_ROLL_MS && this.preRoll.length > 1) {
+      preRollMs -= this.preRoll.shift()?.ms ?? 0;
+    }
+    return { chunks: [], event: null };
+  }
+
+  reset() {
+    this.isSpeaking = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.preRoll = [];
+  }
+}